@@ -0,0 +1,25 @@
+-- Migration: 002_transaction_status_history
+-- Description: Track status transitions per transaction and the latest applied event time
+-- Date: 2026-10-19
+
+-- Timestamp of the latest applied event (out-of-order protection)
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS last_event_at TIMESTAMP;
+
+-- Create transaction_status_history table
+CREATE TABLE IF NOT EXISTS transaction_status_history (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_ref_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    event_id VARCHAR(255) UNIQUE NOT NULL,
+    from_status transaction_status,
+    to_status transaction_status NOT NULL,
+    event_timestamp TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_status_history_transaction_ref_id ON transaction_status_history(transaction_ref_id);
+
+-- Backfill the initial status for existing transactions
+INSERT INTO transaction_status_history (transaction_ref_id, event_id, from_status, to_status, event_timestamp)
+SELECT t.id, t.event_id, NULL, t.status, COALESCE(t.processed_at, t.created_at)
+FROM transactions t
+ON CONFLICT (event_id) DO NOTHING;
@@ -0,0 +1,7 @@
+-- Migration: 003_audit_log_signing_key
+-- Description: Record which signing key verified each webhook
+-- Date: 2026-10-19
+
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS signing_key_id VARCHAR(255);
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_signing_key_id ON audit_logs(signing_key_id);
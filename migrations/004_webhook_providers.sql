@@ -0,0 +1,8 @@
+-- Migration: 004_webhook_providers
+-- Description: Record which payment provider sent each webhook
+-- Date: 2026-10-19
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS provider VARCHAR(255) NOT NULL DEFAULT 'default';
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS provider VARCHAR(255) NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_transactions_provider ON transactions(provider);
@@ -0,0 +1,33 @@
+-- Migration: 005_webhook_inbox
+-- Description: Inbox table for asynchronous webhook processing
+-- Date: 2026-10-19
+
+DO $$ BEGIN
+    CREATE TYPE inbox_status AS ENUM ('pending', 'processing', 'processed', 'failed', 'dead_letter');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS webhook_inbox (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(255) NOT NULL,
+    signing_key_id VARCHAR(255),
+    raw_body TEXT NOT NULL,
+    status inbox_status NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    processed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_inbox_status_next_attempt ON webhook_inbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_inbox_created_at ON webhook_inbox(created_at);
+
+DROP TRIGGER IF EXISTS update_webhook_inbox_updated_at ON webhook_inbox;
+CREATE TRIGGER update_webhook_inbox_updated_at
+    BEFORE UPDATE ON webhook_inbox
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
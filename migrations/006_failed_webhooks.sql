@@ -0,0 +1,42 @@
+-- Migration: 006_failed_webhooks
+-- Description: Dead-letter table for failed webhooks and replay links on audit logs
+-- Date: 2026-10-19
+
+DO $$ BEGIN
+    CREATE TYPE failed_webhook_status AS ENUM ('failed', 'replayed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS failed_webhooks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    event_id VARCHAR(255),
+    event_type VARCHAR(255),
+    provider VARCHAR(255) NOT NULL DEFAULT 'default',
+    payload JSONB NOT NULL,
+    error_type VARCHAR(255) NOT NULL,
+    error_message TEXT,
+    error_field VARCHAR(255),
+    audit_log_id UUID REFERENCES audit_logs(id) ON DELETE SET NULL,
+    status failed_webhook_status NOT NULL DEFAULT 'failed',
+    replay_count INTEGER NOT NULL DEFAULT 0,
+    last_replayed_at TIMESTAMP,
+    last_replay_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_failed_webhooks_event_id ON failed_webhooks(event_id);
+CREATE INDEX IF NOT EXISTS idx_failed_webhooks_error_type ON failed_webhooks(error_type);
+CREATE INDEX IF NOT EXISTS idx_failed_webhooks_status ON failed_webhooks(status);
+CREATE INDEX IF NOT EXISTS idx_failed_webhooks_created_at ON failed_webhooks(created_at);
+
+DROP TRIGGER IF EXISTS update_failed_webhooks_updated_at ON failed_webhooks;
+CREATE TRIGGER update_failed_webhooks_updated_at
+    BEFORE UPDATE ON failed_webhooks
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Audit rows written while replaying a failed webhook point back to it
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS replay_of UUID REFERENCES failed_webhooks(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_audit_logs_replay_of ON audit_logs(replay_of);
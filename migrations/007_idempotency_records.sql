@@ -0,0 +1,16 @@
+-- Migration: 007_idempotency_records
+-- Description: Store the first response per event for idempotent replay
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS idempotency_records (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(255) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    payload_hash VARCHAR(64) NOT NULL,
+    status_code INTEGER NOT NULL,
+    response_body JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT uq_idempotency_records_provider_event UNIQUE (provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_records_created_at ON idempotency_records(created_at);
@@ -0,0 +1,9 @@
+-- Migration: 008_transaction_query_indexes
+-- Description: Indexes for the transactions query API (filters and keyset pagination)
+-- Date: 2026-10-19
+
+CREATE INDEX IF NOT EXISTS idx_transactions_created_at_id ON transactions(created_at, id);
+CREATE INDEX IF NOT EXISTS idx_transactions_amount_id ON transactions(amount, id);
+CREATE INDEX IF NOT EXISTS idx_transactions_sender_id ON transactions(sender_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_receiver_id ON transactions(receiver_id);
+CREATE INDEX IF NOT EXISTS idx_transactions_currency_status ON transactions(currency, status);
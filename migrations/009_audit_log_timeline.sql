@@ -0,0 +1,17 @@
+-- Migration: 009_audit_log_timeline
+-- Description: Link audit entries to deliveries and transactions for the audit timeline API
+-- Date: 2026-10-19
+
+-- Rejected deliveries may not carry a usable event_id / event_type
+ALTER TABLE audit_logs ALTER COLUMN event_id DROP NOT NULL;
+ALTER TABLE audit_logs ALTER COLUMN event_type DROP NOT NULL;
+
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS error_field VARCHAR(255);
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS delivery_id UUID;
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS transaction_ref_id UUID
+    REFERENCES transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_delivery_id ON audit_logs(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_transaction_ref_id ON audit_logs(transaction_ref_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_status ON audit_logs(status);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at);
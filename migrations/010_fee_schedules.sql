@@ -0,0 +1,25 @@
+-- Migration: 010_fee_schedules
+-- Description: Versioned fee schedules and the applied schedule/rule on each transaction
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS fee_schedules (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    schedule_id VARCHAR(255) NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    effective_from TIMESTAMP NOT NULL,
+    -- Ordered array of fee rules, evaluated first match wins
+    rules JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT uq_fee_schedules_schedule_version UNIQUE (schedule_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_effective_from ON fee_schedules(effective_from);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_schedule_id VARCHAR(255);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_schedule_version INTEGER;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS fee_rule_id VARCHAR(255);
+
+-- Existing fees were calculated with the fixed 2% rate
+UPDATE transactions
+SET fee_schedule_id = 'default', fee_schedule_version = 1, fee_rule_id = 'default_2_percent'
+WHERE processing_fee IS NOT NULL AND fee_schedule_id IS NULL;
@@ -0,0 +1,36 @@
+-- Migration: 011_currency_conversion
+-- Description: Exchange rate history and settlement currency conversion on transactions
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    base_currency VARCHAR(3) NOT NULL,
+    quote_currency VARCHAR(3) NOT NULL,
+    -- 1 base_currency = rate quote_currency
+    rate DECIMAL(20, 10) NOT NULL CHECK (rate > 0),
+    effective_from TIMESTAMP NOT NULL,
+    source VARCHAR(255) NOT NULL DEFAULT 'manual',
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT uq_exchange_rates_pair_effective UNIQUE (base_currency, quote_currency, effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_effective
+    ON exchange_rates(base_currency, quote_currency, effective_from);
+
+DO $$ BEGIN
+    CREATE TYPE conversion_status AS ENUM ('converted', 'pending', 'unavailable');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Rates such as IDR -> USD need more than 6 decimal places
+ALTER TABLE transactions ALTER COLUMN exchange_rate TYPE DECIMAL(20, 10);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS settlement_currency VARCHAR(3);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS settlement_net_amount DECIMAL(10, 2);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS exchange_rate_source VARCHAR(255);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS exchange_rate_at TIMESTAMP;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS conversion_status conversion_status;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_conversion_status
+    ON transactions(conversion_status) WHERE conversion_status = 'pending';
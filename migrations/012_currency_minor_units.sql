@@ -0,0 +1,10 @@
+-- Migration: 012_currency_minor_units
+-- Description: Wider amount columns for large values and 3-4 decimal currencies (ISO 4217)
+-- Date: 2026-10-19
+
+-- Scale 4 covers every ISO 4217 exponent (JPY 0, USD 2, KWD 3, CLF 4);
+-- precision 20 lifts the cap from about 100 million to 10^16
+ALTER TABLE transactions ALTER COLUMN amount TYPE DECIMAL(20, 4);
+ALTER TABLE transactions ALTER COLUMN processing_fee TYPE DECIMAL(20, 4);
+ALTER TABLE transactions ALTER COLUMN net_amount TYPE DECIMAL(20, 4);
+ALTER TABLE transactions ALTER COLUMN settlement_net_amount TYPE DECIMAL(20, 4);
@@ -0,0 +1,8 @@
+-- Migration: 013_event_types
+-- Description: Statuses for cancellation, refund and chargeback events
+-- Date: 2026-10-19
+
+-- Shared by transactions.status and transaction_status_history
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'cancelled';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'refunded';
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'disputed';
@@ -0,0 +1,38 @@
+-- Migration: 014_refunds
+-- Description: Refunds and chargebacks linked to transactions, with refund totals
+-- Date: 2026-10-19
+
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'partially_refunded';
+
+DO $$ BEGIN
+    CREATE TYPE refund_type AS ENUM ('refund', 'chargeback');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE dispute_outcome AS ENUM ('won', 'lost');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS refunds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    transaction_ref_id UUID NOT NULL REFERENCES transactions(id) ON DELETE CASCADE,
+    event_id VARCHAR(255) UNIQUE NOT NULL,
+    type refund_type NOT NULL,
+    amount DECIMAL(20, 4) NOT NULL CHECK (amount > 0),
+    currency VARCHAR(3) NOT NULL,
+    fee_reversal DECIMAL(20, 4) NOT NULL DEFAULT 0,
+    reason TEXT,
+    -- Chargebacks only; NULL while the dispute is open
+    dispute_outcome dispute_outcome,
+    provider VARCHAR(255) NOT NULL DEFAULT 'default',
+    event_timestamp TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_transaction_ref_id ON refunds(transaction_ref_id);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(20, 4) NOT NULL DEFAULT 0;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS refunded_fee DECIMAL(20, 4) NOT NULL DEFAULT 0;
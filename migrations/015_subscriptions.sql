@@ -0,0 +1,59 @@
+-- Migration: 015_subscriptions
+-- Description: Outbound subscriptions and their signed delivery log
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    url VARCHAR(2048) NOT NULL,
+    secret VARCHAR(255) NOT NULL,
+    -- Filters; NULL matches everything
+    event_types JSONB,
+    statuses JSONB,
+    currencies JSONB,
+    min_amount DECIMAL(20, 4),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+DO $$ BEGIN
+    CREATE TYPE delivery_status AS ENUM ('pending', 'delivering', 'delivered', 'failed', 'exhausted');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS subscription_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    subscription_id UUID NOT NULL REFERENCES subscriptions(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(255) NOT NULL,
+    transaction_ref_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+    payload JSONB NOT NULL,
+    status delivery_status NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    attempt_log JSONB NOT NULL DEFAULT '[]',
+    last_status_code INTEGER,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    delivered_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_deliveries_status_next_attempt ON subscription_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_subscription_deliveries_subscription_id ON subscription_deliveries(subscription_id);
+CREATE INDEX IF NOT EXISTS idx_subscription_deliveries_event_id ON subscription_deliveries(event_id);
+
+DROP TRIGGER IF EXISTS update_subscriptions_updated_at ON subscriptions;
+CREATE TRIGGER update_subscriptions_updated_at
+    BEFORE UPDATE ON subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_subscription_deliveries_updated_at ON subscription_deliveries;
+CREATE TRIGGER update_subscription_deliveries_updated_at
+    BEFORE UPDATE ON subscription_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
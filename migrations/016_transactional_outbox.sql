@@ -0,0 +1,24 @@
+-- Migration: 016_transactional_outbox
+-- Description: Outbox of transaction events, written in the same transaction as the change
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS outbox_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Commit order; the relay publishes in this order
+    sequence BIGSERIAL NOT NULL UNIQUE,
+    aggregate_type VARCHAR(100) NOT NULL,
+    aggregate_id UUID NOT NULL,
+    event_type VARCHAR(255) NOT NULL,
+    payload JSONB NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    published_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_outbox_events_published_at_sequence ON outbox_events(published_at, sequence);
+CREATE INDEX IF NOT EXISTS idx_outbox_events_aggregate_id ON outbox_events(aggregate_id);
+
+-- Republishing an outbox event must not queue a second delivery
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscription_deliveries_subscription_event ON subscription_deliveries(subscription_id, event_id);
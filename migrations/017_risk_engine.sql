@@ -0,0 +1,22 @@
+-- Migration: 017_risk_engine
+-- Description: Risk score and decision on transactions, under_review status
+-- Date: 2026-10-19
+
+ALTER TYPE transaction_status ADD VALUE IF NOT EXISTS 'under_review';
+
+DO $$ BEGIN
+    CREATE TYPE risk_decision AS ENUM ('accept', 'review', 'reject');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- NULL for transactions stored while the risk engine was disabled
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS risk_score INTEGER;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS risk_decision risk_decision;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS risk_rules JSONB;
+-- Status reported by the provider while under review
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS held_status transaction_status;
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS review_outcome VARCHAR(20);
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_risk_decision ON transactions(risk_decision);
@@ -0,0 +1,60 @@
+-- Migration: 018_screening
+-- Description: Watchlist screening of senders and receivers
+-- Date: 2026-10-19
+
+DO $$ BEGIN
+    CREATE TYPE screening_decision AS ENUM ('clear', 'hold', 'block');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE screening_match_type AS ENUM ('name', 'party_id', 'country');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE screening_result_status AS ENUM ('open', 'cleared', 'confirmed');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- NULL for transactions stored while screening was disabled
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS screening_decision screening_decision;
+
+CREATE TABLE IF NOT EXISTS screening_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- NULL when the payment was blocked and not stored
+    transaction_ref_id UUID REFERENCES transactions(id) ON DELETE CASCADE,
+    transaction_id VARCHAR(255) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    party VARCHAR(20) NOT NULL,
+    party_id VARCHAR(255) NOT NULL,
+    party_name VARCHAR(255) NOT NULL,
+    party_country VARCHAR(2) NOT NULL,
+    list_name VARCHAR(255) NOT NULL,
+    entry_id VARCHAR(255) NOT NULL,
+    entry_name VARCHAR(255) NOT NULL,
+    match_type screening_match_type NOT NULL,
+    matched_value VARCHAR(255) NOT NULL,
+    score DECIMAL(5, 4) NOT NULL,
+    action screening_decision NOT NULL,
+    status screening_result_status NOT NULL DEFAULT 'open',
+    review_note TEXT,
+    reviewed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_screening_results_transaction_ref_id ON screening_results(transaction_ref_id);
+CREATE INDEX IF NOT EXISTS idx_screening_results_transaction_id ON screening_results(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_screening_results_status ON screening_results(status);
+-- Looked up to skip hits that were cleared before
+CREATE INDEX IF NOT EXISTS idx_screening_results_party_entry ON screening_results(party_id, list_name, entry_id);
+
+DROP TRIGGER IF EXISTS update_screening_results_updated_at ON screening_results;
+CREATE TRIGGER update_screening_results_updated_at
+    BEFORE UPDATE ON screening_results
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,29 @@
+-- Migration: 019_pii_protection
+-- Description: Field encryption, hashed party lookups and audit log retention
+-- Date: 2026-10-19
+
+-- Encrypted values ("enc:<version>:<iv>:<tag>:<ciphertext>") exceed 255 characters
+ALTER TABLE transactions
+    ALTER COLUMN sender_name TYPE TEXT,
+    ALTER COLUMN receiver_name TYPE TEXT;
+
+ALTER TABLE screening_results
+    ALTER COLUMN party_name TYPE TEXT;
+
+-- Keyed hashes (HMAC-SHA256, hex) for looking parties up by name or email
+ALTER TABLE transactions
+    ADD COLUMN IF NOT EXISTS sender_name_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS receiver_name_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS sender_email_hash VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS receiver_email_hash VARCHAR(64);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_sender_name_hash ON transactions(sender_name_hash);
+CREATE INDEX IF NOT EXISTS idx_transactions_receiver_name_hash ON transactions(receiver_name_hash);
+CREATE INDEX IF NOT EXISTS idx_transactions_sender_email_hash ON transactions(sender_email_hash);
+CREATE INDEX IF NOT EXISTS idx_transactions_receiver_email_hash ON transactions(receiver_email_hash);
+
+-- Set when the retention job removed personal data from the payload
+ALTER TABLE audit_logs
+    ADD COLUMN IF NOT EXISTS anonymized_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_retention ON audit_logs(created_at) WHERE anonymized_at IS NULL;
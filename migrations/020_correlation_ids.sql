@@ -0,0 +1,9 @@
+-- Migration: 020_correlation_ids
+-- Description: Correlation ids on audit rows and inbox entries
+-- Date: 2026-10-19
+
+ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS correlation_id VARCHAR(128);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_correlation_id ON audit_logs(correlation_id);
+
+-- Carried from the request that queued the row to the worker that processes it
+ALTER TABLE webhook_inbox ADD COLUMN IF NOT EXISTS correlation_id VARCHAR(128);
@@ -0,0 +1,13 @@
+-- Migration: 021_rate_limits
+-- Description: Token buckets for webhook rate limiting (RATE_LIMIT_STORE=postgres)
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+    key VARCHAR(255) PRIMARY KEY,
+    tokens DOUBLE PRECISION NOT NULL,
+    allowed BOOLEAN NOT NULL DEFAULT TRUE,
+    updated_at TIMESTAMP NOT NULL
+);
+
+-- Idle buckets are swept by age
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_updated_at ON rate_limit_buckets(updated_at);
@@ -0,0 +1,67 @@
+-- Migration: 022_reconciliation
+-- Description: Reconciliation runs against provider settlement reports and their discrepancies
+-- Date: 2026-10-19
+
+DO $$ BEGIN
+    CREATE TYPE reconciliation_discrepancy_type AS ENUM (
+        'missing_on_our_side',
+        'missing_on_their_side',
+        'amount_mismatch',
+        'currency_mismatch',
+        'status_mismatch',
+        'fee_mismatch',
+        'duplicate'
+    );
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE reconciliation_discrepancy_status AS ENUM ('open', 'resolved');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS reconciliation_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(255) NOT NULL,
+    source VARCHAR(255),
+    format VARCHAR(10) NOT NULL,
+    period_start TIMESTAMP,
+    period_end TIMESTAMP,
+    report_rows INTEGER NOT NULL,
+    matched INTEGER NOT NULL,
+    discrepancy_count INTEGER NOT NULL,
+    summary JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_provider ON reconciliation_runs(provider);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_created_at ON reconciliation_runs(created_at);
+
+CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    run_id UUID NOT NULL REFERENCES reconciliation_runs(id) ON DELETE CASCADE,
+    type reconciliation_discrepancy_type NOT NULL,
+    transaction_id VARCHAR(255) NOT NULL,
+    transaction_ref_id UUID,
+    report_row INTEGER,
+    expected VARCHAR(255),
+    actual VARCHAR(255),
+    status reconciliation_discrepancy_status NOT NULL DEFAULT 'open',
+    resolution_note TEXT,
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_run_id ON reconciliation_discrepancies(run_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_type ON reconciliation_discrepancies(type);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_transaction_id ON reconciliation_discrepancies(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_status ON reconciliation_discrepancies(status);
+
+DROP TRIGGER IF EXISTS update_reconciliation_discrepancies_updated_at ON reconciliation_discrepancies;
+CREATE TRIGGER update_reconciliation_discrepancies_updated_at
+    BEFORE UPDATE ON reconciliation_discrepancies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
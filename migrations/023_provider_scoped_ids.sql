@@ -0,0 +1,48 @@
+-- Migration: 023_provider_scoped_ids
+-- Description: Scope transaction_id and event_id uniqueness to the provider, so providers cannot collide on each other's ids
+-- Date: 2026-10-19
+
+-- Status history rows belong to the provider of their transaction
+ALTER TABLE transaction_status_history ADD COLUMN IF NOT EXISTS provider VARCHAR(255) NOT NULL DEFAULT 'default';
+
+UPDATE transaction_status_history h
+SET provider = t.provider
+FROM transactions t
+WHERE t.id = h.transaction_ref_id
+  AND h.provider <> t.provider;
+
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_event_id_key;
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transaction_id_key;
+ALTER TABLE transaction_status_history DROP CONSTRAINT IF EXISTS transaction_status_history_event_id_key;
+ALTER TABLE refunds DROP CONSTRAINT IF EXISTS refunds_event_id_key;
+
+DO $$ BEGIN
+    ALTER TABLE transactions
+        ADD CONSTRAINT uq_transactions_provider_event UNIQUE (provider, event_id);
+EXCEPTION
+    WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE transactions
+        ADD CONSTRAINT uq_transactions_provider_transaction UNIQUE (provider, transaction_id);
+EXCEPTION
+    WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE transaction_status_history
+        ADD CONSTRAINT uq_status_history_provider_event UNIQUE (provider, event_id);
+EXCEPTION
+    WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    ALTER TABLE refunds
+        ADD CONSTRAINT uq_refunds_provider_event UNIQUE (provider, event_id);
+EXCEPTION
+    WHEN duplicate_table OR duplicate_object THEN null;
+END $$;
+
+-- Lookups by id alone (admin APIs, audit timelines) keep their indexes
+CREATE INDEX IF NOT EXISTS idx_status_history_event_id ON transaction_status_history(event_id);
@@ -0,0 +1,15 @@
+-- Migration: 024_screening_clearance_scope
+-- Description: Store the provider of screening results, so clearances only apply to the same provider's parties
+-- Date: 2026-10-19
+
+ALTER TABLE screening_results ADD COLUMN IF NOT EXISTS provider VARCHAR(255) NOT NULL DEFAULT 'default';
+
+-- Results of blocked payments have no transaction and keep the default
+UPDATE screening_results r
+SET provider = t.provider
+FROM transactions t
+WHERE t.id = r.transaction_ref_id
+  AND r.provider <> t.provider;
+
+DROP INDEX IF EXISTS idx_screening_results_party_entry;
+CREATE INDEX IF NOT EXISTS idx_screening_results_party_entry ON screening_results(provider, party_id, list_name, entry_id);
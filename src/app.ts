@@ -1,8 +1,31 @@
 import "reflect-metadata";
+import { Server } from "http";
 import express, { Request, Response, NextFunction } from "express";
 import * as dotenv from "dotenv";
 import { initializeDatabase } from "./config/database";
 import webhookRoutes from "./routes/webhook.routes";
+import adminRoutes from "./routes/admin.routes";
+import transactionRoutes from "./routes/transaction.routes";
+import auditRoutes from "./routes/audit.routes";
+import subscriptionRoutes from "./routes/subscription.routes";
+import screeningRoutes from "./routes/screening.routes";
+import reconciliationRoutes from "./routes/reconciliation.routes";
+import healthRoutes from "./routes/health.routes";
+import { inboxConfig } from "./config/inbox";
+import { inboxWorker } from "./workers/inboxWorker";
+import { subscriptionDispatcher } from "./workers/subscriptionDispatcher";
+import { outboxRelay } from "./workers/outboxRelay";
+import { retentionWorker } from "./workers/retentionWorker";
+import { assignCorrelationId } from "./middleware/correlationId";
+import { requestLogger } from "./middleware/requestLogger";
+import { trackRequests } from "./middleware/requestTracking";
+import { lifecycleService } from "./services/lifecycleService";
+import { loggingConfig } from "./config/logging";
+import { webhookLimitsConfig } from "./config/webhookLimits";
+import { reconciliationConfig } from "./config/reconciliation";
+import { logger } from "./utils/logger";
+import { metricsRegistry } from "./utils/metrics";
+import "./types/express";
 
 // Load environment variables
 dotenv.config();
@@ -10,12 +33,49 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Source IP for rate limits and allowlists when behind a proxy
+app.set("trust proxy", webhookLimitsConfig.trustProxy);
+
+// Correlation id first, so every log line of the request carries it
+app.use(assignCorrelationId);
+app.use(requestLogger);
+
+// Probes and metrics answer in every lifecycle state
+app.use("/health", healthRoutes);
+
+// Prometheus scrape endpoint
+if (loggingConfig.metricsEnabled) {
+  app.get("/metrics", (req: Request, res: Response) => {
+    res.type("text/plain; version=0.0.4").send(metricsRegistry.render());
+  });
+}
+
+// Everything else is refused (503) until ready and while shutting down
+app.use(trackRequests);
+
 app.use(
   "/webhooks",
-  express.raw({ type: "application/json" }),
+  express.raw({
+    type: "application/json",
+    limit: webhookLimitsConfig.maxBodySize,
+  }),
+  (err: any, req: Request, res: Response, next: NextFunction) => {
+    // Oversized bodies are rejected (and audited) by the webhook routes,
+    // once the provider is known
+    if (err?.type === "entity.too.large") {
+      req.bodyTooLarge = true;
+      return next();
+    }
+    next(err);
+  },
   (req: Request, res: Response, next: NextFunction) => {
+    // GET endpoints (health, schema, event types) carry no payload
+    if (req.method === "GET" || req.method === "HEAD" || req.bodyTooLarge) {
+      return next();
+    }
+
     // Store raw body for signature verification
-    (req as any).rawBody = req.body;
+    req.rawBody = req.body;
 
     // Parse JSON for easier access
     try {
@@ -28,18 +88,28 @@ app.use(
   }
 );
 
+// Settlement reports (CSV or JSON) are larger than other API bodies
+app.use(
+  "/admin/reconciliation",
+  express.json({ limit: reconciliationConfig.maxReportSize }),
+  express.text({
+    type: ["text/csv", "text/plain"],
+    limit: reconciliationConfig.maxReportSize,
+  })
+);
+
 // Regular JSON parser for other routes
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Request logging middleware
-app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-  next();
-});
-
 // Routes
 app.use("/webhooks", webhookRoutes);
+app.use("/admin/subscriptions", subscriptionRoutes);
+app.use("/admin/screening", screeningRoutes);
+app.use("/admin/reconciliation", reconciliationRoutes);
+app.use("/admin", adminRoutes);
+app.use("/transactions", transactionRoutes);
+app.use("/audit-logs", auditRoutes);
 
 // Root endpoint
 app.get("/", (req: Request, res: Response) => {
@@ -48,14 +118,30 @@ app.get("/", (req: Request, res: Response) => {
     version: "1.0.0",
     endpoints: {
       health: "/webhooks/health",
+      liveness: "/health/live",
+      readiness: "/health/ready",
       webhook: "/webhooks/payment",
+      providerWebhook: "/webhooks/:provider",
+      payloadSchema: "/webhooks/schema",
+      eventTypes: "/webhooks/event-types",
+      failedWebhooks: "/admin/failed-webhooks",
+      subscriptions: "/admin/subscriptions",
+      outbox: "/admin/outbox",
+      dataProtection: "/admin/data-protection",
+      screening: "/admin/screening/results",
+      reconciliation: "/admin/reconciliation/runs",
+      transactions: "/transactions",
+      transactionSummary: "/transactions/summary",
+      auditLogs: "/audit-logs",
+      auditTimeline: "/audit-logs/timeline",
+      metrics: "/metrics",
     },
   });
 });
 
 // Global error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error("Unhandled error:", err);
+  logger.error("Unhandled error", { error: err });
   res.status(500).json({
     error: "Internal Server Error",
     message:
@@ -73,33 +159,74 @@ app.use((req: Request, res: Response) => {
   });
 });
 
+let server: Server | null = null;
+
 // Start server
 const startServer = async () => {
+  // Listen first so the probes answer while the database connection is
+  // retried (other requests get 503 until the service is ready)
+  server = app.listen(PORT, () => {
+    logger.info("Server listening", {
+      url: `http://localhost:${PORT}`,
+      environment: process.env.NODE_ENV || "development",
+      processing_mode: inboxConfig.mode,
+    });
+  });
+
   try {
-    // Initialize database
+    // Initialize database (retried with backoff)
     await initializeDatabase();
-
-    // Start listening
-    app.listen(PORT, () => {
-      console.log(`🚀 Server running on http://localhost:${PORT}`);
-      console.log(`📊 Environment: ${process.env.NODE_ENV || "development"}`);
-    });
   } catch (error) {
-    console.error("Failed to start server:", error);
+    logger.error("Failed to start server", { error });
+    await lifecycleService.shutdown(server, "startup_failure");
     process.exit(1);
   }
+
+  // A signal arrived while connecting
+  if (lifecycleService.getState() === "shutting_down") {
+    return;
+  }
+
+  // Drain the inbox in the background when processing asynchronously
+  if (inboxConfig.mode === "async") {
+    inboxWorker.start();
+  }
+
+  // Publish committed outbox events, then send queued notifications
+  outboxRelay.start();
+  subscriptionDispatcher.start();
+
+  // Anonymize or purge audit logs past the retention period
+  retentionWorker.start();
+
+  // Workers finish their current batch before the database is closed
+  lifecycleService.onShutdown("inbox worker", () => inboxWorker.stop());
+  lifecycleService.onShutdown("outbox relay", () => outboxRelay.stop());
+  lifecycleService.onShutdown("subscription dispatcher", () =>
+    subscriptionDispatcher.stop()
+  );
+  lifecycleService.onShutdown("retention worker", () =>
+    retentionWorker.stop()
+  );
+
+  lifecycleService.markReady();
+  logger.info("Server ready");
 };
 
-// Handle graceful shutdown
-process.on("SIGTERM", () => {
-  console.log("SIGTERM received, shutting down gracefully...");
-  process.exit(0);
-});
+// Handle graceful shutdown: refuse new requests, drain in-flight ones and
+// the workers, close the database. A second signal exits immediately.
+const shutdown = async (signal: string) => {
+  if (lifecycleService.getState() === "shutting_down") {
+    logger.warn("Shutdown already in progress, exiting now", { signal });
+    process.exit(1);
+  }
 
-process.on("SIGINT", () => {
-  console.log("SIGINT received, shutting down gracefully...");
-  process.exit(0);
-});
+  const clean = await lifecycleService.shutdown(server, signal);
+  process.exit(clean ? 0 : 1);
+};
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
 
 startServer();
 
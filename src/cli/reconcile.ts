@@ -0,0 +1,183 @@
+import "reflect-metadata";
+import * as fs from "fs";
+import * as path from "path";
+import { parseArgs } from "util";
+import { AppDataSource, initializeDatabase } from "../config/database";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+import {
+  providerRegistry,
+  UnknownProviderError,
+} from "../providers/providerRegistry";
+import {
+  reconciliationService,
+  DiscrepancyAlreadyResolvedError,
+} from "../services/reconciliationService";
+import { DiscrepancyStatus } from "../entities/ReconciliationDiscrepancy.entity";
+import {
+  detectReportFormat,
+  parseSettlementPeriod,
+  parseSettlementReport,
+  SETTLEMENT_REPORT_FORMATS,
+  SettlementReportError,
+  SettlementReportFormat,
+} from "../utils/settlementReport";
+import { logger } from "../utils/logger";
+
+const USAGE = `Usage:
+  reconcile run <report.csv|report.json> [--provider <name>] [--format csv|json]
+                [--period-start <date> --period-end <date>] [--source <label>]
+  reconcile resolve <discrepancy-id> [--note <text>]
+
+Exit codes: 0 no discrepancies, 2 discrepancies found, 1 error`;
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Exit code of a run that found discrepancies
+const EXIT_DISCREPANCIES = 2;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const print = (value: unknown) => {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+};
+
+/**
+ * Import a settlement report file, print the run and its discrepancies
+ */
+const runReconciliation = async (
+  file: string | undefined,
+  options: Record<string, string | undefined>
+): Promise<number> => {
+  if (!file) {
+    throw new UsageError("run requires a report file");
+  }
+
+  const format = (options.format ??
+    detectReportFormat(file)) as SettlementReportFormat | null;
+  if (!format || !SETTLEMENT_REPORT_FORMATS.includes(format)) {
+    throw new UsageError(
+      `--format must be one of: ${SETTLEMENT_REPORT_FORMATS.join(", ")}`
+    );
+  }
+
+  const provider = providerRegistry.get(
+    options.provider ?? DEFAULT_PROVIDER
+  ).name;
+  const records = parseSettlementReport(fs.readFileSync(file, "utf8"), format);
+  const period = parseSettlementPeriod(
+    options["period-start"],
+    options["period-end"]
+  );
+
+  await initializeDatabase();
+
+  const run = await reconciliationService.reconcile({
+    provider,
+    format,
+    records,
+    source: options.source ?? path.basename(file),
+    ...period,
+  });
+  const { items, total } = await reconciliationService.listDiscrepancies({
+    run_id: run.id,
+    status: DiscrepancyStatus.OPEN,
+    limit: 100,
+  });
+
+  print({ run, discrepancies: items, total_discrepancies: total });
+  return run.discrepancy_count > 0 ? EXIT_DISCREPANCIES : 0;
+};
+
+/**
+ * Mark a discrepancy as resolved
+ */
+const resolveDiscrepancy = async (
+  id: string | undefined,
+  options: Record<string, string | undefined>
+): Promise<number> => {
+  if (!id || !UUID_REGEX.test(id)) {
+    throw new UsageError("resolve requires a discrepancy id (UUID)");
+  }
+
+  await initializeDatabase();
+
+  const discrepancy = await reconciliationService.resolveDiscrepancy(
+    id,
+    options.note
+  );
+  if (!discrepancy) {
+    process.stderr.write(`Discrepancy ${id} not found\n`);
+    return 1;
+  }
+
+  print(discrepancy);
+  return 0;
+};
+
+const main = async (): Promise<number> => {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      provider: { type: "string" },
+      format: { type: "string" },
+      "period-start": { type: "string" },
+      "period-end": { type: "string" },
+      source: { type: "string" },
+      note: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, argument] = positionals;
+  const { help, ...options } = values;
+
+  if (help || !command) {
+    process.stdout.write(`${USAGE}\n`);
+    return help ? 0 : 1;
+  }
+
+  switch (command) {
+    case "run":
+      return runReconciliation(argument, options);
+    case "resolve":
+      return resolveDiscrepancy(argument, options);
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+};
+
+// Keep stdout for the result unless a log level was asked for
+if (!process.env.LOG_LEVEL) {
+  logger.level = "warn";
+}
+
+main()
+  .catch((error) => {
+    if (
+      error instanceof UsageError ||
+      String(error?.code).startsWith("ERR_PARSE_ARGS")
+    ) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+    } else if (
+      error instanceof SettlementReportError ||
+      error instanceof UnknownProviderError ||
+      error instanceof DiscrepancyAlreadyResolvedError
+    ) {
+      process.stderr.write(`${error.message}\n`);
+    } else {
+      logger.error("Reconciliation command failed", { error });
+      process.stderr.write(`${error?.message ?? error}\n`);
+    }
+    return 1;
+  })
+  .then(async (code) => {
+    if (AppDataSource.isInitialized) {
+      await AppDataSource.destroy();
+    }
+    process.exit(code);
+  });
@@ -0,0 +1,198 @@
+// src/config/dataProtection.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+export interface EncryptionKey {
+  version: string;
+  // 32 bytes (AES-256)
+  key: Buffer;
+}
+
+// What happens to a payload field when it is redacted:
+// - keep: stored as is
+// - mask: first letters kept ("Alice Johnson" -> "A**** J******")
+// - hash: replaced by its keyed hash (still comparable, not readable)
+// - redact: replaced by "[REDACTED]"
+// - remove: field dropped
+export type RedactionAction = "keep" | "mask" | "hash" | "redact" | "remove";
+
+/**
+ * Field paths (dot-separated, "*" matches one level) and their action
+ */
+export type RedactionPolicy = Record<string, RedactionAction>;
+
+const REDACTION_ACTIONS: RedactionAction[] = [
+  "keep",
+  "mask",
+  "hash",
+  "redact",
+  "remove",
+];
+
+// Used when PII_REDACTION_POLICY is not set
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+  "data.sender.name": "mask",
+  "data.receiver.name": "mask",
+  "data.sender.email": "hash",
+  "data.receiver.email": "hash",
+  "data.metadata": "redact",
+};
+
+// Columns encrypted at rest when PII_ENCRYPTED_FIELDS is not set
+export const DEFAULT_ENCRYPTED_FIELDS = [
+  "transactions.sender_name",
+  "transactions.receiver_name",
+  "transactions.metadata",
+  "screening_results.party_name",
+  "failed_webhooks.payload",
+  "webhook_inbox.raw_body",
+];
+
+/**
+ * Load the encryption keyring from the environment.
+ *
+ * PII_ENCRYPTION_KEYS is a JSON array of { "version", "key" } entries with
+ * base64-encoded 32-byte keys. PII_ENCRYPTION_KEY, when set, is added as
+ * version "v1". Old versions stay in the keyring to decrypt existing data.
+ */
+export const loadEncryptionKeys = (): EncryptionKey[] => {
+  const keys: EncryptionKey[] = [];
+
+  const parseKey = (version: string, value: any): EncryptionKey => {
+    const key = Buffer.from(String(value ?? ""), "base64");
+    if (key.length !== 32) {
+      throw new Error(
+        `Encryption key ${version} must be 32 bytes, base64-encoded`
+      );
+    }
+    return { version, key };
+  };
+
+  if (process.env.PII_ENCRYPTION_KEYS) {
+    let entries: any[];
+    try {
+      entries = JSON.parse(process.env.PII_ENCRYPTION_KEYS);
+    } catch (error) {
+      throw new Error("PII_ENCRYPTION_KEYS must be a valid JSON array");
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error("PII_ENCRYPTION_KEYS must be a valid JSON array");
+    }
+
+    for (const entry of entries) {
+      if (!entry?.version || !entry?.key) {
+        throw new Error("Each encryption key requires a version and a key");
+      }
+      // Versions are part of the stored value ("enc:<version>:...")
+      if (!/^[A-Za-z0-9_-]+$/.test(String(entry.version))) {
+        throw new Error(
+          `Encryption key version ${entry.version} may only contain letters, digits, _ and -`
+        );
+      }
+      keys.push(parseKey(String(entry.version), entry.key));
+    }
+  }
+
+  if (
+    process.env.PII_ENCRYPTION_KEY &&
+    !keys.some((k) => k.version === "v1")
+  ) {
+    keys.push(parseKey("v1", process.env.PII_ENCRYPTION_KEY));
+  }
+
+  const versions = keys.map((k) => k.version);
+  const duplicate = versions.find(
+    (version, index) => versions.indexOf(version) !== index
+  );
+  if (duplicate) {
+    throw new Error(`Duplicate encryption key version: ${duplicate}`);
+  }
+
+  return keys;
+};
+
+/**
+ * Load the redaction policy (PII_REDACTION_POLICY, a JSON object of
+ * path -> action)
+ */
+export const loadRedactionPolicy = (): RedactionPolicy => {
+  if (!process.env.PII_REDACTION_POLICY) {
+    return DEFAULT_REDACTION_POLICY;
+  }
+
+  let policy: any;
+  try {
+    policy = JSON.parse(process.env.PII_REDACTION_POLICY);
+  } catch (error) {
+    throw new Error("PII_REDACTION_POLICY must be a valid JSON object");
+  }
+
+  if (!policy || typeof policy !== "object" || Array.isArray(policy)) {
+    throw new Error("PII_REDACTION_POLICY must be a valid JSON object");
+  }
+
+  for (const [path, action] of Object.entries(policy)) {
+    if (!REDACTION_ACTIONS.includes(action as RedactionAction)) {
+      throw new Error(
+        `Redaction action for ${path} must be one of: ${REDACTION_ACTIONS.join(", ")}`
+      );
+    }
+  }
+
+  return policy as RedactionPolicy;
+};
+
+const keys = loadEncryptionKeys();
+const activeKeyVersion =
+  process.env.PII_ACTIVE_KEY_VERSION || keys[keys.length - 1]?.version;
+if (keys.length > 0 && !keys.some((k) => k.version === activeKeyVersion)) {
+  throw new Error(
+    `PII_ACTIVE_KEY_VERSION ${activeKeyVersion} is not in the keyring`
+  );
+}
+
+// Kept separate from the encryption keys: rotating it changes every hash
+const hashKey = process.env.PII_HASH_KEY;
+if (keys.length > 0 && !hashKey) {
+  throw new Error("PII_HASH_KEY is required when encryption keys are set");
+}
+
+/**
+ * Field-level encryption and redaction settings. Without keys, fields
+ * are stored in plain text and hashes are not computed.
+ */
+export const dataProtectionConfig = {
+  keys,
+  activeKeyVersion: activeKeyVersion ?? null,
+  hashKey: hashKey ?? null,
+  // "<table>.<column>" entries
+  encryptedFields: process.env.PII_ENCRYPTED_FIELDS
+    ? process.env.PII_ENCRYPTED_FIELDS.split(",")
+        .map((field) => field.trim())
+        .filter((field) => field !== "")
+    : DEFAULT_ENCRYPTED_FIELDS,
+  redactionPolicy: loadRedactionPolicy(),
+};
+
+const retentionMode = (process.env.AUDIT_RETENTION_MODE || "anonymize") as
+  | "anonymize"
+  | "purge";
+if (!["anonymize", "purge"].includes(retentionMode)) {
+  throw new Error("AUDIT_RETENTION_MODE must be one of: anonymize, purge");
+}
+
+/**
+ * Audit log retention job settings
+ */
+export const retentionConfig = {
+  // Audit rows older than this are anonymized or purged (0 = keep forever)
+  auditRetentionDays: parseInt(process.env.AUDIT_RETENTION_DAYS || "365"),
+  // anonymize: remove every policy field from the payload; purge: delete rows
+  mode: retentionMode,
+  // How often the job runs
+  intervalMs: parseInt(process.env.RETENTION_INTERVAL_MS || "86400000"),
+  // Rows handled per statement
+  batchSize: parseInt(process.env.RETENTION_BATCH_SIZE || "500"),
+};
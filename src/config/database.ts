@@ -1,6 +1,22 @@
 // src/config/database.ts
 import { DataSource } from "typeorm";
+import { logger } from "../utils/logger";
+import { lifecycleConfig } from "./lifecycle";
 import { Transaction, AuditLog } from "../entities/Transaction.entity";
+import { TransactionStatusHistory } from "../entities/TransactionStatusHistory.entity";
+import { WebhookInbox } from "../entities/WebhookInbox.entity";
+import { FailedWebhook } from "../entities/FailedWebhook.entity";
+import { IdempotencyRecord } from "../entities/IdempotencyRecord.entity";
+import { FeeScheduleVersion } from "../entities/FeeScheduleVersion.entity";
+import { ExchangeRate } from "../entities/ExchangeRate.entity";
+import { Refund } from "../entities/Refund.entity";
+import { Subscription } from "../entities/Subscription.entity";
+import { SubscriptionDelivery } from "../entities/SubscriptionDelivery.entity";
+import { OutboxEvent } from "../entities/OutboxEvent.entity";
+import { ScreeningResult } from "../entities/ScreeningResult.entity";
+import { RateLimitBucket } from "../entities/RateLimitBucket.entity";
+import { ReconciliationRun } from "../entities/ReconciliationRun.entity";
+import { ReconciliationDiscrepancy } from "../entities/ReconciliationDiscrepancy.entity";
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -13,19 +29,62 @@ export const AppDataSource = new DataSource({
   },
   synchronize: false, // Use migrations for all environments
   logging: process.env.NODE_ENV === "development",
-  entities: [Transaction, AuditLog],
+  entities: [
+    Transaction,
+    AuditLog,
+    TransactionStatusHistory,
+    WebhookInbox,
+    FailedWebhook,
+    IdempotencyRecord,
+    FeeScheduleVersion,
+    ExchangeRate,
+    Refund,
+    Subscription,
+    SubscriptionDelivery,
+    OutboxEvent,
+    ScreeningResult,
+    RateLimitBucket,
+    ReconciliationRun,
+    ReconciliationDiscrepancy,
+  ],
   subscribers: [],
   migrations: ["src/migrations/*.ts"],
   migrationsRun: false, // Set to true to auto-run on app start
 });
 
+/**
+ * Connect to the database, retrying with exponential backoff
+ * (DB_CONNECT_MAX_ATTEMPTS, DB_CONNECT_RETRY_*_DELAY_MS)
+ * @throws The last connection error once every attempt failed
+ */
 export const initializeDatabase = async () => {
-  try {
-    await AppDataSource.initialize();
-    console.log("✅ Database connected successfully");
-    console.log("📊 Connected to NeonDB");
-  } catch (error) {
-    console.error("❌ Database connection failed:", error);
-    process.exit(1);
+  const {
+    dbConnectMaxAttempts: maxAttempts,
+    dbConnectRetryBaseDelayMs: baseDelayMs,
+    dbConnectRetryMaxDelayMs: maxDelayMs,
+  } = lifecycleConfig;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await AppDataSource.initialize();
+      logger.info("Database connected successfully", { attempt });
+      return;
+    } catch (error) {
+      if (maxAttempts > 0 && attempt >= maxAttempts) {
+        logger.error("Database connection failed, giving up", {
+          attempt,
+          error,
+        });
+        throw error;
+      }
+
+      const delayMs = Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
+      logger.warn("Database connection failed, retrying", {
+        attempt,
+        retry_in_ms: delayMs,
+        error,
+      });
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
   }
 };
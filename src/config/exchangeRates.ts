@@ -0,0 +1,31 @@
+// src/config/exchangeRates.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// What to do when no exchange rate exists for a currency pair
+export type MissingRatePolicy = "reject" | "pending" | "null";
+
+const MISSING_RATE_POLICIES: MissingRatePolicy[] = ["reject", "pending", "null"];
+
+const missingRatePolicy = (process.env.EXCHANGE_RATE_MISSING_POLICY ||
+  "null") as MissingRatePolicy;
+if (!MISSING_RATE_POLICIES.includes(missingRatePolicy)) {
+  throw new Error(
+    `EXCHANGE_RATE_MISSING_POLICY must be one of: ${MISSING_RATE_POLICIES.join(
+      ", "
+    )}`
+  );
+}
+
+/**
+ * Currency conversion settings
+ */
+export const exchangeRateConfig = {
+  // Currency net amounts are converted into
+  settlementCurrency: (process.env.SETTLEMENT_CURRENCY || "USD").toUpperCase(),
+  missingRatePolicy,
+  // Rate provider: table (exchange_rates table) or file (EXCHANGE_RATES_FILE)
+  provider: process.env.EXCHANGE_RATE_PROVIDER || "table",
+  ratesFile: process.env.EXCHANGE_RATES_FILE,
+};
@@ -0,0 +1,187 @@
+// src/config/feeSchedules.ts
+import * as fs from "fs";
+import * as dotenv from "dotenv";
+import { Decimal } from "../utils/decimal";
+
+dotenv.config();
+
+/**
+ * One pricing rule. Every condition is optional; a rule matches when all
+ * of its conditions match. Decimal values are strings to stay exact.
+ */
+export interface FeeRule {
+  id: string;
+  payment_method?: string[];
+  currency?: string[];
+  sender_country?: string[];
+  receiver_country?: string[];
+  // Amount tier: min_amount inclusive, max_amount exclusive
+  min_amount?: string;
+  max_amount?: string;
+  // Percentage component as a fraction (e.g. "0.029" for 2.9%)
+  rate?: string;
+  // Fixed component in the transaction currency
+  fixed_fee?: string;
+  // Caps applied after rounding
+  min_fee?: string;
+  max_fee?: string;
+}
+
+/**
+ * A versioned set of rules. Rules are evaluated in order; the first match
+ * wins. A published version must never be edited - add a new version.
+ */
+export interface FeeSchedule {
+  id: string;
+  version: number;
+  effective_from: Date;
+  rules: FeeRule[];
+}
+
+// Used when no schedule is configured (the former fixed 2% fee)
+export const DEFAULT_FEE_SCHEDULE: FeeSchedule = {
+  id: "default",
+  version: 1,
+  effective_from: new Date(0),
+  rules: [{ id: "default_2_percent", rate: "0.02" }],
+};
+
+const LIST_FIELDS = [
+  "payment_method",
+  "currency",
+  "sender_country",
+  "receiver_country",
+] as const;
+
+const DECIMAL_FIELDS = [
+  "min_amount",
+  "max_amount",
+  "rate",
+  "fixed_fee",
+  "min_fee",
+  "max_fee",
+] as const;
+
+/**
+ * Validate and normalize a fee schedule (from config or the database)
+ */
+export const parseFeeSchedule = (raw: any): FeeSchedule => {
+  if (!raw?.id || typeof raw.id !== "string") {
+    throw new Error("Fee schedule requires an id");
+  }
+
+  const label = `Fee schedule ${raw.id}`;
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) {
+    throw new Error(`${label} requires a positive integer version`);
+  }
+
+  const effectiveFrom = new Date(raw.effective_from ?? 0);
+  if (isNaN(effectiveFrom.getTime())) {
+    throw new Error(`${label} v${version} has an invalid effective_from`);
+  }
+
+  if (!Array.isArray(raw.rules) || raw.rules.length === 0) {
+    throw new Error(`${label} v${version} requires at least one rule`);
+  }
+
+  const rules = raw.rules.map((entry: any) => {
+    if (!entry?.id) {
+      throw new Error(`${label} v${version} has a rule without an id`);
+    }
+
+    const rule: FeeRule = { id: String(entry.id) };
+
+    for (const field of LIST_FIELDS) {
+      if (entry[field] !== undefined) {
+        const values = Array.isArray(entry[field])
+          ? entry[field]
+          : [entry[field]];
+        // Codes are matched case-insensitively, payment methods as given
+        rule[field] = values.map((value: any) =>
+          field === "payment_method"
+            ? String(value)
+            : String(value).toUpperCase()
+        );
+      }
+    }
+
+    for (const field of DECIMAL_FIELDS) {
+      if (entry[field] !== undefined && entry[field] !== null) {
+        if (!Decimal.isValid(entry[field])) {
+          throw new Error(
+            `Fee rule ${rule.id} has an invalid ${field}: ${entry[field]}`
+          );
+        }
+        rule[field] = String(entry[field]);
+      }
+    }
+
+    if (rule.rate === undefined && rule.fixed_fee === undefined) {
+      throw new Error(`Fee rule ${rule.id} requires a rate or a fixed_fee`);
+    }
+
+    return rule;
+  });
+
+  const ids = rules.map((rule: FeeRule) => rule.id);
+  const duplicate = ids.find(
+    (id: string, index: number) => ids.indexOf(id) !== index
+  );
+  if (duplicate) {
+    throw new Error(`${label} v${version} has a duplicate rule id: ${duplicate}`);
+  }
+
+  return { id: raw.id, version, effective_from: effectiveFrom, rules };
+};
+
+/**
+ * Load fee schedules from the environment.
+ *
+ * FEE_SCHEDULES is a JSON array of schedules, or FEE_SCHEDULES_FILE is the
+ * path to a JSON file containing one. Falls back to DEFAULT_FEE_SCHEDULE.
+ */
+export const loadFeeSchedules = (): FeeSchedule[] => {
+  let source: string | undefined = process.env.FEE_SCHEDULES;
+  let sourceName = "FEE_SCHEDULES";
+
+  if (!source && process.env.FEE_SCHEDULES_FILE) {
+    sourceName = process.env.FEE_SCHEDULES_FILE;
+    source = fs.readFileSync(sourceName, "utf8");
+  }
+
+  if (!source) {
+    return [DEFAULT_FEE_SCHEDULE];
+  }
+
+  let entries: any[];
+  try {
+    entries = JSON.parse(source);
+  } catch (error) {
+    throw new Error(`${sourceName} must be a valid JSON array`);
+  }
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`${sourceName} must be a non-empty JSON array`);
+  }
+
+  const schedules = entries.map(parseFeeSchedule);
+
+  const keys = schedules.map((s) => `${s.id}@${s.version}`);
+  const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate fee schedule version: ${duplicate}`);
+  }
+
+  return schedules;
+};
+
+export const feeScheduleConfig = {
+  // How long schedules loaded from the database are cached
+  cacheTtlMs: parseInt(process.env.FEE_SCHEDULE_CACHE_TTL_MS || "60000"),
+  // How far the event timestamp may be from the time the webhook was
+  // received when picking the schedule (the sender sets the timestamp)
+  maxTimestampSkewMs: parseInt(
+    process.env.FEE_SCHEDULE_MAX_TIMESTAMP_SKEW_MS || "300000"
+  ),
+};
@@ -0,0 +1,26 @@
+// src/config/inbox.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+export type ProcessingMode = "sync" | "async";
+
+/**
+ * Inbox (asynchronous processing) settings
+ */
+export const inboxConfig = {
+  // sync: process inside the request; async: store in inbox and return 202
+  mode: (process.env.WEBHOOK_PROCESSING_MODE === "async"
+    ? "async"
+    : "sync") as ProcessingMode,
+  // Attempts before an inbox row is moved to the dead-letter state
+  maxAttempts: parseInt(process.env.INBOX_MAX_ATTEMPTS || "5"),
+  // How often the worker polls for claimable rows
+  pollIntervalMs: parseInt(process.env.INBOX_POLL_INTERVAL_MS || "1000"),
+  // Rows claimed per poll
+  batchSize: parseInt(process.env.INBOX_BATCH_SIZE || "10"),
+  // Base delay for exponential retry backoff
+  retryBaseDelayMs: parseInt(process.env.INBOX_RETRY_BASE_DELAY_MS || "5000"),
+  // Rows stuck in "processing" longer than this are claimed again
+  lockTimeoutMs: parseInt(process.env.INBOX_LOCK_TIMEOUT_MS || "300000"),
+};
@@ -0,0 +1,25 @@
+// src/config/lifecycle.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Startup, readiness and shutdown settings
+ */
+export const lifecycleConfig = {
+  // Database connection attempts at startup (0 = keep trying)
+  dbConnectMaxAttempts: parseInt(process.env.DB_CONNECT_MAX_ATTEMPTS || "10"),
+  // Backoff between attempts: base * 2^(attempt-1), capped at max
+  dbConnectRetryBaseDelayMs: parseInt(
+    process.env.DB_CONNECT_RETRY_BASE_DELAY_MS || "1000"
+  ),
+  dbConnectRetryMaxDelayMs: parseInt(
+    process.env.DB_CONNECT_RETRY_MAX_DELAY_MS || "30000"
+  ),
+  // Time allowed for in-flight requests and worker batches on shutdown
+  shutdownTimeoutMs: parseInt(process.env.SHUTDOWN_TIMEOUT_MS || "30000"),
+  // A readiness check slower than this counts as failed
+  healthCheckTimeoutMs: parseInt(
+    process.env.HEALTH_CHECK_TIMEOUT_MS || "5000"
+  ),
+};
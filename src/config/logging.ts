@@ -0,0 +1,23 @@
+// src/config/logging.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+const LOG_LEVELS = ["error", "warn", "info", "http", "verbose", "debug"];
+
+const level = process.env.LOG_LEVEL || "info";
+if (!LOG_LEVELS.includes(level)) {
+  throw new Error(`LOG_LEVEL must be one of: ${LOG_LEVELS.join(", ")}`);
+}
+
+/**
+ * Logging, correlation id and metrics settings
+ */
+export const loggingConfig = {
+  // Lowest level written (winston npm levels)
+  level,
+  // Request header carrying the caller's correlation id (echoed back)
+  correlationHeader: process.env.CORRELATION_ID_HEADER || "X-Correlation-Id",
+  // Serve GET /metrics
+  metricsEnabled: process.env.METRICS_ENABLED !== "false",
+};
@@ -0,0 +1,21 @@
+// src/config/outbox.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Transactional outbox relay settings
+ */
+export const outboxConfig = {
+  // Where outbox events go: subscriptions (queue subscriber deliveries,
+  // in-process) or file (append JSON lines to OUTBOX_FILE)
+  publisher: process.env.OUTBOX_PUBLISHER || "subscriptions",
+  file: process.env.OUTBOX_FILE || "./outbox-events.jsonl",
+  // How often the relay polls for unpublished events
+  pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || "1000"),
+  // Events published per poll
+  batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || "50"),
+  // Backoff for events the publisher rejected (retried until accepted)
+  retryBaseDelayMs: parseInt(process.env.OUTBOX_RETRY_BASE_DELAY_MS || "1000"),
+  retryMaxDelayMs: parseInt(process.env.OUTBOX_RETRY_MAX_DELAY_MS || "300000"),
+};
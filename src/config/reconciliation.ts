@@ -0,0 +1,25 @@
+// src/config/reconciliation.ts
+import * as dotenv from "dotenv";
+import { Decimal } from "../utils/decimal";
+
+dotenv.config();
+
+const amountTolerance = process.env.RECONCILIATION_AMOUNT_TOLERANCE || "0";
+if (
+  !Decimal.isValid(amountTolerance) ||
+  Decimal.from(amountTolerance).isNegative()
+) {
+  throw new Error(
+    "RECONCILIATION_AMOUNT_TOLERANCE must be a non-negative decimal"
+  );
+}
+
+/**
+ * Settlement report reconciliation settings
+ */
+export const reconciliationConfig = {
+  // Largest amount or fee difference that still counts as a match
+  amountTolerance,
+  // Largest report accepted by POST /admin/reconciliation/runs
+  maxReportSize: process.env.RECONCILIATION_MAX_REPORT_SIZE || "10mb",
+};
@@ -0,0 +1,27 @@
+// src/config/refunds.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+// What happens to processing_fee when a transaction is refunded:
+// - retain: the fee is kept, the full refund comes out of the net amount
+// - reverse: the fee is returned pro rata to the refunded share
+// - recompute: the fee is recalculated on the amount left after refunds
+export type RefundFeePolicy = "retain" | "reverse" | "recompute";
+
+const REFUND_FEE_POLICIES: RefundFeePolicy[] = ["retain", "reverse", "recompute"];
+
+const feePolicy = (process.env.REFUND_FEE_POLICY ||
+  "retain") as RefundFeePolicy;
+if (!REFUND_FEE_POLICIES.includes(feePolicy)) {
+  throw new Error(
+    `REFUND_FEE_POLICY must be one of: ${REFUND_FEE_POLICIES.join(", ")}`
+  );
+}
+
+/**
+ * Refund and chargeback settings
+ */
+export const refundConfig = {
+  feePolicy,
+};
@@ -0,0 +1,254 @@
+// src/config/risk.ts
+import * as fs from "fs";
+import * as dotenv from "dotenv";
+import { Decimal } from "../utils/decimal";
+
+dotenv.config();
+
+export type RiskRuleType = "velocity" | "amount" | "country" | "same_party";
+
+// Decision a matching rule forces, whatever the total score
+export type RiskAction = "review" | "reject";
+
+/**
+ * One risk rule. A matching rule adds its score to the risk score and
+ * may force a decision. Fields other than id/type/score/action depend on
+ * the type:
+ * - velocity: more than max_count transactions (or more than max_amount in
+ *   the payment's currency) by the same party within window_seconds,
+ *   this payment included
+ * - amount: amount >= min_amount, optionally only for some currencies
+ * - country: the sender's and/or receiver's country is in countries
+ * - same_party: sender and receiver are the same customer (id or email)
+ */
+export interface RiskRule {
+  id: string;
+  type: RiskRuleType;
+  score: number;
+  action?: RiskAction;
+  party?: "sender" | "receiver";
+  window_seconds?: number;
+  max_count?: number;
+  max_amount?: string;
+  currency?: string[];
+  min_amount?: string;
+  countries?: string[];
+  country_field?: "sender" | "receiver" | "any";
+}
+
+// Used when no rules are configured
+export const DEFAULT_RISK_RULES: RiskRule[] = [
+  {
+    id: "sender_velocity",
+    type: "velocity",
+    party: "sender",
+    window_seconds: 3600,
+    max_count: 10,
+    score: 50,
+  },
+  {
+    id: "receiver_velocity",
+    type: "velocity",
+    party: "receiver",
+    window_seconds: 3600,
+    max_count: 50,
+    score: 30,
+  },
+  {
+    id: "large_amount",
+    type: "amount",
+    currency: ["USD", "EUR", "GBP", "CHF", "CAD", "AUD"],
+    min_amount: "10000",
+    score: 30,
+  },
+  { id: "same_party", type: "same_party", score: 60, action: "review" },
+];
+
+const RULE_TYPES: RiskRuleType[] = [
+  "velocity",
+  "amount",
+  "country",
+  "same_party",
+];
+
+/**
+ * Validate and normalize a risk rule
+ */
+export const parseRiskRule = (raw: any): RiskRule => {
+  if (!raw?.id || typeof raw.id !== "string") {
+    throw new Error("Risk rule requires an id");
+  }
+
+  const label = `Risk rule ${raw.id}`;
+  if (!RULE_TYPES.includes(raw.type)) {
+    throw new Error(`${label} type must be one of: ${RULE_TYPES.join(", ")}`);
+  }
+
+  const score = Number(raw.score ?? 0);
+  if (!Number.isInteger(score) || score < 0) {
+    throw new Error(`${label} requires a non-negative integer score`);
+  }
+
+  if (raw.action !== undefined && !["review", "reject"].includes(raw.action)) {
+    throw new Error(`${label} action must be one of: review, reject`);
+  }
+
+  const rule: RiskRule = { id: raw.id, type: raw.type, score };
+  if (raw.action) rule.action = raw.action;
+
+  for (const field of ["max_amount", "min_amount"] as const) {
+    if (raw[field] !== undefined && raw[field] !== null) {
+      if (!Decimal.isValid(raw[field])) {
+        throw new Error(`${label} has an invalid ${field}: ${raw[field]}`);
+      }
+      rule[field] = String(raw[field]);
+    }
+  }
+
+  // Codes are matched case-insensitively
+  for (const field of ["currency", "countries"] as const) {
+    if (raw[field] !== undefined) {
+      const values = Array.isArray(raw[field]) ? raw[field] : [raw[field]];
+      rule[field] = values.map((value: any) => String(value).toUpperCase());
+    }
+  }
+
+  switch (rule.type) {
+    case "velocity": {
+      if (!["sender", "receiver"].includes(raw.party)) {
+        throw new Error(`${label} party must be one of: sender, receiver`);
+      }
+      const windowSeconds = Number(raw.window_seconds);
+      if (!Number.isInteger(windowSeconds) || windowSeconds < 1) {
+        throw new Error(`${label} requires a positive integer window_seconds`);
+      }
+      rule.party = raw.party;
+      rule.window_seconds = windowSeconds;
+
+      if (raw.max_count !== undefined) {
+        const maxCount = Number(raw.max_count);
+        if (!Number.isInteger(maxCount) || maxCount < 0) {
+          throw new Error(`${label} requires a non-negative integer max_count`);
+        }
+        rule.max_count = maxCount;
+      }
+      if (rule.max_count === undefined && rule.max_amount === undefined) {
+        throw new Error(`${label} requires a max_count or a max_amount`);
+      }
+      break;
+    }
+    case "amount":
+      if (rule.min_amount === undefined) {
+        throw new Error(`${label} requires a min_amount`);
+      }
+      break;
+    case "country":
+      if (!rule.countries || rule.countries.length === 0) {
+        throw new Error(`${label} requires at least one country`);
+      }
+      if (
+        raw.country_field !== undefined &&
+        !["sender", "receiver", "any"].includes(raw.country_field)
+      ) {
+        throw new Error(
+          `${label} country_field must be one of: sender, receiver, any`
+        );
+      }
+      rule.country_field = raw.country_field ?? "any";
+      break;
+  }
+
+  return rule;
+};
+
+/**
+ * Country list from a comma-separated environment variable
+ */
+const parseCountryList = (value: string | undefined): string[] =>
+  (value ?? "")
+    .split(",")
+    .map((code) => code.trim().toUpperCase())
+    .filter((code) => code !== "");
+
+/**
+ * Load risk rules from the environment.
+ *
+ * RISK_RULES is a JSON array of rules, or RISK_RULES_FILE is the path to a
+ * JSON file containing one. Falls back to DEFAULT_RISK_RULES.
+ * RISK_DENY_COUNTRIES and RISK_REVIEW_COUNTRIES add country rules that
+ * reject or hold payments from or to those countries.
+ */
+export const loadRiskRules = (): RiskRule[] => {
+  let source: string | undefined = process.env.RISK_RULES;
+  let sourceName = "RISK_RULES";
+
+  if (!source && process.env.RISK_RULES_FILE) {
+    sourceName = process.env.RISK_RULES_FILE;
+    source = fs.readFileSync(sourceName, "utf8");
+  }
+
+  let rules = DEFAULT_RISK_RULES;
+  if (source) {
+    let entries: any[];
+    try {
+      entries = JSON.parse(source);
+    } catch (error) {
+      throw new Error(`${sourceName} must be a valid JSON array`);
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`${sourceName} must be a JSON array`);
+    }
+    rules = entries.map(parseRiskRule);
+  }
+
+  const denyCountries = parseCountryList(process.env.RISK_DENY_COUNTRIES);
+  if (denyCountries.length > 0) {
+    rules = [
+      ...rules,
+      {
+        id: "country_deny_list",
+        type: "country",
+        countries: denyCountries,
+        country_field: "any",
+        score: 0,
+        action: "reject",
+      },
+    ];
+  }
+
+  const reviewCountries = parseCountryList(process.env.RISK_REVIEW_COUNTRIES);
+  if (reviewCountries.length > 0) {
+    rules = [
+      ...rules,
+      {
+        id: "country_review_list",
+        type: "country",
+        countries: reviewCountries,
+        country_field: "any",
+        score: 0,
+        action: "review",
+      },
+    ];
+  }
+
+  const ids = rules.map((rule) => rule.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate risk rule id: ${duplicate}`);
+  }
+
+  return rules;
+};
+
+/**
+ * Risk engine settings
+ */
+export const riskConfig = {
+  // Set RISK_ENGINE_ENABLED=false to accept every payment unscored
+  enabled: process.env.RISK_ENGINE_ENABLED !== "false",
+  // Total score from which a payment is held for review / rejected
+  reviewScore: parseInt(process.env.RISK_REVIEW_SCORE || "50"),
+  rejectScore: parseInt(process.env.RISK_REJECT_SCORE || "100"),
+  rules: loadRiskRules(),
+};
@@ -0,0 +1,138 @@
+// src/config/screening.ts
+import * as fs from "fs";
+import * as path from "path";
+import * as dotenv from "dotenv";
+import { parseCsv } from "../utils/csv";
+
+dotenv.config();
+
+/**
+ * One watchlist entry. Parties are screened by name against `name` and
+ * `aliases`, by id against `party_ids`, and (for type "country") by
+ * country against `countries`.
+ */
+export interface WatchlistEntry {
+  list: string;
+  id: string;
+  name: string;
+  aliases: string[];
+  type: string;
+  countries: string[];
+  party_ids: string[];
+}
+
+export interface Watchlist {
+  name: string;
+  source: string;
+  entries: WatchlistEntry[];
+}
+
+/**
+ * Values of a list field: a JSON array, or a string separated by ";"
+ */
+const parseList = (value: any): string[] => {
+  const values = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+    ? value.split(";")
+    : [];
+  return values.map((item) => String(item).trim()).filter((item) => item !== "");
+};
+
+const parseEntry = (raw: any, list: string, index: number): WatchlistEntry => {
+  const id = String(raw?.id ?? "").trim() || String(index + 1);
+  const name = String(raw?.name ?? "").trim();
+  const type = String(raw?.type ?? "").trim().toLowerCase() || "entity";
+  const countries = parseList(raw?.countries).map((code) => code.toUpperCase());
+  const partyIds = parseList(raw?.party_ids);
+
+  if (!name && countries.length === 0 && partyIds.length === 0) {
+    throw new Error(
+      `Watchlist ${list} entry ${id} requires a name, countries or party_ids`
+    );
+  }
+
+  return {
+    list,
+    id,
+    name,
+    aliases: parseList(raw?.aliases),
+    type,
+    countries,
+    party_ids: partyIds,
+  };
+};
+
+/**
+ * Load one watchlist file.
+ * - CSV: header row with id, name, aliases, type, countries, party_ids
+ *   (list columns separated by ";")
+ * - JSON: an array of entries, or { "list": "name", "entries": [...] }
+ * The list is named after the file unless the JSON gives a name.
+ */
+export const loadWatchlist = (file: string): Watchlist => {
+  const text = fs.readFileSync(file, "utf8");
+  let name = path.basename(file, path.extname(file));
+  let rawEntries: any[];
+
+  if (path.extname(file).toLowerCase() === ".csv") {
+    rawEntries = parseCsv(text);
+  } else {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Watchlist ${file} must be valid JSON or CSV`);
+    }
+
+    if (!Array.isArray(parsed) && typeof parsed?.list === "string") {
+      name = parsed.list;
+    }
+    rawEntries = Array.isArray(parsed) ? parsed : parsed?.entries;
+    if (!Array.isArray(rawEntries)) {
+      throw new Error(`Watchlist ${file} must contain an array of entries`);
+    }
+  }
+
+  return {
+    name,
+    source: file,
+    entries: rawEntries.map((raw, index) => parseEntry(raw, name, index)),
+  };
+};
+
+/**
+ * Load the watchlists listed in SCREENING_LIST_FILES (comma-separated)
+ */
+export const loadWatchlists = (): Watchlist[] =>
+  (process.env.SCREENING_LIST_FILES ?? "")
+    .split(",")
+    .map((file) => file.trim())
+    .filter((file) => file !== "")
+    .map(loadWatchlist);
+
+const holdThreshold = parseFloat(process.env.SCREENING_HOLD_THRESHOLD || "0.85");
+const blockThreshold = parseFloat(
+  process.env.SCREENING_BLOCK_THRESHOLD || "0.95"
+);
+if (
+  !(holdThreshold > 0 && holdThreshold <= 1) ||
+  !(blockThreshold > 0 && blockThreshold <= 1)
+) {
+  throw new Error(
+    "SCREENING_HOLD_THRESHOLD and SCREENING_BLOCK_THRESHOLD must be in (0, 1]"
+  );
+}
+
+/**
+ * Sanctions / blocklist screening settings
+ */
+export const screeningConfig = {
+  // Set SCREENING_ENABLED=false to skip screening (no lists: nothing matches)
+  enabled: process.env.SCREENING_ENABLED !== "false",
+  // Name similarity (0-1) from which a match holds the payment for review
+  holdThreshold,
+  // Name similarity from which a match blocks the payment; id and
+  // country matches score 1
+  blockThreshold,
+};
@@ -0,0 +1,95 @@
+// src/config/signingKeys.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+export interface SigningKey {
+  id: string;
+  secret: string;
+  not_before?: Date;
+  expires_at?: Date;
+}
+
+/**
+ * Load a signing keyring from the environment.
+ *
+ * <PREFIX>_SIGNING_KEYS is a JSON array of
+ * { "id", "secret", "not_before"?, "expires_at"? } entries.
+ * <PREFIX>_SECRET, when set, is added as the key with id "default".
+ * @param prefix - Environment variable prefix (default: WEBHOOK)
+ */
+export const loadSigningKeys = (prefix: string = "WEBHOOK"): SigningKey[] => {
+  const keys: SigningKey[] = [];
+  const keyringVar = `${prefix}_SIGNING_KEYS`;
+  const secret = process.env[`${prefix}_SECRET`];
+
+  if (process.env[keyringVar]) {
+    let entries: any[];
+    try {
+      entries = JSON.parse(process.env[keyringVar] as string);
+    } catch (error) {
+      throw new Error(`${keyringVar} must be a valid JSON array`);
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`${keyringVar} must be a valid JSON array`);
+    }
+
+    for (const entry of entries) {
+      if (!entry?.id || !entry?.secret) {
+        throw new Error("Each signing key requires an id and a secret");
+      }
+
+      keys.push({
+        id: String(entry.id),
+        secret: String(entry.secret),
+        not_before: parseKeyDate(entry.not_before, entry.id, "not_before"),
+        expires_at: parseKeyDate(entry.expires_at, entry.id, "expires_at"),
+      });
+    }
+  }
+
+  if (secret && !keys.some((k) => k.id === "default")) {
+    keys.push({ id: "default", secret });
+  }
+
+  const ids = keys.map((k) => k.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Duplicate signing key id: ${duplicate}`);
+  }
+
+  return keys;
+};
+
+/**
+ * Check whether a key may be used at the given time
+ */
+export const isSigningKeyActive = (
+  key: SigningKey,
+  now: Date = new Date()
+): boolean => {
+  if (key.not_before && now < key.not_before) {
+    return false;
+  }
+  if (key.expires_at && now >= key.expires_at) {
+    return false;
+  }
+  return true;
+};
+
+const parseKeyDate = (
+  value: unknown,
+  keyId: string,
+  field: string
+): Date | undefined => {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Signing key ${keyId} has an invalid ${field}`);
+  }
+  return date;
+};
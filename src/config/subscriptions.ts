@@ -0,0 +1,28 @@
+// src/config/subscriptions.ts
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Outbound subscription delivery settings
+ */
+export const subscriptionConfig = {
+  // Attempts before a delivery is given up on
+  maxAttempts: parseInt(process.env.SUBSCRIPTION_MAX_ATTEMPTS || "8"),
+  // Base delay for exponential retry backoff (with jitter)
+  retryBaseDelayMs: parseInt(
+    process.env.SUBSCRIPTION_RETRY_BASE_DELAY_MS || "5000"
+  ),
+  // Upper bound for a single retry delay
+  retryMaxDelayMs: parseInt(
+    process.env.SUBSCRIPTION_RETRY_MAX_DELAY_MS || "3600000"
+  ),
+  // Subscriber response timeout
+  timeoutMs: parseInt(process.env.SUBSCRIPTION_TIMEOUT_MS || "10000"),
+  // How often the dispatcher polls for due deliveries
+  pollIntervalMs: parseInt(process.env.SUBSCRIPTION_POLL_INTERVAL_MS || "1000"),
+  // Deliveries claimed per poll
+  batchSize: parseInt(process.env.SUBSCRIPTION_BATCH_SIZE || "10"),
+  // Deliveries stuck in "delivering" longer than this are claimed again
+  lockTimeoutMs: parseInt(process.env.SUBSCRIPTION_LOCK_TIMEOUT_MS || "300000"),
+};
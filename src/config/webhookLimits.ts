@@ -0,0 +1,112 @@
+// src/config/webhookLimits.ts
+import * as dotenv from "dotenv";
+import { IpAllowlist } from "../utils/ipAllowlist";
+
+dotenv.config();
+
+export type RateLimitStoreName = "memory" | "postgres";
+
+const RATE_LIMIT_STORES: RateLimitStoreName[] = ["memory", "postgres"];
+
+const store = (process.env.RATE_LIMIT_STORE || "memory") as RateLimitStoreName;
+if (!RATE_LIMIT_STORES.includes(store)) {
+  throw new Error(
+    `RATE_LIMIT_STORE must be one of: ${RATE_LIMIT_STORES.join(", ")}`
+  );
+}
+
+/**
+ * Read a token bucket (burst capacity and refill rate) from
+ * <PREFIX>_CAPACITY and <PREFIX>_REFILL_PER_SECOND
+ */
+const loadBucket = (
+  prefix: string,
+  defaultCapacity: string,
+  defaultRefillPerSecond: string
+) => {
+  const capacity = parseInt(
+    process.env[`${prefix}_CAPACITY`] || defaultCapacity
+  );
+  const refillPerSecond = parseFloat(
+    process.env[`${prefix}_REFILL_PER_SECOND`] || defaultRefillPerSecond
+  );
+
+  if (!(capacity >= 1)) {
+    throw new Error(`${prefix}_CAPACITY must be at least 1`);
+  }
+  if (!(refillPerSecond > 0)) {
+    throw new Error(`${prefix}_REFILL_PER_SECOND must be greater than 0`);
+  }
+  return { capacity, refillPerSecond };
+};
+
+/**
+ * Express "trust proxy" setting: true, a hop count, or a list of
+ * addresses/subnets (unset: the socket address is the source IP)
+ */
+const parseTrustProxy = (
+  value: string | undefined
+): boolean | number | string => {
+  if (!value || value === "false") {
+    return false;
+  }
+  if (value === "true") {
+    return true;
+  }
+  return /^\d+$/.test(value) ? parseInt(value) : value;
+};
+
+const maxMetadataDepth = parseInt(
+  process.env.WEBHOOK_MAX_METADATA_DEPTH || "5"
+);
+if (!(maxMetadataDepth >= 1)) {
+  throw new Error("WEBHOOK_MAX_METADATA_DEPTH must be at least 1");
+}
+
+/**
+ * Rate limits and payload limits for the webhook routes
+ */
+export const webhookLimitsConfig = {
+  // Largest accepted webhook body, in bytes or with a unit ("256kb", "1mb")
+  maxBodySize: process.env.WEBHOOK_MAX_BODY_SIZE || "100kb",
+  // Deepest nesting inside data.metadata (1 = flat key/value object)
+  maxMetadataDepth,
+  // Token buckets per source IP and per sender (provider + signing key)
+  rateLimitEnabled: process.env.RATE_LIMIT_ENABLED !== "false",
+  // memory: per process; postgres: shared by all instances
+  store,
+  ip: loadBucket("RATE_LIMIT_IP", "100", "50"),
+  sender: loadBucket("RATE_LIMIT_SENDER", "200", "100"),
+  // Rejections are audited at most once per interval for each reason and
+  // source, so a flood does not flood the audit table (metrics count all)
+  rejectionAuditIntervalMs: parseInt(
+    process.env.WEBHOOK_REJECTION_AUDIT_INTERVAL_MS || "60000"
+  ),
+  // Needed behind a load balancer so the source IP is the client's
+  trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+};
+
+/**
+ * Load a provider's IP allowlist from <PREFIX>_IP_ALLOWLIST, a comma
+ * separated list of addresses and CIDR subnets. Unset means any source.
+ * @param prefix - Environment variable prefix (default: WEBHOOK)
+ */
+export const loadIpAllowlist = (
+  prefix: string = "WEBHOOK"
+): IpAllowlist | undefined => {
+  const variable = `${prefix}_IP_ALLOWLIST`;
+  const entries = (process.env[variable] || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (entries.length === 0) {
+    return undefined;
+  }
+
+  try {
+    return new IpAllowlist(entries);
+  } catch (error: any) {
+    throw new Error(`${variable}: ${error.message}`);
+  }
+};
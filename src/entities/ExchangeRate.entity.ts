@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  Unique,
+} from "typeorm";
+
+// Exchange Rate Entity - rate history per currency pair.
+// 1 base_currency = rate quote_currency from effective_from onwards.
+@Entity("exchange_rates")
+@Unique(["base_currency", "quote_currency", "effective_from"])
+@Index(["base_currency", "quote_currency", "effective_from"])
+export class ExchangeRate {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column({ length: 3 })
+  base_currency: string;
+
+  @Column({ length: 3 })
+  quote_currency: string;
+
+  // Decimal string to keep the exact rate
+  @Column("decimal", { precision: 20, scale: 10 })
+  rate: string;
+
+  @Column({ type: "timestamp" })
+  effective_from: Date;
+
+  // Where the rate came from (e.g. ecb, manual)
+  @Column({ default: "manual" })
+  source: string;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
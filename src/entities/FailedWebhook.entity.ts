@@ -0,0 +1,79 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { encryptedJsonColumn } from "../utils/fieldEncryption";
+
+export enum FailedWebhookStatus {
+  FAILED = "failed",
+  REPLAYED = "replayed",
+}
+
+// Dead-letter Entity - failed webhooks kept for inspection and replay
+@Entity("failed_webhooks")
+export class FailedWebhook {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  // Nullable because the payload that failed validation may lack them
+  @Column({ type: "varchar", nullable: true })
+  @Index()
+  event_id: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  event_type: string | null;
+
+  @Column({ default: "default" })
+  provider: string;
+
+  // Canonical payload as passed to processWebhook (encrypted at rest when
+  // configured; it is needed in full for replays)
+  @Column({
+    type: "jsonb",
+    transformer: encryptedJsonColumn("failed_webhooks.payload"),
+  })
+  payload: Record<string, any>;
+
+  // Error class name, e.g. ValidationError
+  @Column()
+  @Index()
+  error_type: string;
+
+  @Column({ type: "text", nullable: true })
+  error_message: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  error_field: string | null;
+
+  // The "failed" audit log row of the original delivery
+  @Column({ type: "uuid", nullable: true })
+  audit_log_id: string | null;
+
+  @Column({
+    type: "enum",
+    enum: FailedWebhookStatus,
+    default: FailedWebhookStatus.FAILED,
+  })
+  @Index()
+  status: FailedWebhookStatus;
+
+  @Column({ type: "int", default: 0 })
+  replay_count: number;
+
+  @Column({ type: "timestamp", nullable: true })
+  last_replayed_at: Date | null;
+
+  @Column({ type: "text", nullable: true })
+  last_replay_error: string | null;
+
+  @CreateDateColumn()
+  @Index()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
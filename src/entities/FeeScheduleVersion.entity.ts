@@ -0,0 +1,32 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Unique,
+} from "typeorm";
+
+// Fee Schedule Version Entity - database-managed fee schedules.
+// Rows are immutable: publish a new version instead of editing one.
+@Entity("fee_schedules")
+@Unique(["schedule_id", "version"])
+export class FeeScheduleVersion {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column()
+  schedule_id: string;
+
+  @Column({ type: "int" })
+  version: number;
+
+  @Column({ type: "timestamp" })
+  effective_from: Date;
+
+  // Ordered FeeRule objects (see config/feeSchedules.ts)
+  @Column({ type: "jsonb" })
+  rules: Record<string, any>[];
+
+  @CreateDateColumn()
+  created_at: Date;
+}
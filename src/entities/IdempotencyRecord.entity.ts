@@ -0,0 +1,34 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Unique,
+} from "typeorm";
+
+// Idempotency Record Entity - first response sent for each event
+@Entity("idempotency_records")
+@Unique(["provider", "event_id"])
+export class IdempotencyRecord {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column()
+  provider: string;
+
+  @Column()
+  event_id: string;
+
+  // SHA-256 of the raw request body
+  @Column({ length: 64 })
+  payload_hash: string;
+
+  @Column({ type: "int" })
+  status_code: number;
+
+  @Column({ type: "jsonb" })
+  response_body: Record<string, any>;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Generated,
+  Index,
+} from "typeorm";
+
+// Outbox Entity - event written in the same database transaction as the
+// change it describes, published afterwards by the outbox relay
+@Entity("outbox_events")
+@Index(["published_at", "sequence"])
+export class OutboxEvent {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  // Publishing order (bigint, returned as a string)
+  @Column({ type: "bigint", unique: true })
+  @Generated("increment")
+  sequence: string;
+
+  // Entity the event is about; events of one aggregate are published in order
+  @Column()
+  aggregate_type: string;
+
+  @Column({ type: "uuid" })
+  @Index()
+  aggregate_id: string;
+
+  @Column()
+  event_type: string;
+
+  @Column({ type: "jsonb" })
+  payload: Record<string, any>;
+
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  @Column({ type: "text", nullable: true })
+  last_error: string | null;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  next_attempt_at: Date;
+
+  // Null until the publisher accepted the event
+  @Column({ type: "timestamp", nullable: true })
+  published_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -0,0 +1,19 @@
+import { Entity, PrimaryColumn, Column } from "typeorm";
+
+// Rate Limit Bucket Entity - token bucket state shared by all instances
+@Entity("rate_limit_buckets")
+export class RateLimitBucket {
+  // Scope and subject, e.g. "ip:203.0.113.7" or "sender:stripe:key-2026"
+  @PrimaryColumn({ length: 255 })
+  key: string;
+
+  @Column({ type: "double precision" })
+  tokens: number;
+
+  // Whether the last request took a token
+  @Column({ default: true })
+  allowed: boolean;
+
+  @Column({ type: "timestamp" })
+  updated_at: Date;
+}
@@ -0,0 +1,87 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { ReconciliationRun } from "./ReconciliationRun.entity";
+
+export enum DiscrepancyType {
+  // In the report, no transaction with that transaction_id
+  MISSING_ON_OUR_SIDE = "missing_on_our_side",
+  // Settled transaction of the period that is not in the report
+  MISSING_ON_THEIR_SIDE = "missing_on_their_side",
+  AMOUNT_MISMATCH = "amount_mismatch",
+  CURRENCY_MISMATCH = "currency_mismatch",
+  STATUS_MISMATCH = "status_mismatch",
+  FEE_MISMATCH = "fee_mismatch",
+  // transaction_id appears more than once in the report
+  DUPLICATE = "duplicate",
+}
+
+export enum DiscrepancyStatus {
+  OPEN = "open",
+  RESOLVED = "resolved",
+}
+
+// Reconciliation Discrepancy Entity - one difference found by a run
+@Entity("reconciliation_discrepancies")
+export class ReconciliationDiscrepancy {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => ReconciliationRun, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "run_id" })
+  run: ReconciliationRun;
+
+  @Column({ type: "uuid" })
+  @Index()
+  run_id: string;
+
+  @Column({ type: "enum", enum: DiscrepancyType })
+  @Index()
+  type: DiscrepancyType;
+
+  @Column()
+  @Index()
+  transaction_id: string;
+
+  // Null when the transaction is missing on our side
+  @Column({ type: "uuid", nullable: true })
+  transaction_ref_id: string | null;
+
+  // Record number in the report (1 = first record)
+  @Column({ type: "int", nullable: true })
+  report_row: number | null;
+
+  // Our value and the report's value of the compared field
+  @Column({ type: "varchar", nullable: true })
+  expected: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  actual: string | null;
+
+  @Column({
+    type: "enum",
+    enum: DiscrepancyStatus,
+    default: DiscrepancyStatus.OPEN,
+  })
+  @Index()
+  status: DiscrepancyStatus;
+
+  @Column({ type: "text", nullable: true })
+  resolution_note: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  resolved_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
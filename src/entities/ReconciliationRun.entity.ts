@@ -0,0 +1,52 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from "typeorm";
+
+// Reconciliation Run Entity - one settlement report compared with our transactions
+@Entity("reconciliation_runs")
+export class ReconciliationRun {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  // Provider whose settlement report was imported
+  @Column()
+  @Index()
+  provider: string;
+
+  // File name or label of the report
+  @Column({ type: "varchar", nullable: true })
+  source: string | null;
+
+  @Column({ length: 10 })
+  format: string;
+
+  // Settlement period; transactions created in it but absent from the
+  // report are missing on their side (not checked without a period)
+  @Column({ type: "timestamp", nullable: true })
+  period_start: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  period_end: Date | null;
+
+  @Column({ type: "int" })
+  report_rows: number;
+
+  // Report rows that matched a transaction without discrepancies
+  @Column({ type: "int" })
+  matched: number;
+
+  @Column({ type: "int" })
+  discrepancy_count: number;
+
+  // Discrepancies per type
+  @Column({ type: "jsonb" })
+  summary: Record<string, number>;
+
+  @CreateDateColumn()
+  @Index()
+  created_at: Date;
+}
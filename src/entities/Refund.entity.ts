@@ -0,0 +1,75 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from "typeorm";
+import { Transaction } from "./Transaction.entity";
+
+export enum RefundType {
+  REFUND = "refund",
+  // Money pulled back by the payer's bank
+  CHARGEBACK = "chargeback",
+}
+
+// Result of a chargeback once the dispute is closed
+export enum DisputeOutcome {
+  WON = "won",
+  LOST = "lost",
+}
+
+// Refund Entity - money going back against a transaction (partial or full)
+@Entity("refunds")
+@Unique("uq_refunds_provider_event", ["provider", "event_id"])
+export class Refund {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Transaction, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "transaction_ref_id" })
+  transaction: Transaction;
+
+  @Column({ type: "uuid" })
+  @Index()
+  transaction_ref_id: string;
+
+  // Webhook event that reported it (unique per provider, so each event is
+  // applied once)
+  @Column()
+  event_id: string;
+
+  @Column({ type: "enum", enum: RefundType })
+  type: RefundType;
+
+  // In the transaction currency
+  @Column("decimal", { precision: 20, scale: 4 })
+  amount: string;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  // Part of processing_fee returned by this refund (REFUND_FEE_POLICY)
+  @Column("decimal", { precision: 20, scale: 4, default: 0 })
+  fee_reversal: string;
+
+  @Column({ type: "text", nullable: true })
+  reason: string | null;
+
+  // Chargebacks only; null while the dispute is open
+  @Column({ type: "enum", enum: DisputeOutcome, nullable: true })
+  dispute_outcome: DisputeOutcome | null;
+
+  @Column({ default: "default" })
+  provider: string;
+
+  // Timestamp from the webhook payload
+  @Column({ type: "timestamp" })
+  event_timestamp: Date;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
@@ -0,0 +1,115 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { encryptedColumn } from "../utils/fieldEncryption";
+import { ScreeningDecision, Transaction } from "./Transaction.entity";
+
+export enum ScreeningMatchType {
+  NAME = "name",
+  PARTY_ID = "party_id",
+  COUNTRY = "country",
+}
+
+export enum ScreeningResultStatus {
+  // Waiting for a compliance decision
+  OPEN = "open",
+  // False positive; the same party (id and name) is not matched the same
+  // way against the entry again
+  CLEARED = "cleared",
+  // True match; the held transaction is failed
+  CONFIRMED = "confirmed",
+}
+
+// Screening Result Entity - one watchlist hit for a party of a payment
+@Entity("screening_results")
+@Index(["provider", "party_id", "list_name", "entry_id"])
+export class ScreeningResult {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Transaction, { onDelete: "CASCADE", nullable: true })
+  @JoinColumn({ name: "transaction_ref_id" })
+  transaction: Transaction | null;
+
+  // Null when the payment was blocked and not stored
+  @Column({ type: "uuid", nullable: true })
+  @Index()
+  transaction_ref_id: string | null;
+
+  // Provider transaction_id and event of the screened payment
+  @Column()
+  @Index()
+  transaction_id: string;
+
+  @Column()
+  event_id: string;
+
+  @Column({ default: "default" })
+  provider: string;
+
+  @Column()
+  party: string;
+
+  @Column()
+  party_id: string;
+
+  @Column({
+    type: "text",
+    transformer: encryptedColumn("screening_results.party_name"),
+  })
+  party_name: string;
+
+  @Column({ length: 2 })
+  party_country: string;
+
+  @Column()
+  list_name: string;
+
+  @Column()
+  entry_id: string;
+
+  @Column()
+  entry_name: string;
+
+  @Column({ type: "enum", enum: ScreeningMatchType })
+  match_type: ScreeningMatchType;
+
+  // Name, alias, id or country of the entry that matched
+  @Column()
+  matched_value: string;
+
+  // Similarity 0-1 (id and country matches are 1)
+  @Column("decimal", { precision: 5, scale: 4 })
+  score: string;
+
+  // What the hit did to the payment (hold or block)
+  @Column({ type: "enum", enum: ScreeningDecision })
+  action: ScreeningDecision;
+
+  @Column({
+    type: "enum",
+    enum: ScreeningResultStatus,
+    default: ScreeningResultStatus.OPEN,
+  })
+  @Index()
+  status: ScreeningResultStatus;
+
+  @Column({ type: "text", nullable: true })
+  review_note: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  reviewed_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
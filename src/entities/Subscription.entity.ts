@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+} from "typeorm";
+
+// Events sent to subscribers
+export enum OutboundEventType {
+  TRANSACTION_CREATED = "transaction.created",
+  // Status change of an existing transaction (including refunds)
+  TRANSACTION_UPDATED = "transaction.updated",
+}
+
+// Subscription Entity - internal service notified about transaction events
+@Entity("subscriptions")
+export class Subscription {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column()
+  name: string;
+
+  @Column()
+  url: string;
+
+  // HMAC secret deliveries are signed with (never returned after creation)
+  @Column({ select: false })
+  secret: string;
+
+  // Filters; null matches everything
+  @Column({ type: "jsonb", nullable: true })
+  event_types: OutboundEventType[] | null;
+
+  @Column({ type: "jsonb", nullable: true })
+  statuses: string[] | null;
+
+  @Column({ type: "jsonb", nullable: true })
+  currencies: string[] | null;
+
+  // Only transactions with amount >= min_amount
+  @Column("decimal", { precision: 20, scale: 4, nullable: true })
+  min_amount: string | null;
+
+  @Column({ default: true })
+  active: boolean;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,95 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+} from "typeorm";
+import { Subscription } from "./Subscription.entity";
+
+export enum DeliveryStatus {
+  PENDING = "pending",
+  DELIVERING = "delivering",
+  DELIVERED = "delivered",
+  // Attempt failed; retried at next_attempt_at
+  FAILED = "failed",
+  // All attempts used up
+  EXHAUSTED = "exhausted",
+}
+
+// Delivery Entity - one event sent to one subscriber, with its attempt log
+@Entity("subscription_deliveries")
+@Index(["status", "next_attempt_at"])
+@Index(["subscription_id", "event_id"], { unique: true })
+export class SubscriptionDelivery {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Subscription, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "subscription_id" })
+  subscription: Subscription;
+
+  @Column({ type: "uuid" })
+  @Index()
+  subscription_id: string;
+
+  // Outbound event id, shared by the deliveries of one event
+  @Column({ type: "uuid" })
+  @Index()
+  event_id: string;
+
+  @Column()
+  event_type: string;
+
+  @Column({ type: "uuid", nullable: true })
+  transaction_ref_id: string | null;
+
+  // Body sent to the subscriber
+  @Column({ type: "jsonb" })
+  payload: Record<string, any>;
+
+  @Column({
+    type: "enum",
+    enum: DeliveryStatus,
+    default: DeliveryStatus.PENDING,
+  })
+  status: DeliveryStatus;
+
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  // One entry per attempt: { attempted_at, status_code, error, duration_ms }
+  @Column({ type: "jsonb", default: () => "'[]'" })
+  attempt_log: DeliveryAttempt[];
+
+  @Column({ type: "int", nullable: true })
+  last_status_code: number | null;
+
+  @Column({ type: "text", nullable: true })
+  last_error: string | null;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  next_attempt_at: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  locked_at: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  delivered_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
+
+export interface DeliveryAttempt {
+  attempted_at: string;
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+}
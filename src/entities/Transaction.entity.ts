@@ -5,28 +5,73 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   Index,
+  Unique,
 } from "typeorm";
+import {
+  encryptedColumn,
+  encryptedJsonColumn,
+} from "../utils/fieldEncryption";
 
 export enum TransactionStatus {
   PENDING = "pending",
   COMPLETED = "completed",
   FAILED = "failed",
+  CANCELLED = "cancelled",
+  // Part of the amount refunded
+  PARTIALLY_REFUNDED = "partially_refunded",
+  REFUNDED = "refunded",
+  // Chargeback opened by the payer's bank
+  DISPUTED = "disputed",
+  // Held by the risk engine until a reviewer approves or rejects it
+  UNDER_REVIEW = "under_review",
+}
+
+// Outcome of the risk rules when the transaction was created
+export enum RiskDecision {
+  ACCEPT = "accept",
+  REVIEW = "review",
+  REJECT = "reject",
+}
+
+// Outcome of watchlist screening of sender and receiver
+export enum ScreeningDecision {
+  CLEAR = "clear",
+  // Possible match: held under review
+  HOLD = "hold",
+  // Strong match: not stored
+  BLOCK = "block",
 }
 
+// Conversion of net_amount into the settlement currency
+export enum ConversionStatus {
+  CONVERTED = "converted",
+  // No rate yet; converted later by the pending conversion job
+  PENDING = "pending",
+  // No rate and stored without conversion (missing rate policy "null")
+  UNAVAILABLE = "unavailable",
+}
+
+// Ids are the provider's, so they are only unique per provider
 @Entity("transactions")
+@Unique("uq_transactions_provider_event", ["provider", "event_id"])
+@Unique("uq_transactions_provider_transaction", [
+  "provider",
+  "transaction_id",
+])
 export class Transaction {
   @PrimaryGeneratedColumn("uuid")
   id: string;
 
-  @Column({ unique: true })
+  @Column()
   @Index()
   event_id: string;
 
-  @Column({ unique: true })
+  @Column()
   @Index()
   transaction_id: string;
 
-  @Column("decimal", { precision: 10, scale: 2 })
+  // Scale 4 covers every ISO 4217 exponent (JPY 0, USD 2, KWD 3, CLF 4)
+  @Column("decimal", { precision: 20, scale: 4 })
   amount: number;
 
   @Column({ length: 3 })
@@ -35,7 +80,11 @@ export class Transaction {
   @Column()
   sender_id: string;
 
-  @Column()
+  // Encrypted at rest when configured (see PII_ENCRYPTED_FIELDS)
+  @Column({
+    type: "text",
+    transformer: encryptedColumn("transactions.sender_name"),
+  })
   sender_name: string;
 
   @Column({ length: 2 })
@@ -44,7 +93,10 @@ export class Transaction {
   @Column()
   receiver_id: string;
 
-  @Column()
+  @Column({
+    type: "text",
+    transformer: encryptedColumn("transactions.receiver_name"),
+  })
   receiver_name: string;
 
   @Column({ length: 2 })
@@ -60,23 +112,117 @@ export class Transaction {
   @Column()
   payment_method: string;
 
-  // Derived fields (Bonus)
-  @Column("decimal", { precision: 10, scale: 2, nullable: true })
-  processing_fee: number;
+  // Payment processor that sent the webhook
+  @Column({ default: "default" })
+  @Index()
+  provider: string;
 
-  @Column("decimal", { precision: 10, scale: 2, nullable: true })
-  net_amount: number;
+  // Derived fields (Bonus), decimal strings to keep exact values
+  @Column("decimal", { precision: 20, scale: 4, nullable: true })
+  processing_fee: string | null;
 
-  @Column("decimal", { precision: 10, scale: 6, nullable: true })
-  exchange_rate: number;
+  @Column("decimal", { precision: 20, scale: 4, nullable: true })
+  net_amount: string | null;
 
-  // Metadata
+  // 1 unit of currency = exchange_rate units of settlement_currency
+  @Column("decimal", { precision: 20, scale: 10, nullable: true })
+  exchange_rate: string | null;
+
+  @Column({ type: "varchar", length: 3, nullable: true })
+  settlement_currency: string | null;
+
+  // net_amount converted into settlement_currency
+  @Column("decimal", { precision: 20, scale: 4, nullable: true })
+  settlement_net_amount: string | null;
+
+  @Column({ type: "varchar", nullable: true })
+  exchange_rate_source: string | null;
+
+  // Effective date of the applied rate
+  @Column({ type: "timestamp", nullable: true })
+  exchange_rate_at: Date | null;
+
+  @Column({ type: "enum", enum: ConversionStatus, nullable: true })
+  conversion_status: ConversionStatus | null;
+
+  // Sum of refunds (see refunds table), in the transaction currency
+  @Column("decimal", { precision: 20, scale: 4, default: 0 })
+  refunded_amount: string;
+
+  // Part of processing_fee returned by those refunds
+  @Column("decimal", { precision: 20, scale: 4, default: 0 })
+  refunded_fee: string;
+
+  // Fee schedule version and rule that produced processing_fee
+  @Column({ type: "varchar", nullable: true })
+  fee_schedule_id: string | null;
+
+  @Column({ type: "int", nullable: true })
+  fee_schedule_version: number | null;
+
+  @Column({ type: "varchar", nullable: true })
+  fee_rule_id: string | null;
+
+  // Risk assessment (null when the risk engine was disabled)
+  @Column({ type: "int", nullable: true })
+  risk_score: number | null;
+
+  @Column({ type: "enum", enum: RiskDecision, nullable: true })
+  @Index()
+  risk_decision: RiskDecision | null;
+
+  // Rules that matched, with their scores and reasons
   @Column({ type: "jsonb", nullable: true })
+  risk_rules: Record<string, any>[] | null;
+
+  // Watchlist screening outcome (null when screening was disabled)
+  @Column({ type: "enum", enum: ScreeningDecision, nullable: true })
+  screening_decision: ScreeningDecision | null;
+
+  // Status reported by the provider while the transaction is under review;
+  // applied when the review is approved
+  @Column({ type: "enum", enum: TransactionStatus, nullable: true })
+  held_status: TransactionStatus | null;
+
+  // "approved" or "rejected" once reviewed
+  @Column({ type: "varchar", nullable: true })
+  review_outcome: string | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  reviewed_at: Date | null;
+
+  // Keyed hashes (PII_HASH_KEY) for looking parties up by name or email
+  @Column({ type: "varchar", length: 64, nullable: true })
+  @Index()
+  sender_name_hash: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  @Index()
+  receiver_name_hash: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  @Index()
+  sender_email_hash: string | null;
+
+  @Column({ type: "varchar", length: 64, nullable: true })
+  @Index()
+  receiver_email_hash: string | null;
+
+  // Metadata
+  @Column({
+    type: "jsonb",
+    nullable: true,
+    transformer: encryptedJsonColumn("transactions.metadata"),
+  })
   metadata: Record<string, any>;
 
   @Column({ type: "timestamp", nullable: true })
   processed_at: Date;
 
+  // Payload timestamp of the latest applied event (out-of-order protection)
+  @Column({ type: "timestamp", nullable: true })
+  last_event_at: Date;
+
   @CreateDateColumn()
   created_at: Date;
 
@@ -90,11 +236,15 @@ export class AuditLog {
   @PrimaryGeneratedColumn("uuid")
   id: string;
 
-  @Column()
-  event_id: string;
+  // Nullable because rejected or invalid payloads may lack them
+  @Column({ type: "varchar", nullable: true })
+  event_id: string | null;
 
-  @Column()
-  event_type: string;
+  @Column({ type: "varchar", nullable: true })
+  event_type: string | null;
+
+  @Column({ default: "default" })
+  provider: string;
 
   @Column({ type: "jsonb" })
   payload: Record<string, any>;
@@ -105,6 +255,35 @@ export class AuditLog {
   @Column({ type: "text", nullable: true })
   error_message: string;
 
+  // Payload field that failed validation
+  @Column({ type: "varchar", nullable: true })
+  error_field: string | null;
+
+  // Id of the signing key that verified the webhook
+  @Column({ type: "varchar", nullable: true })
+  signing_key_id: string | null;
+
+  // Failed webhook this entry was replayed from (admin replay)
+  @Column({ type: "uuid", nullable: true })
+  replay_of: string | null;
+
+  // Shared by all rows written for one delivery attempt
+  @Column({ type: "uuid", nullable: true })
+  delivery_id: string | null;
+
+  // Correlation id of the request (or inbox entry) that wrote the row
+  @Column({ type: "varchar", length: 128, nullable: true })
+  @Index()
+  correlation_id: string | null;
+
+  // Transaction the event was applied to (or that already held it)
+  @Column({ type: "uuid", nullable: true })
+  transaction_ref_id: string | null;
+
+  // Set when the retention job removed the payload's personal data
+  @Column({ type: "timestamp", nullable: true })
+  anonymized_at: Date | null;
+
   @CreateDateColumn()
   created_at: Date;
 }
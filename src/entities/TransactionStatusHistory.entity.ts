@@ -0,0 +1,57 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+  ManyToOne,
+  JoinColumn,
+  Unique,
+} from "typeorm";
+import { Transaction, TransactionStatus } from "./Transaction.entity";
+
+// Status History Entity - one row per applied status change
+@Entity("transaction_status_history")
+@Unique("uq_status_history_provider_event", ["provider", "event_id"])
+export class TransactionStatusHistory {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @ManyToOne(() => Transaction, { onDelete: "CASCADE" })
+  @JoinColumn({ name: "transaction_ref_id" })
+  transaction: Transaction;
+
+  @Column({ type: "uuid" })
+  @Index()
+  transaction_ref_id: string;
+
+  // Event that caused the change (unique per provider, so each event is
+  // applied once)
+  @Column()
+  @Index()
+  event_id: string;
+
+  // Provider of the transaction
+  @Column({ default: "default" })
+  provider: string;
+
+  @Column({
+    type: "enum",
+    enum: TransactionStatus,
+    nullable: true,
+  })
+  from_status: TransactionStatus | null;
+
+  @Column({
+    type: "enum",
+    enum: TransactionStatus,
+  })
+  to_status: TransactionStatus;
+
+  // Timestamp from the webhook payload (used for out-of-order detection)
+  @Column({ type: "timestamp" })
+  event_timestamp: Date;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
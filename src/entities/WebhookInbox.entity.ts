@@ -0,0 +1,71 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index,
+} from "typeorm";
+import { encryptedColumn } from "../utils/fieldEncryption";
+
+export enum InboxStatus {
+  PENDING = "pending",
+  PROCESSING = "processing",
+  PROCESSED = "processed",
+  FAILED = "failed",
+  DEAD_LETTER = "dead_letter",
+}
+
+// Inbox Entity - verified webhooks waiting for background processing
+@Entity("webhook_inbox")
+@Index(["status", "next_attempt_at"])
+export class WebhookInbox {
+  @PrimaryGeneratedColumn("uuid")
+  id: string;
+
+  @Column()
+  provider: string;
+
+  @Column({ type: "varchar", nullable: true })
+  signing_key_id: string | null;
+
+  // Correlation id of the request that queued the row (used by the worker)
+  @Column({ type: "varchar", length: 128, nullable: true })
+  correlation_id: string | null;
+
+  // Raw request body exactly as received (mapped when processed),
+  // encrypted at rest when configured
+  @Column({
+    type: "text",
+    transformer: encryptedColumn("webhook_inbox.raw_body"),
+  })
+  raw_body: string;
+
+  @Column({
+    type: "enum",
+    enum: InboxStatus,
+    default: InboxStatus.PENDING,
+  })
+  status: InboxStatus;
+
+  @Column({ type: "int", default: 0 })
+  attempts: number;
+
+  @Column({ type: "text", nullable: true })
+  last_error: string | null;
+
+  @Column({ type: "timestamp", default: () => "CURRENT_TIMESTAMP" })
+  next_attempt_at: Date;
+
+  @Column({ type: "timestamp", nullable: true })
+  locked_at: Date | null;
+
+  @Column({ type: "timestamp", nullable: true })
+  processed_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+}
@@ -0,0 +1,81 @@
+// src/handlers/eventHandlerRegistry.ts
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { RefundType, DisputeOutcome } from "../entities/Refund.entity";
+import { JsonSchema } from "../validators/jsonSchema";
+import { WebhookPayload } from "../validators/transactionValidator";
+import {
+  paymentCreatedHandler,
+  paymentUpdatedHandler,
+  paymentRefundedHandler,
+  paymentChargebackHandler,
+  paymentCancelledHandler,
+  paymentDisputeClosedHandler,
+} from "./paymentEventHandlers";
+
+/**
+ * Whether an event may create its transaction:
+ * - always: the transaction must not exist yet
+ * - if_missing: create it, or apply the event to the existing one
+ * - never: the transaction must already exist
+ */
+export type CreatePolicy = "always" | "if_missing" | "never";
+
+/**
+ * Validation and persistence rules for one event_type
+ */
+export interface EventHandler {
+  // Canonical event type, e.g. payment.refunded
+  eventType: string;
+  // Other event types handled the same way (e.g. legacy names)
+  aliases?: string[];
+  description: string;
+  // Payload schema for this event type
+  schema: JsonSchema;
+  creates: CreatePolicy;
+  // Status the transaction ends up in (for reversals and dispute outcomes,
+  // derived from the refund totals instead)
+  targetStatus(payload: WebhookPayload): TransactionStatus;
+  // Money going back: the event is recorded as a refund or chargeback
+  reversal?: RefundType;
+  // Closes the open dispute with the outcome reported by the event
+  disputeOutcome?(payload: WebhookPayload): DisputeOutcome;
+}
+
+export class EventHandlerRegistry {
+  private readonly handlers = new Map<string, EventHandler>();
+
+  /**
+   * Register (or replace) a handler for its event type and aliases
+   */
+  register(handler: EventHandler): void {
+    for (const eventType of [handler.eventType, ...(handler.aliases ?? [])]) {
+      this.handlers.set(eventType.toLowerCase(), handler);
+    }
+  }
+
+  /**
+   * Handler for an event type, or undefined when it is not supported
+   */
+  find(eventType: string): EventHandler | undefined {
+    if (typeof eventType !== "string") {
+      return undefined;
+    }
+    return this.handlers.get(eventType.toLowerCase());
+  }
+
+  /**
+   * All registered handlers (each once, aliases included)
+   */
+  list(): EventHandler[] {
+    return Array.from(new Set(this.handlers.values()));
+  }
+}
+
+export const eventHandlerRegistry = new EventHandlerRegistry();
+
+eventHandlerRegistry.register(paymentCreatedHandler);
+eventHandlerRegistry.register(paymentUpdatedHandler);
+eventHandlerRegistry.register(paymentRefundedHandler);
+eventHandlerRegistry.register(paymentChargebackHandler);
+eventHandlerRegistry.register(paymentCancelledHandler);
+eventHandlerRegistry.register(paymentDisputeClosedHandler);
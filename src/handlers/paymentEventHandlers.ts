@@ -0,0 +1,96 @@
+// src/handlers/paymentEventHandlers.ts
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { RefundType, DisputeOutcome } from "../entities/Refund.entity";
+import {
+  WEBHOOK_PAYLOAD_SCHEMA,
+  TRANSACTION_EVENT_SCHEMA,
+  DISPUTE_CLOSED_SCHEMA,
+} from "../validators/webhookPayloadSchema";
+import type { EventHandler } from "./eventHandlerRegistry";
+
+/**
+ * payment.created - a new payment; a second creation for the same
+ * transaction_id is rejected as a duplicate
+ */
+export const paymentCreatedHandler: EventHandler = {
+  eventType: "payment.created",
+  description: "Create a transaction",
+  schema: WEBHOOK_PAYLOAD_SCHEMA,
+  creates: "always",
+  targetStatus: (payload) => payload.data.status as TransactionStatus,
+};
+
+/**
+ * payment.updated - status change reported in data.status; creates the
+ * transaction if payment.created has not arrived (yet)
+ */
+export const paymentUpdatedHandler: EventHandler = {
+  eventType: "payment.updated",
+  // Event types accepted before event-type routing existed
+  aliases: [
+    "transaction.created",
+    "transaction.updated",
+    "transaction.pending",
+    "transaction.completed",
+    "transaction.failed",
+  ],
+  description: "Create a transaction or apply its new status",
+  schema: WEBHOOK_PAYLOAD_SCHEMA,
+  creates: "if_missing",
+  targetStatus: (payload) => payload.data.status as TransactionStatus,
+};
+
+/**
+ * payment.refunded - all or part (data.amount) of the payment was
+ * refunded to the sender
+ */
+export const paymentRefundedHandler: EventHandler = {
+  eventType: "payment.refunded",
+  description:
+    "Record a full or partial refund (refunded or partially_refunded)",
+  schema: TRANSACTION_EVENT_SCHEMA,
+  creates: "never",
+  targetStatus: () => TransactionStatus.REFUNDED,
+  reversal: RefundType.REFUND,
+};
+
+/**
+ * payment.chargeback - the sender's bank disputed all or part of the payment
+ */
+export const paymentChargebackHandler: EventHandler = {
+  eventType: "payment.chargeback",
+  description: "Record a chargeback and mark the transaction as disputed",
+  schema: TRANSACTION_EVENT_SCHEMA,
+  creates: "never",
+  targetStatus: () => TransactionStatus.DISPUTED,
+  reversal: RefundType.CHARGEBACK,
+};
+
+/**
+ * payment.cancelled - a pending payment was cancelled before completion
+ */
+export const paymentCancelledHandler: EventHandler = {
+  eventType: "payment.cancelled",
+  description: "Cancel a pending transaction",
+  schema: TRANSACTION_EVENT_SCHEMA,
+  creates: "never",
+  targetStatus: () => TransactionStatus.CANCELLED,
+};
+
+/**
+ * payment.dispute_closed - the open dispute was decided (data.outcome):
+ * won returns the charged-back amount, lost counts it as refunded
+ */
+export const paymentDisputeClosedHandler: EventHandler = {
+  eventType: "payment.dispute_closed",
+  description:
+    "Close the open dispute (completed or partially_refunded if won, " +
+    "partially_refunded or refunded if lost)",
+  schema: DISPUTE_CLOSED_SCHEMA,
+  creates: "never",
+  targetStatus: (payload) =>
+    payload.data.outcome === DisputeOutcome.LOST
+      ? TransactionStatus.REFUNDED
+      : TransactionStatus.COMPLETED,
+  disputeOutcome: (payload) => payload.data.outcome as DisputeOutcome,
+};
@@ -0,0 +1,54 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Middleware to authenticate admin API requests.
+ * Expects `Authorization: Bearer <ADMIN_API_KEY>` or `X-Admin-Api-Key`.
+ */
+export const requireAdminAuth = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const apiKey = process.env.ADMIN_API_KEY;
+
+  if (!apiKey) {
+    return res.status(503).json({
+      error: "Service Unavailable",
+      message: "Admin API is not configured",
+    });
+  }
+
+  const authorization = req.headers["authorization"];
+  const provided =
+    (req.headers["x-admin-api-key"] as string) ||
+    (authorization?.startsWith("Bearer ")
+      ? authorization.slice("Bearer ".length)
+      : undefined);
+
+  if (!provided || !safeCompare(provided, apiKey)) {
+    return res.status(401).json({
+      error: "Unauthorized",
+      message: "Invalid or missing admin API key",
+    });
+  }
+
+  next();
+};
+
+/**
+ * Constant-time comparison to prevent timing attacks
+ */
+const safeCompare = (received: string, expected: string): boolean => {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+};
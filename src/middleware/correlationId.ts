@@ -0,0 +1,30 @@
+import { randomUUID } from "crypto";
+import { Request, Response, NextFunction } from "express";
+import { loggingConfig } from "../config/logging";
+import { runWithCorrelationId } from "../utils/requestContext";
+import "../types/express";
+
+// Accepted from callers as is; anything else is replaced
+const CORRELATION_ID_REGEX = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Middleware that takes the correlation id from the request header (or
+ * generates one), echoes it in the response header and makes it available
+ * to everything the request runs (log lines, audit rows)
+ */
+export const assignCorrelationId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const provided = req.headers[loggingConfig.correlationHeader.toLowerCase()];
+  const correlationId =
+    typeof provided === "string" && CORRELATION_ID_REGEX.test(provided)
+      ? provided
+      : randomUUID();
+
+  req.correlationId = correlationId;
+  res.set(loggingConfig.correlationHeader, correlationId);
+
+  runWithCorrelationId(correlationId, () => next());
+};
@@ -0,0 +1,38 @@
+import { Request, Response, NextFunction } from "express";
+import { logger } from "../utils/logger";
+import { metrics } from "../utils/metrics";
+import { getCorrelationId } from "../utils/requestContext";
+
+/**
+ * Middleware that logs each request when its response is sent and records
+ * its latency. Routes are labelled by their pattern (/transactions/:id),
+ * not the path, to keep the number of series bounded.
+ */
+export const requestLogger = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const endTimer = metrics.httpRequestDuration.startTimer({
+    method: req.method,
+  });
+  // "finish" may be emitted outside the request's async context
+  const correlationId = getCorrelationId();
+
+  res.on("finish", () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    const seconds = endTimer({ route, status_code: String(res.statusCode) });
+
+    logger.http("Request completed", {
+      method: req.method,
+      // Without the query string (filters may carry personal data)
+      path: req.originalUrl.split("?")[0],
+      route,
+      status_code: res.statusCode,
+      duration_ms: Math.round(seconds * 1000),
+      correlation_id: correlationId,
+    });
+  });
+
+  next();
+};
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from "express";
+import { lifecycleService } from "../services/lifecycleService";
+
+// Answered while starting or shutting down (it reports the state); the
+// /health probes and /metrics are mounted before this middleware
+const ALWAYS_SERVED = ["/webhooks/health"];
+
+// How often a request whose client went away is checked for its response
+const ABORTED_REQUEST_POLL_MS = 50;
+
+/**
+ * Middleware that counts in-flight requests for the shutdown drain and
+ * refuses new ones with 503 before the service is ready or once it is
+ * shutting down (senders retry webhooks on 503)
+ */
+export const trackRequests = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const state = lifecycleService.getState();
+
+  if (state !== "ready" && !ALWAYS_SERVED.includes(req.path)) {
+    if (state === "shutting_down") {
+      // Stop keep-alive clients from sending more on this connection
+      res.set("Connection", "close");
+    }
+    return res
+      .status(503)
+      .set("Retry-After", "5")
+      .json({
+        error: "Service Unavailable",
+        message:
+          state === "starting"
+            ? "Service is starting"
+            : "Service is shutting down",
+      });
+  }
+
+  lifecycleService.requestStarted();
+
+  let counted = true;
+  const finished = () => {
+    if (counted) {
+      counted = false;
+      lifecycleService.requestFinished();
+    }
+  };
+
+  res.once("finish", finished);
+  res.once("close", () => {
+    if (res.writableEnded) {
+      return finished();
+    }
+    // The client went away while the handler is still running. It is
+    // counted until the handler ends the response (no event is emitted for
+    // that once the connection is gone), or the shutdown would close the
+    // database under a running transaction.
+    const timer = setInterval(() => {
+      if (res.writableEnded) {
+        clearInterval(timer);
+        finished();
+      }
+    }, ABORTED_REQUEST_POLL_MS);
+    timer.unref();
+  });
+
+  next();
+};
@@ -0,0 +1,23 @@
+// src/providers/defaultProvider.ts
+import * as dotenv from "dotenv";
+import { loadIpAllowlist } from "../config/webhookLimits";
+import { DEFAULT_SIGNATURE_SCHEME } from "../utils/signatureSchemes";
+import { WebhookPayload } from "../validators/transactionValidator";
+import type { WebhookProvider } from "./providerRegistry";
+
+dotenv.config();
+
+export const DEFAULT_PROVIDER = "default";
+
+/**
+ * Our own canonical format, signed with WEBHOOK_SECRET / WEBHOOK_SIGNING_KEYS
+ * and optionally restricted to WEBHOOK_IP_ALLOWLIST
+ */
+export const defaultProvider: WebhookProvider = {
+  name: DEFAULT_PROVIDER,
+  signature: {
+    scheme: process.env.WEBHOOK_SIGNATURE_SCHEME || DEFAULT_SIGNATURE_SCHEME,
+  },
+  ipAllowlist: loadIpAllowlist("WEBHOOK"),
+  mapPayload: (body: any): WebhookPayload => body,
+};
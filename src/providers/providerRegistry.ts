@@ -0,0 +1,66 @@
+// src/providers/providerRegistry.ts
+import { SignatureVerificationOptions } from "../utils/signatureValidator";
+import { IpAllowlist } from "../utils/ipAllowlist";
+import { WebhookPayload } from "../validators/transactionValidator";
+import { defaultProvider } from "./defaultProvider";
+import { createStripeProvider } from "./stripeProvider";
+
+/**
+ * A payment processor that sends us webhooks
+ */
+export interface WebhookProvider {
+  // Used in the route (/webhooks/:provider) and stored on records
+  name: string;
+  // Scheme, keyring and replay protection for this provider's signatures
+  signature: SignatureVerificationOptions;
+  // Source addresses allowed to send webhooks (any when unset)
+  ipAllowlist?: IpAllowlist;
+  // Turn the provider's native payload into the canonical WebhookPayload
+  mapPayload(body: any): WebhookPayload;
+}
+
+export class UnknownProviderError extends Error {
+  constructor(public provider: string) {
+    super(`Unknown webhook provider: ${provider}`);
+    this.name = "UnknownProviderError";
+  }
+}
+
+export class ProviderRegistry {
+  private readonly providers = new Map<string, WebhookProvider>();
+
+  /**
+   * Register (or replace) a provider
+   */
+  register(provider: WebhookProvider): void {
+    this.providers.set(provider.name.toLowerCase(), provider);
+  }
+
+  /**
+   * Look up a provider by name
+   */
+  get(name: string): WebhookProvider {
+    const provider = this.providers.get(name.toLowerCase());
+    if (!provider) {
+      throw new UnknownProviderError(name);
+    }
+    return provider;
+  }
+
+  /**
+   * Names of all registered providers
+   */
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(defaultProvider);
+
+// Optional providers are only registered when their secrets are configured
+const stripeProvider = createStripeProvider();
+if (stripeProvider) {
+  providerRegistry.register(stripeProvider);
+}
@@ -0,0 +1,191 @@
+// src/providers/stripeProvider.ts
+import * as dotenv from "dotenv";
+import { loadSigningKeys } from "../config/signingKeys";
+import { loadIpAllowlist } from "../config/webhookLimits";
+import { getCurrency } from "../config/currencies";
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { WebhookPayload } from "../validators/transactionValidator";
+import { Decimal } from "../utils/decimal";
+import type { WebhookProvider } from "./providerRegistry";
+
+dotenv.config();
+
+// Stripe PaymentIntent status -> our TransactionStatus
+const STATUS_MAP: Record<string, TransactionStatus> = {
+  succeeded: TransactionStatus.COMPLETED,
+  processing: TransactionStatus.PENDING,
+  requires_payment_method: TransactionStatus.PENDING,
+  requires_confirmation: TransactionStatus.PENDING,
+  requires_action: TransactionStatus.PENDING,
+  requires_capture: TransactionStatus.PENDING,
+  canceled: TransactionStatus.CANCELLED,
+};
+
+// Stripe event type -> our event type (other payment_intent.* events are
+// status updates; anything else is passed through and ignored)
+const EVENT_TYPE_MAP: Record<string, string> = {
+  "payment_intent.created": "payment.created",
+  "payment_intent.canceled": "payment.cancelled",
+  "charge.refunded": "payment.refunded",
+  "charge.dispute.created": "payment.chargeback",
+  "charge.dispute.closed": "payment.dispute_closed",
+};
+
+// Stripe status of a closed dispute -> our dispute outcome (a closed
+// inquiry moved no money, like a won dispute)
+const DISPUTE_OUTCOME_MAP: Record<string, string> = {
+  won: "won",
+  warning_closed: "won",
+  lost: "lost",
+};
+
+const FOLLOW_UP_EVENT_TYPES = [
+  "payment.refunded",
+  "payment.chargeback",
+  "payment.dispute_closed",
+];
+
+const mapEventType = (type: any): any => {
+  if (typeof type !== "string") {
+    return type;
+  }
+  if (EVENT_TYPE_MAP[type]) {
+    return EVENT_TYPE_MAP[type];
+  }
+  return type.startsWith("payment_intent.") ? "payment.updated" : type;
+};
+
+/**
+ * Stripe amounts are in the smallest currency unit (cents, yen, fils)
+ */
+const fromMinorUnits = (amount: any, currency: any): any => {
+  const minorUnits = getCurrency(currency)?.minor_units;
+  if (typeof amount !== "number" || minorUnits === undefined) {
+    return amount;
+  }
+  return Decimal.from(`${amount}e-${minorUnits}`).toNumber();
+};
+
+/**
+ * Amount of the refund a charge.refunded event reports, in minor units.
+ * amount_refunded is the charge's running total, so use its increase over
+ * previous_attributes, else the newest refund of the charge.
+ */
+const refundAmount = (body: any): any => {
+  const charge = body?.data?.object ?? {};
+  const previous = body?.data?.previous_attributes?.amount_refunded;
+  if (
+    typeof charge.amount_refunded === "number" &&
+    typeof previous === "number"
+  ) {
+    return charge.amount_refunded - previous;
+  }
+
+  const refunds: any[] = Array.isArray(charge.refunds?.data)
+    ? charge.refunds.data
+    : [];
+  if (refunds.length > 0) {
+    return refunds.reduce((newest, refund) =>
+      (refund?.created ?? 0) > (newest?.created ?? 0) ? refund : newest
+    )?.amount;
+  }
+
+  // Only right for the first refund of the charge
+  return charge.amount_refunded;
+};
+
+/**
+ * Map a Stripe Charge or Dispute event to the canonical payload; the
+ * transaction is the PaymentIntent the object belongs to
+ */
+const mapStripeFollowUp = (body: any, eventType: string): WebhookPayload => {
+  const object = body?.data?.object ?? {};
+
+  return {
+    event_id: body?.id,
+    event_type: eventType,
+    timestamp: body?.created
+      ? new Date(body.created * 1000).toISOString()
+      : new Date().toISOString(),
+    data: {
+      transaction_id: object.payment_intent,
+      amount: fromMinorUnits(
+        object.object === "charge" ? refundAmount(body) : object.amount,
+        object.currency
+      ),
+      currency: object.currency?.toUpperCase(),
+      reason: object.reason ?? undefined,
+      outcome:
+        eventType === "payment.dispute_closed"
+          ? DISPUTE_OUTCOME_MAP[object.status] ?? object.status
+          : undefined,
+      metadata: object.metadata,
+    } as WebhookPayload["data"],
+  };
+};
+
+/**
+ * Map a Stripe PaymentIntent event to the canonical payload.
+ * Party details are expected in the PaymentIntent metadata
+ * (sender_id, sender_name, sender_email, sender_country, receiver_*).
+ */
+export const mapStripePayload = (body: any): WebhookPayload => {
+  const eventType = mapEventType(body?.type);
+  if (FOLLOW_UP_EVENT_TYPES.includes(eventType)) {
+    return mapStripeFollowUp(body, eventType);
+  }
+
+  const intent = body?.data?.object ?? {};
+  const metadata = intent.metadata ?? {};
+
+  return {
+    event_id: body?.id,
+    event_type: eventType,
+    timestamp: body?.created
+      ? new Date(body.created * 1000).toISOString()
+      : new Date().toISOString(),
+    data: {
+      transaction_id: intent.id,
+      amount: fromMinorUnits(intent.amount, intent.currency),
+      currency: intent.currency?.toUpperCase(),
+      sender: {
+        id: intent.customer ?? metadata.sender_id,
+        name: metadata.sender_name,
+        email: intent.receipt_email ?? metadata.sender_email,
+        country: metadata.sender_country,
+      },
+      receiver: {
+        id: metadata.receiver_id,
+        name: metadata.receiver_name,
+        email: metadata.receiver_email,
+        country: metadata.receiver_country,
+      },
+      status: STATUS_MAP[intent.status] ?? intent.status,
+      payment_method: intent.payment_method_types?.[0] ?? "card",
+      metadata,
+    },
+  };
+};
+
+/**
+ * Stripe provider, signed with STRIPE_WEBHOOK_SECRET / STRIPE_WEBHOOK_SIGNING_KEYS.
+ * Stripe's webhook source IPs can be listed in STRIPE_WEBHOOK_IP_ALLOWLIST.
+ * Returns null when no Stripe secret is configured.
+ */
+export const createStripeProvider = (): WebhookProvider | null => {
+  const keys = loadSigningKeys("STRIPE_WEBHOOK");
+  if (keys.length === 0) {
+    return null;
+  }
+
+  return {
+    name: "stripe",
+    signature: {
+      scheme: "stripe",
+      requireTimestamp: true,
+      keys,
+    },
+    ipAllowlist: loadIpAllowlist("STRIPE_WEBHOOK"),
+    mapPayload: mapStripePayload,
+  };
+};
@@ -0,0 +1,369 @@
+import express, { Request, Response } from "express";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import {
+  deadLetterService,
+  FailedWebhookFilters,
+  FailedWebhookNotFoundError,
+} from "../services/deadLetterService";
+import { FailedWebhookStatus } from "../entities/FailedWebhook.entity";
+import { exchangeRateService } from "../services/exchangeRateService";
+import { outboxService } from "../services/outboxService";
+import { dataProtectionService } from "../services/dataProtectionService";
+import {
+  dataProtectionConfig,
+  retentionConfig,
+} from "../config/dataProtection";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// All admin endpoints require authentication
+router.use(requireAdminAuth);
+
+/**
+ * Parse list filters from query string or request body
+ * @returns Filters, or an error message when a value is invalid
+ */
+const parseFilters = (
+  source: Record<string, any>
+): { filters?: FailedWebhookFilters; error?: string } => {
+  const filters: FailedWebhookFilters = {};
+
+  for (const field of ["from", "to"] as const) {
+    if (source[field]) {
+      const date = new Date(source[field]);
+      if (isNaN(date.getTime())) {
+        return { error: `${field} must be a valid ISO 8601 date` };
+      }
+      filters[field] = date;
+    }
+  }
+
+  if (source.status) {
+    if (
+      !Object.values(FailedWebhookStatus).includes(
+        source.status as FailedWebhookStatus
+      )
+    ) {
+      return {
+        error: `status must be one of: ${Object.values(
+          FailedWebhookStatus
+        ).join(", ")}`,
+      };
+    }
+    filters.status = source.status as FailedWebhookStatus;
+  }
+
+  for (const field of ["limit", "offset"] as const) {
+    if (source[field] !== undefined) {
+      const value = parseInt(source[field]);
+      if (isNaN(value) || value < 0) {
+        return { error: `${field} must be a non-negative integer` };
+      }
+      filters[field] = value;
+    }
+  }
+
+  if (source.error_type) filters.error_type = String(source.error_type);
+  if (source.provider) filters.provider = String(source.provider);
+  if (source.event_id) filters.event_id = String(source.event_id);
+
+  return { filters };
+};
+
+/**
+ * GET /admin/failed-webhooks
+ * List failed webhooks (filters: error_type, status, provider, event_id,
+ * from, to, limit, offset)
+ */
+router.get("/failed-webhooks", async (req: Request, res: Response) => {
+  const { filters, error } = parseFilters(req.query);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const { items, total } = await deadLetterService.list(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: items.map(({ payload, ...item }) => item),
+      total,
+    });
+  } catch (err) {
+    logger.error("Failed to list failed webhooks", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list failed webhooks",
+    });
+  }
+});
+
+/**
+ * POST /admin/failed-webhooks/replay
+ * Replay several failed webhooks, by `ids` or by filters
+ * (error_type, provider, from, to, limit) over status "failed"
+ */
+router.post("/failed-webhooks/replay", async (req: Request, res: Response) => {
+  try {
+    let ids: string[];
+
+    if (req.body?.ids !== undefined) {
+      if (
+        !Array.isArray(req.body.ids) ||
+        req.body.ids.length === 0 ||
+        !req.body.ids.every((id: any) => UUID_REGEX.test(String(id)))
+      ) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: "ids must be a non-empty array of UUIDs",
+        });
+      }
+      ids = req.body.ids.map(String);
+    } else {
+      const { filters, error } = parseFilters(req.body ?? {});
+      if (error) {
+        return res
+          .status(400)
+          .json({ error: "Validation Error", message: error });
+      }
+
+      const { items } = await deadLetterService.list({
+        ...filters,
+        status: FailedWebhookStatus.FAILED,
+      });
+      ids = items.map((item) => item.id);
+    }
+
+    const results = ids.length ? await deadLetterService.replayMany(ids) : [];
+
+    return res.status(200).json({
+      success: true,
+      data: results,
+      summary: {
+        total: results.length,
+        replayed: results.filter((r) => r.status === "replayed").length,
+        duplicate: results.filter((r) => r.status === "duplicate").length,
+        failed: results.filter((r) => r.status === "failed").length,
+      },
+    });
+  } catch (err) {
+    logger.error("Failed to replay webhooks", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to replay webhooks",
+    });
+  }
+});
+
+/**
+ * GET /admin/failed-webhooks/:id
+ * Failed webhook with original payload and audit trail
+ */
+router.get("/failed-webhooks/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    const { failedWebhook, auditTrail } = await deadLetterService.get(id);
+
+    return res.status(200).json({
+      success: true,
+      data: {
+        ...failedWebhook,
+        audit_trail: auditTrail,
+      },
+    });
+  } catch (err) {
+    if (err instanceof FailedWebhookNotFoundError) {
+      return res.status(404).json({ error: "Not Found", message: err.message });
+    }
+
+    logger.error("Failed to get failed webhook", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to get failed webhook",
+    });
+  }
+});
+
+/**
+ * POST /admin/failed-webhooks/:id/replay
+ * Replay one failed webhook
+ */
+router.post(
+  "/failed-webhooks/:id/replay",
+  async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    if (!UUID_REGEX.test(id)) {
+      return res
+        .status(400)
+        .json({ error: "Validation Error", message: "id must be a UUID" });
+    }
+
+    try {
+      const result = await deadLetterService.replay(id);
+
+      return res.status(200).json({
+        success: result.status !== "failed",
+        data: result,
+      });
+    } catch (err) {
+      if (err instanceof FailedWebhookNotFoundError) {
+        return res
+          .status(404)
+          .json({ error: "Not Found", message: err.message });
+      }
+
+      logger.error("Failed to replay webhook", { error: err });
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to replay webhook",
+      });
+    }
+  }
+);
+
+/**
+ * POST /admin/conversions/retry
+ * Convert transactions stored as pending conversion once their rate exists
+ * (body: optional limit = rows read per batch, default 100)
+ */
+router.post("/conversions/retry", async (req: Request, res: Response) => {
+  const limit =
+    req.body?.limit !== undefined ? parseInt(req.body.limit) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+    return res.status(400).json({
+      error: "Validation Error",
+      message: "limit must be a positive integer",
+    });
+  }
+
+  try {
+    const result = await exchangeRateService.convertPending(limit);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (err) {
+    logger.error("Failed to retry pending conversions", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to retry pending conversions",
+    });
+  }
+});
+
+/**
+ * GET /admin/outbox
+ * Events written to the outbox and not yet published
+ */
+router.get("/outbox", async (req: Request, res: Response) => {
+  try {
+    const backlog = await outboxService.getBacklog();
+
+    return res.status(200).json({
+      success: true,
+      data: backlog,
+    });
+  } catch (err) {
+    logger.error("Failed to read outbox backlog", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to read outbox backlog",
+    });
+  }
+});
+
+/**
+ * GET /admin/data-protection
+ * Encryption keyring (versions only), encrypted fields and retention settings
+ */
+router.get("/data-protection", (req: Request, res: Response) => {
+  return res.status(200).json({
+    success: true,
+    data: {
+      encryption_enabled: dataProtectionConfig.keys.length > 0,
+      key_versions: dataProtectionConfig.keys.map((k) => k.version),
+      active_key_version: dataProtectionConfig.activeKeyVersion,
+      hashed_lookups: dataProtectionConfig.hashKey !== null,
+      encrypted_fields: dataProtectionConfig.encryptedFields,
+      redaction_policy: dataProtectionConfig.redactionPolicy,
+      retention: {
+        audit_retention_days: retentionConfig.auditRetentionDays,
+        mode: retentionConfig.mode,
+      },
+    },
+  });
+});
+
+/**
+ * POST /admin/data-protection/reencrypt
+ * Re-encrypt one batch per table with the active key (after a key
+ * rotation or a change of PII_ENCRYPTED_FIELDS). Call until every
+ * count is 0 before removing an old key.
+ */
+router.post(
+  "/data-protection/reencrypt",
+  async (req: Request, res: Response) => {
+    const limit = req.body?.limit;
+    if (
+      limit !== undefined &&
+      (!Number.isInteger(limit) || limit < 1 || limit > 10000)
+    ) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "limit must be an integer between 1 and 10000",
+      });
+    }
+
+    try {
+      const rewritten = await dataProtectionService.reencrypt(limit);
+
+      return res.status(200).json({
+        success: true,
+        data: { rewritten },
+      });
+    } catch (err) {
+      logger.error("Failed to re-encrypt fields", { error: err });
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to re-encrypt fields",
+      });
+    }
+  }
+);
+
+/**
+ * POST /admin/data-protection/retention
+ * Run the audit log retention job now
+ */
+router.post(
+  "/data-protection/retention",
+  async (req: Request, res: Response) => {
+    try {
+      const result = await dataProtectionService.applyAuditRetention();
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      logger.error("Failed to apply audit retention", { error: err });
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to apply audit retention",
+      });
+    }
+  }
+);
+
+export default router;
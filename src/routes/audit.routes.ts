@@ -0,0 +1,133 @@
+import express, { Request, Response } from "express";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import { auditService, AuditLogFilters } from "../services/auditService";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+// Audit data includes payloads - all endpoints require authentication
+router.use(requireAdminAuth);
+
+/**
+ * Parse search filters from the query string
+ * @returns Filters, or an error message when a value is invalid
+ */
+const parseFilters = (
+  query: Record<string, any>
+): { filters?: AuditLogFilters; error?: string } => {
+  const filters: AuditLogFilters = {};
+
+  for (const field of ["from", "to"] as const) {
+    if (query[field]) {
+      const date = new Date(query[field]);
+      if (isNaN(date.getTime())) {
+        return { error: `${field} must be a valid ISO 8601 date` };
+      }
+      filters[field] = date;
+    }
+  }
+
+  for (const field of ["limit", "offset"] as const) {
+    if (query[field] !== undefined) {
+      const value = parseInt(query[field]);
+      if (isNaN(value) || value < 0) {
+        return { error: `${field} must be a non-negative integer` };
+      }
+      filters[field] = value;
+    }
+  }
+
+  for (const field of [
+    "status",
+    "event_type",
+    "provider",
+    "event_id",
+    "correlation_id",
+    "error",
+  ] as const) {
+    if (query[field]) filters[field] = String(query[field]);
+  }
+
+  return { filters };
+};
+
+/**
+ * GET /audit-logs
+ * Search audit entries (filters: status, event_type, provider, event_id,
+ * correlation_id, error (text in error message), from, to, limit, offset)
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { filters, error } = parseFilters(req.query);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const { items, total } = await auditService.search(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      total,
+    });
+  } catch (err) {
+    logger.error("Failed to search audit logs", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to search audit logs",
+    });
+  }
+});
+
+/**
+ * GET /audit-logs/timeline?event_id=... | ?transaction_id=...
+ * Every delivery attempt of an event (or of all events of a transaction)
+ * with stage timings, plus the final transaction state (ids are per
+ * provider: optional provider, default: default)
+ */
+router.get("/timeline", async (req: Request, res: Response) => {
+  const { transaction_id, event_id } = req.query;
+  const provider = String(req.query.provider ?? DEFAULT_PROVIDER).toLowerCase();
+
+  if (!transaction_id && !event_id) {
+    return res.status(400).json({
+      error: "Validation Error",
+      message: "transaction_id or event_id is required",
+    });
+  }
+
+  try {
+    const timeline = transaction_id
+      ? await auditService.getTimelineByTransactionId(
+          String(transaction_id),
+          provider
+        )
+      : await auditService.getTimelineByEventId(String(event_id), provider);
+
+    if (
+      !timeline ||
+      (!timeline.transaction && timeline.deliveries.length === 0)
+    ) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: transaction_id
+          ? "Transaction not found"
+          : "No audit entries found for event",
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: timeline,
+    });
+  } catch (err) {
+    logger.error("Failed to build audit timeline", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to build audit timeline",
+    });
+  }
+});
+
+export default router;
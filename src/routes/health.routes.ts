@@ -0,0 +1,33 @@
+import express, { Request, Response } from "express";
+import { healthService } from "../services/healthService";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+/**
+ * GET /health/live
+ * Liveness probe: 200 while the process runs (no dependency checks)
+ */
+router.get("/live", (req: Request, res: Response) => {
+  res.status(200).json(healthService.liveness());
+});
+
+/**
+ * GET /health/ready
+ * Readiness probe: 200 when the service can take webhooks, 503 with the
+ * failed checks otherwise
+ */
+router.get("/ready", async (req: Request, res: Response) => {
+  try {
+    const report = await healthService.readiness();
+    return res.status(report.status === "healthy" ? 200 : 503).json(report);
+  } catch (err) {
+    logger.error("Failed to run readiness checks", { error: err });
+    return res.status(503).json({
+      error: "Service Unavailable",
+      message: "Failed to run readiness checks",
+    });
+  }
+});
+
+export default router;
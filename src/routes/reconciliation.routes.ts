@@ -0,0 +1,322 @@
+import express, { Request, Response } from "express";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import {
+  reconciliationService,
+  DiscrepancyAlreadyResolvedError,
+  DiscrepancyFilters,
+  ReconciliationRunFilters,
+} from "../services/reconciliationService";
+import {
+  DiscrepancyStatus,
+  DiscrepancyType,
+} from "../entities/ReconciliationDiscrepancy.entity";
+import {
+  providerRegistry,
+  UnknownProviderError,
+} from "../providers/providerRegistry";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+import {
+  parseSettlementPeriod,
+  parseSettlementRecords,
+  parseSettlementReport,
+  SettlementRecord,
+  SettlementReportError,
+  SettlementReportFormat,
+} from "../utils/settlementReport";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// All reconciliation endpoints require authentication
+router.use(requireAdminAuth);
+
+/**
+ * Parse limit and offset from the query string
+ * @returns An error message when a value is invalid
+ */
+const parsePaging = (
+  query: Record<string, any>,
+  filters: { limit?: number; offset?: number }
+): string | undefined => {
+  for (const field of ["limit", "offset"] as const) {
+    if (query[field] !== undefined) {
+      const value = parseInt(String(query[field]));
+      if (isNaN(value) || value < 0) {
+        return `${field} must be a non-negative integer`;
+      }
+      filters[field] = value;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * POST /admin/reconciliation/runs
+ * Import a settlement report and reconcile it against our transactions.
+ * Body: the report as text/csv, or JSON (array of records or
+ * { "records": [...] }).
+ * Query: provider (default: default), source, period_start and period_end
+ * (ISO 8601; enables the missing-on-their-side check)
+ */
+router.post("/runs", async (req: Request, res: Response) => {
+  const provider = String(req.query.provider ?? DEFAULT_PROVIDER);
+  const source =
+    req.query.source !== undefined ? String(req.query.source) : undefined;
+
+  let format: SettlementReportFormat;
+  let records: SettlementRecord[];
+  let period: { period_start?: Date; period_end?: Date };
+
+  try {
+    providerRegistry.get(provider);
+
+    if (typeof req.body === "string") {
+      format = "csv";
+      records = parseSettlementReport(req.body, "csv");
+    } else if (req.is("application/json")) {
+      format = "json";
+      records = parseSettlementRecords(req.body);
+    } else {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "Report must be sent as text/csv or application/json",
+      });
+    }
+
+    period = parseSettlementPeriod(
+      req.query.period_start as string | undefined,
+      req.query.period_end as string | undefined
+    );
+  } catch (err) {
+    if (
+      err instanceof SettlementReportError ||
+      err instanceof UnknownProviderError
+    ) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: err.message,
+      });
+    }
+
+    logger.error("Failed to read settlement report", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to read settlement report",
+    });
+  }
+
+  try {
+    const run = await reconciliationService.reconcile({
+      provider: provider.toLowerCase(),
+      format,
+      records,
+      source,
+      ...period,
+    });
+
+    return res.status(201).json({
+      success: true,
+      data: run,
+    });
+  } catch (err) {
+    logger.error("Failed to run reconciliation", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to run reconciliation",
+    });
+  }
+});
+
+/**
+ * GET /admin/reconciliation/runs
+ * Reconciliation runs, newest first (filters: provider, limit, offset)
+ */
+router.get("/runs", async (req: Request, res: Response) => {
+  const filters: ReconciliationRunFilters = {};
+
+  if (req.query.provider) {
+    filters.provider = String(req.query.provider).toLowerCase();
+  }
+
+  const error = parsePaging(req.query, filters);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const { items, total } = await reconciliationService.listRuns(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      total,
+    });
+  } catch (err) {
+    logger.error("Failed to list reconciliation runs", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list reconciliation runs",
+    });
+  }
+});
+
+/**
+ * GET /admin/reconciliation/runs/:id
+ * A run with its discrepancy counts
+ */
+router.get("/runs/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    const run = await reconciliationService.getRun(id);
+    if (!run) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Reconciliation run not found",
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: run,
+    });
+  } catch (err) {
+    logger.error("Failed to get reconciliation run", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to get reconciliation run",
+    });
+  }
+});
+
+/**
+ * GET /admin/reconciliation/discrepancies
+ * Discrepancies (filters: run_id, type, status, transaction_id, limit,
+ * offset)
+ */
+router.get("/discrepancies", async (req: Request, res: Response) => {
+  const filters: DiscrepancyFilters = {};
+
+  if (req.query.run_id) {
+    if (!UUID_REGEX.test(String(req.query.run_id))) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "run_id must be a UUID",
+      });
+    }
+    filters.run_id = String(req.query.run_id);
+  }
+
+  if (req.query.type) {
+    const types = Object.values(DiscrepancyType);
+    if (!types.includes(req.query.type as DiscrepancyType)) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `type must be one of: ${types.join(", ")}`,
+      });
+    }
+    filters.type = req.query.type as DiscrepancyType;
+  }
+
+  if (req.query.status) {
+    const statuses = Object.values(DiscrepancyStatus);
+    if (!statuses.includes(req.query.status as DiscrepancyStatus)) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `status must be one of: ${statuses.join(", ")}`,
+      });
+    }
+    filters.status = req.query.status as DiscrepancyStatus;
+  }
+
+  if (req.query.transaction_id) {
+    filters.transaction_id = String(req.query.transaction_id);
+  }
+
+  const error = parsePaging(req.query, filters);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const { items, total } =
+      await reconciliationService.listDiscrepancies(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      total,
+    });
+  } catch (err) {
+    logger.error("Failed to list discrepancies", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list discrepancies",
+    });
+  }
+});
+
+/**
+ * POST /admin/reconciliation/discrepancies/:id/resolve
+ * Mark a discrepancy as resolved (body: optional note)
+ */
+router.post(
+  "/discrepancies/:id/resolve",
+  async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    if (!UUID_REGEX.test(id)) {
+      return res
+        .status(400)
+        .json({ error: "Validation Error", message: "id must be a UUID" });
+    }
+
+    const note = req.body?.note;
+    if (note !== undefined && typeof note !== "string") {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "note must be a string",
+      });
+    }
+
+    try {
+      const discrepancy = await reconciliationService.resolveDiscrepancy(
+        id,
+        note
+      );
+      if (!discrepancy) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "Discrepancy not found",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: discrepancy,
+      });
+    } catch (err) {
+      if (err instanceof DiscrepancyAlreadyResolvedError) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: err.message,
+        });
+      }
+
+      logger.error("Failed to resolve discrepancy", { error: err });
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: "Failed to resolve discrepancy",
+      });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,193 @@
+import express, { Request, Response } from "express";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import {
+  screeningService,
+  ScreeningResultFilters,
+  ScreeningResultNotOpenError,
+  ScreeningReviewDecision,
+} from "../services/screeningService";
+import { ScreeningResultStatus } from "../entities/ScreeningResult.entity";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// All screening endpoints require authentication
+router.use(requireAdminAuth);
+
+/**
+ * GET /admin/screening/lists
+ * Loaded watchlists with their entry counts
+ */
+router.get("/lists", async (req: Request, res: Response) => {
+  try {
+    const lists = screeningService.getWatchlists();
+
+    return res.status(200).json({
+      success: true,
+      data: lists.map((list) => ({
+        name: list.name,
+        source: list.source,
+        entries: list.entries.length,
+      })),
+    });
+  } catch (err) {
+    logger.error("Failed to load watchlists", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to load watchlists",
+    });
+  }
+});
+
+/**
+ * GET /admin/screening/results
+ * Screening hits, newest first (filters: status, transaction_id, limit,
+ * offset)
+ */
+router.get("/results", async (req: Request, res: Response) => {
+  const filters: ScreeningResultFilters = {};
+
+  if (req.query.status) {
+    const statuses = Object.values(ScreeningResultStatus);
+    if (!statuses.includes(req.query.status as ScreeningResultStatus)) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `status must be one of: ${statuses.join(", ")}`,
+      });
+    }
+    filters.status = req.query.status as ScreeningResultStatus;
+  }
+
+  if (req.query.transaction_id) {
+    filters.transaction_id = String(req.query.transaction_id);
+  }
+
+  for (const field of ["limit", "offset"] as const) {
+    if (req.query[field] !== undefined) {
+      const value = parseInt(String(req.query[field]));
+      if (isNaN(value) || value < 0) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: `${field} must be a non-negative integer`,
+        });
+      }
+      filters[field] = value;
+    }
+  }
+
+  try {
+    const { items, total } = await screeningService.list(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      total,
+    });
+  } catch (err) {
+    logger.error("Failed to list screening results", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list screening results",
+    });
+  }
+});
+
+/**
+ * GET /admin/screening/results/:id
+ */
+router.get("/results/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    const result = await screeningService.getById(id);
+    if (!result) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Screening result not found",
+      });
+    }
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (err) {
+    logger.error("Failed to get screening result", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to get screening result",
+    });
+  }
+});
+
+/**
+ * Clear or confirm an open hit (body: optional note)
+ */
+const reviewResult =
+  (decision: ScreeningReviewDecision) =>
+  async (req: Request, res: Response) => {
+    const id = req.params.id as string;
+    if (!UUID_REGEX.test(id)) {
+      return res
+        .status(400)
+        .json({ error: "Validation Error", message: "id must be a UUID" });
+    }
+
+    const note = req.body?.note;
+    if (note !== undefined && typeof note !== "string") {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: "note must be a string",
+      });
+    }
+
+    try {
+      const result = await screeningService.review(id, decision, note);
+      if (!result) {
+        return res.status(404).json({
+          error: "Not Found",
+          message: "Screening result not found",
+        });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (err) {
+      if (err instanceof ScreeningResultNotOpenError) {
+        return res.status(409).json({
+          error: "Conflict",
+          message: err.message,
+        });
+      }
+
+      logger.error(`Failed to ${decision} screening result`, { error: err });
+      return res.status(500).json({
+        error: "Internal Server Error",
+        message: `Failed to ${decision} screening result`,
+      });
+    }
+  };
+
+/**
+ * POST /admin/screening/results/:id/clear
+ * False positive: releases the held transaction once no hits are open
+ */
+router.post("/results/:id/clear", reviewResult("clear"));
+
+/**
+ * POST /admin/screening/results/:id/confirm
+ * True match: fails the held transaction
+ */
+router.post("/results/:id/confirm", reviewResult("confirm"));
+
+export default router;
@@ -0,0 +1,346 @@
+import express, { Request, Response } from "express";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import {
+  subscriptionService,
+  SubscriptionInput,
+  DeliveryFilters,
+  SubscriptionNotFoundError,
+  DeliveryNotFoundError,
+} from "../services/subscriptionService";
+import { OutboundEventType } from "../entities/Subscription.entity";
+import { DeliveryStatus } from "../entities/SubscriptionDelivery.entity";
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { getCurrency } from "../config/currencies";
+import { Decimal } from "../utils/decimal";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Shorter secrets are too easy to brute-force
+const MIN_SECRET_LENGTH = 16;
+
+// All subscription endpoints require authentication
+router.use(requireAdminAuth);
+
+/**
+ * Parse a subscription from the request body
+ * @param partial Only validate the fields present (updates)
+ * @returns Input, or an error message when a value is invalid
+ */
+const parseSubscriptionInput = (
+  body: Record<string, any>,
+  partial: boolean
+): { input?: Partial<SubscriptionInput>; error?: string } => {
+  const input: Partial<SubscriptionInput> = {};
+
+  if (body.name !== undefined || !partial) {
+    if (typeof body.name !== "string" || body.name.trim() === "") {
+      return { error: "name is required" };
+    }
+    input.name = body.name.trim();
+  }
+
+  if (body.url !== undefined || !partial) {
+    let url: URL | null = null;
+    try {
+      url = new URL(body.url);
+    } catch (error) {
+      url = null;
+    }
+    if (!url || !["http:", "https:"].includes(url.protocol)) {
+      return { error: "url must be an http(s) URL" };
+    }
+    input.url = url.toString();
+  }
+
+  if (body.secret !== undefined) {
+    if (
+      typeof body.secret !== "string" ||
+      body.secret.length < MIN_SECRET_LENGTH
+    ) {
+      return {
+        error: `secret must be a string of at least ${MIN_SECRET_LENGTH} characters`,
+      };
+    }
+    input.secret = body.secret;
+  }
+
+  const lists = [
+    ["event_types", Object.values(OutboundEventType)],
+    ["statuses", Object.values(TransactionStatus)],
+  ] as const;
+  for (const [field, allowed] of lists) {
+    if (body[field] === undefined) continue;
+    if (body[field] === null) {
+      input[field] = null;
+      continue;
+    }
+    if (
+      !Array.isArray(body[field]) ||
+      !body[field].every((value: any) => (allowed as string[]).includes(value))
+    ) {
+      return {
+        error: `${field} must be an array of: ${allowed.join(", ")}`,
+      };
+    }
+    input[field] = body[field];
+  }
+
+  if (body.currencies !== undefined) {
+    if (body.currencies === null) {
+      input.currencies = null;
+    } else if (
+      !Array.isArray(body.currencies) ||
+      !body.currencies.every(
+        (code: any) => typeof code === "string" && getCurrency(code.toUpperCase())
+      )
+    ) {
+      return { error: "currencies must be an array of ISO 4217 codes" };
+    } else {
+      input.currencies = body.currencies.map((code: string) =>
+        code.toUpperCase()
+      );
+    }
+  }
+
+  if (body.min_amount !== undefined) {
+    if (body.min_amount === null) {
+      input.min_amount = null;
+    } else if (
+      !Decimal.isValid(body.min_amount) ||
+      Decimal.from(body.min_amount).isNegative()
+    ) {
+      return { error: "min_amount must be a non-negative number" };
+    } else {
+      input.min_amount = Decimal.from(body.min_amount).toString();
+    }
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== "boolean") {
+      return { error: "active must be a boolean" };
+    }
+    input.active = body.active;
+  }
+
+  return { input };
+};
+
+/**
+ * Send a 404 for unknown subscriptions or deliveries, 500 otherwise
+ */
+const sendError = (res: Response, err: unknown, action: string) => {
+  if (
+    err instanceof SubscriptionNotFoundError ||
+    err instanceof DeliveryNotFoundError
+  ) {
+    return res.status(404).json({ error: "Not Found", message: err.message });
+  }
+
+  logger.error(`Failed to ${action}`, { error: err });
+  return res.status(500).json({
+    error: "Internal Server Error",
+    message: `Failed to ${action}`,
+  });
+};
+
+/**
+ * POST /admin/subscriptions
+ * Register a subscriber (body: name, url, secret?, event_types?, statuses?,
+ * currencies?, min_amount?, active?). The secret is only returned here.
+ */
+router.post("/", async (req: Request, res: Response) => {
+  const { input, error } = parseSubscriptionInput(req.body ?? {}, false);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const { subscription, secret } = await subscriptionService.create(
+      input as SubscriptionInput
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: { ...subscription, secret },
+    });
+  } catch (err) {
+    return sendError(res, err, "create subscription");
+  }
+});
+
+/**
+ * GET /admin/subscriptions
+ * List subscriptions
+ */
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const subscriptions = await subscriptionService.list();
+
+    return res.status(200).json({
+      success: true,
+      data: subscriptions,
+    });
+  } catch (err) {
+    return sendError(res, err, "list subscriptions");
+  }
+});
+
+/**
+ * POST /admin/subscriptions/deliveries/:deliveryId/redeliver
+ * Queue a delivery again (e.g. after attempts were exhausted)
+ */
+router.post(
+  "/deliveries/:deliveryId/redeliver",
+  async (req: Request, res: Response) => {
+    const deliveryId = req.params.deliveryId as string;
+    if (!UUID_REGEX.test(deliveryId)) {
+      return res
+        .status(400)
+        .json({ error: "Validation Error", message: "id must be a UUID" });
+    }
+
+    try {
+      const delivery = await subscriptionService.redeliver(deliveryId);
+
+      return res.status(200).json({
+        success: true,
+        data: delivery,
+      });
+    } catch (err) {
+      return sendError(res, err, "redeliver");
+    }
+  }
+);
+
+/**
+ * GET /admin/subscriptions/:id
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    const subscription = await subscriptionService.get(id);
+
+    return res.status(200).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (err) {
+    return sendError(res, err, "get subscription");
+  }
+});
+
+/**
+ * PATCH /admin/subscriptions/:id
+ * Change any field given in the body (null clears a filter)
+ */
+router.patch("/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  const { input, error } = parseSubscriptionInput(req.body ?? {}, true);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const subscription = await subscriptionService.update(id, input!);
+
+    return res.status(200).json({
+      success: true,
+      data: subscription,
+    });
+  } catch (err) {
+    return sendError(res, err, "update subscription");
+  }
+});
+
+/**
+ * DELETE /admin/subscriptions/:id
+ * Remove a subscription and its delivery log
+ */
+router.delete("/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    await subscriptionService.delete(id);
+
+    return res.status(200).json({ success: true });
+  } catch (err) {
+    return sendError(res, err, "delete subscription");
+  }
+});
+
+/**
+ * GET /admin/subscriptions/:id/deliveries
+ * Delivery log, newest first (filters: status, limit, offset)
+ */
+router.get("/:id/deliveries", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  const filters: DeliveryFilters = {};
+
+  if (req.query.status) {
+    const statuses = Object.values(DeliveryStatus);
+    if (!statuses.includes(req.query.status as DeliveryStatus)) {
+      return res.status(400).json({
+        error: "Validation Error",
+        message: `status must be one of: ${statuses.join(", ")}`,
+      });
+    }
+    filters.status = req.query.status as DeliveryStatus;
+  }
+
+  for (const field of ["limit", "offset"] as const) {
+    if (req.query[field] !== undefined) {
+      const value = parseInt(String(req.query[field]));
+      if (isNaN(value) || value < 0) {
+        return res.status(400).json({
+          error: "Validation Error",
+          message: `${field} must be a non-negative integer`,
+        });
+      }
+      filters[field] = value;
+    }
+  }
+
+  try {
+    const { items, total } = await subscriptionService.listDeliveries(
+      id,
+      filters
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      total,
+    });
+  } catch (err) {
+    return sendError(res, err, "list deliveries");
+  }
+});
+
+export default router;
@@ -0,0 +1,393 @@
+import express, { Request, Response } from "express";
+import { requireAdminAuth } from "../middleware/adminAuth";
+import {
+  transactionQueryService,
+  TransactionFilters,
+  TransactionListOptions,
+  InvalidCursorError,
+  FilterUnavailableError,
+} from "../services/transactionQueryService";
+import { feeScheduleService } from "../services/feeScheduleService";
+import { refundService } from "../services/refundService";
+import {
+  riskService,
+  ReviewDecision,
+  TransactionNotUnderReviewError,
+  OpenScreeningHitsError,
+} from "../services/riskService";
+import {
+  Transaction,
+  TransactionStatus,
+  RiskDecision,
+} from "../entities/Transaction.entity";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+import { logger } from "../utils/logger";
+
+const router = express.Router();
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// All transaction endpoints require authentication
+router.use(requireAdminAuth);
+
+/**
+ * Parse filters from the query string
+ * @returns Filters, or an error message when a value is invalid
+ */
+const parseFilters = (
+  query: Record<string, any>
+): { filters?: TransactionFilters; error?: string } => {
+  const filters: TransactionFilters = {};
+
+  if (query.status) {
+    const statuses = Object.values(TransactionStatus);
+    if (!statuses.includes(query.status as TransactionStatus)) {
+      return { error: `status must be one of: ${statuses.join(", ")}` };
+    }
+    filters.status = query.status as TransactionStatus;
+  }
+
+  if (query.risk_decision) {
+    const decisions = Object.values(RiskDecision);
+    if (!decisions.includes(query.risk_decision as RiskDecision)) {
+      return { error: `risk_decision must be one of: ${decisions.join(", ")}` };
+    }
+    filters.risk_decision = query.risk_decision as RiskDecision;
+  }
+
+  for (const field of ["from", "to"] as const) {
+    if (query[field]) {
+      const date = new Date(query[field]);
+      if (isNaN(date.getTime())) {
+        return { error: `${field} must be a valid ISO 8601 date` };
+      }
+      filters[field] = date;
+    }
+  }
+
+  // Stored upper-case
+  for (const field of [
+    "currency",
+    "country",
+    "sender_country",
+    "receiver_country",
+  ] as const) {
+    if (query[field]) filters[field] = String(query[field]).toUpperCase();
+  }
+
+  for (const field of [
+    "sender_id",
+    "receiver_id",
+    "payment_method",
+    "provider",
+    "sender_name",
+    "receiver_name",
+    "sender_email",
+    "receiver_email",
+  ] as const) {
+    if (query[field]) filters[field] = String(query[field]);
+  }
+
+  return { filters };
+};
+
+/**
+ * Parse list options (filters, sorting and pagination)
+ */
+const parseListOptions = (
+  query: Record<string, any>
+): { options?: TransactionListOptions; error?: string } => {
+  const { filters, error } = parseFilters(query);
+  if (error) {
+    return { error };
+  }
+
+  const options: TransactionListOptions = { ...filters };
+
+  if (query.sort_by) {
+    if (!["created_at", "amount"].includes(query.sort_by)) {
+      return { error: "sort_by must be one of: created_at, amount" };
+    }
+    options.sort_by = query.sort_by;
+  }
+
+  if (query.order) {
+    if (!["asc", "desc"].includes(query.order)) {
+      return { error: "order must be one of: asc, desc" };
+    }
+    options.order = query.order;
+  }
+
+  if (query.limit !== undefined) {
+    const limit = parseInt(query.limit);
+    if (isNaN(limit) || limit < 1) {
+      return { error: "limit must be a positive integer" };
+    }
+    options.limit = limit;
+  }
+
+  if (query.cursor) options.cursor = String(query.cursor);
+
+  return { options };
+};
+
+/**
+ * Send a single transaction with its status history
+ */
+const sendTransaction = async (
+  res: Response,
+  transaction: Transaction | null
+) => {
+  if (!transaction) {
+    return res.status(404).json({
+      error: "Not Found",
+      message: "Transaction not found",
+    });
+  }
+
+  const statusHistory = await transactionQueryService.getStatusHistory(
+    transaction.id
+  );
+  const refunds = await refundService.listForTransaction(transaction.id);
+
+  return res.status(200).json({
+    success: true,
+    data: {
+      ...transaction,
+      status_history: statusHistory,
+      refunds,
+    },
+  });
+};
+
+/**
+ * GET /transactions
+ * List transactions (filters: status, currency, sender_id, receiver_id,
+ * country, sender_country, receiver_country, payment_method, provider,
+ * risk_decision, sender_name, receiver_name, sender_email, receiver_email,
+ * from, to; sort_by: created_at|amount; order: asc|desc; limit; cursor)
+ */
+router.get("/", async (req: Request, res: Response) => {
+  const { options, error } = parseListOptions(req.query);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const { items, next_cursor } = await transactionQueryService.list(options);
+
+    return res.status(200).json({
+      success: true,
+      data: items,
+      pagination: {
+        next_cursor,
+        has_more: next_cursor !== null,
+      },
+    });
+  } catch (err) {
+    if (err instanceof InvalidCursorError) {
+      return res
+        .status(400)
+        .json({ error: "Validation Error", message: err.message });
+    }
+    if (err instanceof FilterUnavailableError) {
+      return res
+        .status(400)
+        .json({ error: "Filter Unavailable", message: err.message });
+    }
+
+    logger.error("Failed to list transactions", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to list transactions",
+    });
+  }
+});
+
+/**
+ * GET /transactions/summary
+ * Counts, gross amount, processing fees and net amount by currency and status
+ */
+router.get("/summary", async (req: Request, res: Response) => {
+  const { filters, error } = parseFilters(req.query);
+  if (error) {
+    return res.status(400).json({ error: "Validation Error", message: error });
+  }
+
+  try {
+    const summary = await transactionQueryService.summary(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: summary,
+    });
+  } catch (err) {
+    if (err instanceof FilterUnavailableError) {
+      return res
+        .status(400)
+        .json({ error: "Filter Unavailable", message: err.message });
+    }
+
+    logger.error("Failed to summarize transactions", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to summarize transactions",
+    });
+  }
+});
+
+/**
+ * GET /transactions/lookup?transaction_id=... | ?event_id=...
+ * Find a transaction by provider transaction_id or by any applied event_id
+ * (ids are per provider: optional provider, default: default)
+ */
+router.get("/lookup", async (req: Request, res: Response) => {
+  const { transaction_id, event_id } = req.query;
+  const provider = String(req.query.provider ?? DEFAULT_PROVIDER).toLowerCase();
+
+  if (!transaction_id && !event_id) {
+    return res.status(400).json({
+      error: "Validation Error",
+      message: "transaction_id or event_id is required",
+    });
+  }
+
+  try {
+    const transaction = transaction_id
+      ? await transactionQueryService.getByTransactionId(
+          String(transaction_id),
+          provider
+        )
+      : await transactionQueryService.getByEventId(String(event_id), provider);
+
+    return await sendTransaction(res, transaction);
+  } catch (err) {
+    logger.error("Failed to look up transaction", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to look up transaction",
+    });
+  }
+});
+
+/**
+ * GET /transactions/:id
+ * Transaction by id, with status history and refunds
+ */
+router.get("/:id", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    const transaction = await transactionQueryService.getById(id);
+    return await sendTransaction(res, transaction);
+  } catch (err) {
+    logger.error("Failed to get transaction", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to get transaction",
+    });
+  }
+});
+
+/**
+ * GET /transactions/:id/fee
+ * Fee schedule version and rule applied to a transaction, with the fee
+ * recomputed from that version
+ */
+router.get("/:id/fee", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  try {
+    const transaction = await transactionQueryService.getById(id);
+    if (!transaction) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: "Transaction not found",
+      });
+    }
+
+    const explanation = await feeScheduleService.explain(transaction);
+
+    return res.status(200).json({
+      success: true,
+      data: explanation,
+    });
+  } catch (err) {
+    logger.error("Failed to explain transaction fee", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to explain transaction fee",
+    });
+  }
+});
+
+/**
+ * POST /transactions/:id/review
+ * Approve (apply the held status) or reject (fail) a transaction held by
+ * the risk engine (body: decision = approve|reject)
+ */
+router.post("/:id/review", async (req: Request, res: Response) => {
+  const id = req.params.id as string;
+  if (!UUID_REGEX.test(id)) {
+    return res
+      .status(400)
+      .json({ error: "Validation Error", message: "id must be a UUID" });
+  }
+
+  const decision = req.body?.decision;
+  if (!["approve", "reject"].includes(decision)) {
+    return res.status(400).json({
+      error: "Validation Error",
+      message: "decision must be one of: approve, reject",
+    });
+  }
+
+  try {
+    const transaction = await riskService.resolveReview(
+      id,
+      decision as ReviewDecision
+    );
+    return await sendTransaction(res, transaction);
+  } catch (err) {
+    if (err instanceof TransactionNotUnderReviewError) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: err.message,
+        data: {
+          id: err.transaction.id,
+          status: err.transaction.status,
+        },
+      });
+    }
+
+    if (err instanceof OpenScreeningHitsError) {
+      return res.status(409).json({
+        error: "Conflict",
+        message: err.message,
+        data: {
+          id: err.transaction.id,
+          open_screening_hits: err.openHits,
+        },
+      });
+    }
+
+    logger.error("Failed to review transaction", { error: err });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to review transaction",
+    });
+  }
+});
+
+export default router;
@@ -1,59 +1,364 @@
+import { randomUUID } from "crypto";
 import express, { Request, Response, NextFunction } from "express";
 import {
   webhookService,
   DuplicateTransactionError,
+  TransactionNotFoundError,
+  webhookFailureReason,
 } from "../services/webhookService";
-import { signatureValidator } from "../utils/signatureValidator";
-import { ValidationError } from "../validators/transactionValidator";
+import {
+  signatureValidator,
+  SignatureFailureReason,
+  SignatureVerificationOptions,
+} from "../utils/signatureValidator";
+import { DEFAULT_SIGNATURE_SCHEME } from "../utils/signatureSchemes";
+import {
+  ValidationError,
+  WebhookPayload,
+} from "../validators/transactionValidator";
+import { InvalidStatusTransitionError } from "../validators/statusTransitionValidator";
+import {
+  WEBHOOK_PAYLOAD_SCHEMA,
+  WEBHOOK_PAYLOAD_SCHEMA_VERSION,
+} from "../validators/webhookPayloadSchema";
+import {
+  providerRegistry,
+  UnknownProviderError,
+  WebhookProvider,
+} from "../providers/providerRegistry";
+import { defaultProvider } from "../providers/defaultProvider";
+import { inboxService } from "../services/inboxService";
+import { inboxConfig } from "../config/inbox";
+import {
+  idempotencyService,
+  IdempotencyService,
+  IdempotencyKey,
+} from "../services/idempotencyService";
+import { IdempotencyRecord } from "../entities/IdempotencyRecord.entity";
+import { ExchangeRateNotFoundError } from "../services/exchangeRateService";
+import { NoActiveFeeScheduleError } from "../services/feeScheduleService";
+import { FeeRuleNotFoundError } from "../utils/feeEngine";
+import "../types/express";
+import { eventHandlerRegistry } from "../handlers/eventHandlerRegistry";
+import { RefundExceedsAmountError } from "../services/refundService";
+import { RiskRejectedError } from "../services/riskService";
+import { ScreeningBlockedError } from "../services/screeningService";
+import { logger } from "../utils/logger";
+import { metrics } from "../utils/metrics";
+import { healthService } from "../services/healthService";
+import {
+  rateLimitService,
+  RateLimitResult,
+} from "../services/rateLimitService";
+import { webhookLimitsConfig } from "../config/webhookLimits";
 
 const router = express.Router();
 
+const SIGNATURE_FAILURE_MESSAGES: Record<SignatureFailureReason, string> = {
+  missing_signature: "Missing webhook signature",
+  missing_timestamp: "Missing webhook timestamp",
+  invalid_timestamp: "Webhook timestamp is invalid or expired",
+  invalid_signature: "Invalid webhook signature",
+};
+
+/**
+ * Raw body stored by the webhook body parser in app.ts (empty when the
+ * body was not read)
+ */
+const rawBodyOf = (req: Request): Buffer => req.rawBody ?? Buffer.alloc(0);
+
+/**
+ * Map the body with the provider's mapper, or null if it cannot be mapped
+ */
+const mapPayloadSafely = (
+  provider: WebhookProvider,
+  req: Request
+): WebhookPayload | null => {
+  try {
+    return provider.mapPayload(req.body);
+  } catch (error) {
+    return null;
+  }
+};
+
+type WebhookRejectionReason =
+  | "ip_not_allowed"
+  | "ip_rate_limited"
+  | "sender_rate_limited"
+  | "body_too_large"
+  | "metadata_too_deep";
+
+// Audit status recorded for each rejection reason
+const REJECTION_AUDIT_STATUSES: Record<WebhookRejectionReason, string> = {
+  ip_not_allowed: "ip_rejected",
+  ip_rate_limited: "rate_limited",
+  sender_rate_limited: "rate_limited",
+  body_too_large: "payload_rejected",
+  metadata_too_deep: "payload_rejected",
+};
+
+/**
+ * Whether objects/arrays in the value nest deeper than maxDepth levels
+ * (stops descending at the limit, so hostile payloads stay cheap)
+ */
+const nestsDeeperThan = (value: any, maxDepth: number): boolean => {
+  if (value === null || typeof value !== "object") {
+    return false;
+  }
+  if (maxDepth === 0) {
+    return true;
+  }
+  return Object.values(value).some((child) =>
+    nestsDeeperThan(child, maxDepth - 1)
+  );
+};
+
+/**
+ * Count and log a rejected delivery and record it in the audit trail.
+ * Audit rows are throttled per reason and source, so a flood of rejected
+ * requests does not flood the audit table.
+ */
+const recordRejection = async (
+  req: Request,
+  reason: WebhookRejectionReason,
+  source: string,
+  message: string
+) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
+
+  metrics.webhooksRejected.inc({ provider: provider.name, reason });
+  logger.warn("Webhook rejected", {
+    provider: provider.name,
+    reason,
+    source_ip: req.ip,
+    delivery_id: req.deliveryId,
+  });
+
+  if (
+    await rateLimitService.shouldAudit(`${reason}:${provider.name}:${source}`)
+  ) {
+    const payload = req.bodyTooLarge
+      ? {}
+      : mapPayloadSafely(provider, req) ?? req.body;
+
+    await webhookService.logRejectedWebhook(
+      payload,
+      REJECTION_AUDIT_STATUSES[reason],
+      {
+        provider: provider.name,
+        deliveryId: req.deliveryId,
+        signingKeyId: req.signingKeyId,
+      },
+      new Error(message)
+    );
+  }
+};
+
 /**
- * Middleware to verify webhook signature
+ * Answer 429 with the time until the bucket has a token again
  */
-export const verifySignature = (
+const sendRateLimited = (res: Response, result: RateLimitResult) => {
+  res.set("Retry-After", String(result.retryAfterSeconds));
+  return res.status(429).json({
+    error: "Too Many Requests",
+    message: `Rate limit exceeded, retry in ${result.retryAfterSeconds}s`,
+    data: {
+      scope: result.scope,
+      retry_after_seconds: result.retryAfterSeconds,
+    },
+  });
+};
+
+/**
+ * Middleware that starts a delivery attempt
+ */
+export const startDelivery = (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  try {
-    const signature = req.headers["x-webhook-signature"] as string;
-    const timestamp = req.headers["x-webhook-timestamp"] as string;
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
 
-    if (!signature) {
-      return res.status(401).json({
-        error: "Unauthorized",
-        message: "Missing webhook signature",
-      });
-    }
+  // Groups the audit rows of this delivery attempt
+  req.deliveryId = randomUUID();
+  metrics.webhooksReceived.inc({ provider: provider.name });
+
+  next();
+};
+
+/**
+ * Middleware to reject sources outside the provider's IP allowlist (403)
+ */
+export const checkIpAllowlist = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
+
+  if (!provider.ipAllowlist || provider.ipAllowlist.allows(req.ip)) {
+    return next();
+  }
+
+  await recordRejection(
+    req,
+    "ip_not_allowed",
+    req.ip ?? "unknown",
+    `Source IP ${req.ip} is not allowed for provider ${provider.name}`
+  );
+  return res.status(403).json({
+    error: "Forbidden",
+    message: "Source IP is not allowed",
+  });
+};
+
+/**
+ * Middleware to rate limit deliveries per source IP (429), before the
+ * signature is verified
+ */
+export const limitBySourceIp = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const ip = req.ip ?? "unknown";
+  const result = await rateLimitService.checkIp(ip);
+  if (result.allowed) {
+    return next();
+  }
+
+  await recordRejection(
+    req,
+    "ip_rate_limited",
+    ip,
+    `Rate limit exceeded for source IP ${ip}`
+  );
+  return sendRateLimited(res, result);
+};
+
+/**
+ * Middleware to enforce the body size (413) and data.metadata nesting
+ * (400) limits
+ */
+export const checkPayloadLimits = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
+  const ip = req.ip ?? "unknown";
+
+  // Flagged by the body parser in app.ts (WEBHOOK_MAX_BODY_SIZE)
+  if (req.bodyTooLarge) {
+    const message = `Webhook body exceeds the limit of ${webhookLimitsConfig.maxBodySize}`;
+    await recordRejection(req, "body_too_large", ip, message);
+    return res.status(413).json({
+      error: "Payload Too Large",
+      message,
+    });
+  }
+
+  const maxDepth = webhookLimitsConfig.maxMetadataDepth;
+  const metadata = mapPayloadSafely(provider, req)?.data?.metadata;
+  if (nestsDeeperThan(metadata, maxDepth)) {
+    const message = `data.metadata is nested deeper than ${maxDepth} levels`;
+    await recordRejection(req, "metadata_too_deep", ip, message);
+    return res.status(400).json({
+      error: "Validation Error",
+      message,
+      field: "data.metadata",
+    });
+  }
+
+  next();
+};
+
+/**
+ * Middleware to rate limit deliveries per provider and signing key (429),
+ * after the signature is verified
+ */
+export const limitBySender = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
+  const keyId = req.signingKeyId ?? "unknown";
+
+  const result = await rateLimitService.checkSender(provider.name, keyId);
+  if (result.allowed) {
+    return next();
+  }
+
+  await recordRejection(
+    req,
+    "sender_rate_limited",
+    keyId,
+    `Rate limit exceeded for provider ${provider.name} key ${keyId}`
+  );
+  return sendRateLimited(res, result);
+};
+
+/**
+ * Verify the request signature and expose the matching key id
+ */
+const verifyRequestSignature = async (
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  options: SignatureVerificationOptions
+) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
 
+  try {
     // Get raw body (must be set up in app.ts with express.raw())
-    const rawBody = (req as any).rawBody;
+    const rawBody = rawBodyOf(req);
+
+    const result = signatureValidator.verifyRequest(
+      req.headers,
+      rawBody,
+      options
+    );
 
-    let isValid: boolean;
+    if (!result.valid) {
+      const reason = result.reason ?? "invalid_signature";
+      const message = SIGNATURE_FAILURE_MESSAGES[reason];
+
+      metrics.webhooksSignatureRejected.inc({ provider: provider.name, reason });
+      logger.warn("Webhook signature rejected", {
+        provider: provider.name,
+        reason,
+        delivery_id: req.deliveryId,
+      });
 
-    if (timestamp) {
-      // Verify with timestamp (preferred - prevents replay attacks)
-      isValid = signatureValidator.verifyWithTimestamp(
-        rawBody,
-        signature,
-        timestamp
+      // Record the rejection so the delivery shows up in the audit timeline
+      await webhookService.logRejectedWebhook(
+        mapPayloadSafely(provider, req) ?? req.body,
+        "signature_rejected",
+        { provider: provider.name, deliveryId: req.deliveryId },
+        new Error(message)
       );
-    } else {
-      // Verify without timestamp (basic verification)
-      isValid = signatureValidator.verify(rawBody, signature);
-    }
 
-    if (!isValid) {
       return res.status(401).json({
         error: "Unauthorized",
-        message: "Invalid webhook signature",
+        message,
       });
     }
 
+    // Expose the matching key so key rotation can be monitored
+    req.signingKeyId = result.keyId;
+    logger.debug("Webhook signature verified", {
+      provider: provider.name,
+      signing_key_id: result.keyId,
+    });
+
     next();
   } catch (error) {
-    console.error("Signature verification error:", error);
+    metrics.webhooksSignatureRejected.inc({
+      provider: provider.name,
+      reason: "verification_error",
+    });
+    logger.error("Signature verification error", { error });
     return res.status(401).json({
       error: "Unauthorized",
       message: "Signature verification failed",
@@ -62,75 +367,434 @@ export const verifySignature = (
 };
 
 /**
- *  Webhook endpoint (WITH signature verification)
+ * Create middleware that verifies webhook signatures with a given scheme
  */
-router.post(
-  "/payment",
-  verifySignature,
-  async (req: Request, res: Response) => {
-    try {
-      const payload = req.body;
+export const createSignatureVerifier = (
+  options: SignatureVerificationOptions = {}
+) => {
+  // Fail fast on misconfigured scheme names
+  signatureValidator.getScheme(options.scheme ?? DEFAULT_SIGNATURE_SCHEME);
+
+  return (req: Request, res: Response, next: NextFunction) =>
+    verifyRequestSignature(req, res, next, options);
+};
+
+/**
+ * Middleware to verify webhook signature for the default provider
+ */
+export const verifySignature = createSignatureVerifier(
+  defaultProvider.signature
+);
+
+/**
+ * Middleware to look up the provider named in the URL
+ */
+export const resolveProvider = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    req.webhookProvider = providerRegistry.get(req.params.provider as string);
+    next();
+  } catch (error) {
+    if (error instanceof UnknownProviderError) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+      });
+    }
+    next(error);
+  }
+};
+
+/**
+ * Middleware to verify webhook signature with the resolved provider's settings
+ */
+export const verifyProviderSignature = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
+  return verifyRequestSignature(req, res, next, provider.signature);
+};
+
+/**
+ * Build the idempotency key (provider + event_id + payload hash).
+ * Returns null when the payload has no usable event_id.
+ */
+const getIdempotencyKey = (
+  provider: WebhookProvider,
+  req: Request
+): IdempotencyKey | null => {
+  const eventId = mapPayloadSafely(provider, req)?.event_id;
+  if (!eventId) {
+    return null;
+  }
+
+  return {
+    provider: provider.name,
+    event_id: String(eventId),
+    payload_hash: IdempotencyService.hashPayload(rawBodyOf(req)),
+  };
+};
+
+/**
+ * Send a stored response again, or reject a reused event_id whose payload
+ * differs from the original
+ */
+const sendStoredResponse = (
+  res: Response,
+  key: IdempotencyKey,
+  stored: IdempotencyRecord
+) => {
+  if (stored.payload_hash !== key.payload_hash) {
+    metrics.webhooksFailed.inc({
+      provider: key.provider,
+      reason: "idempotency_key_reused",
+    });
+    return res.status(422).json({
+      error: "Idempotency Key Reused",
+      message: "idempotency key reused with different payload",
+      data: {
+        event_id: key.event_id,
+      },
+    });
+  }
+
+  metrics.webhooksDuplicate.inc({
+    provider: key.provider,
+    reason: "idempotent_replay",
+  });
+  res.set("Idempotent-Replayed", "true");
+  return res.status(stored.status_code).json(stored.response_body);
+};
+
+/**
+ * Map the provider payload and process it (or queue it in async mode)
+ */
+const handleWebhook = async (req: Request, res: Response) => {
+  const provider: WebhookProvider = req.webhookProvider ?? defaultProvider;
 
-      // Process the webhook
-      const transaction = await webhookService.processWebhook(payload);
+  const idempotencyKey = getIdempotencyKey(provider, req);
 
-      // Success response
-      return res.status(200).json({
+  // Send the response and remember it for retries of the same event
+  const respond = async (statusCode: number, body: Record<string, any>) => {
+    if (idempotencyKey && IdempotencyService.isStorable(statusCode)) {
+      await idempotencyService.save(idempotencyKey, statusCode, body);
+    }
+    return res.status(statusCode).json(body);
+  };
+
+  try {
+    // Retry of an event we already answered
+    if (idempotencyKey) {
+      const stored = await idempotencyService.find(idempotencyKey);
+      if (stored) {
+        return sendStoredResponse(res, idempotencyKey, stored);
+      }
+    }
+
+    // Async mode: store the verified event and acknowledge immediately
+    if (inboxConfig.mode === "async") {
+      const entry = await inboxService.enqueue(
+        provider.name,
+        rawBodyOf(req).toString("utf8"),
+        req.signingKeyId,
+        req.correlationId
+      );
+
+      return respond(202, {
         success: true,
-        message: "Webhook processed successfully",
+        message: "Webhook accepted for processing",
         data: {
-          id: transaction.id,
-          transaction_id: transaction.transaction_id,
-          status: transaction.status,
-          amount: transaction.amount,
-          currency: transaction.currency,
-          processing_fee: transaction.processing_fee,
-          net_amount: transaction.net_amount,
+          inbox_id: entry.id,
         },
       });
+    }
+
+    // Convert the provider's native payload into the canonical shape
+    let payload: WebhookPayload;
+    try {
+      payload = provider.mapPayload(req.body);
     } catch (error) {
-      // Handle duplicate transaction (409 Conflict)
-      if (error instanceof DuplicateTransactionError) {
-        return res.status(409).json({
-          error: "Conflict",
-          message: "Transaction already processed",
-          data: {
-            id: error.existingTransaction.id,
-            transaction_id: error.existingTransaction.transaction_id,
-            status: error.existingTransaction.status,
-            processed_at: error.existingTransaction.processed_at,
-          },
-        });
-      }
+      metrics.webhooksFailed.inc({
+        provider: provider.name,
+        reason: webhookFailureReason(error),
+      });
+      throw error;
+    }
+
+    // Process the webhook
+    const transaction = await webhookService.processWebhook(payload, {
+      provider: provider.name,
+      signingKeyId: req.signingKeyId,
+      deliveryId: req.deliveryId,
+      correlationId: req.correlationId,
+    });
 
-      // Handling validation error (400 Bad Request)
-      if (error instanceof ValidationError) {
-        return res.status(400).json({
-          error: "Validation Error",
-          message: error.message,
-          field: error.field,
-        });
+    // Event type without a handler: acknowledged so the sender stops retrying
+    if (!transaction) {
+      return respond(200, {
+        success: true,
+        message: "Webhook ignored: unsupported event type",
+        data: {
+          event_id: payload.event_id,
+          event_type: payload.event_type,
+          status: "ignored",
+        },
+      });
+    }
+
+    // Success response
+    return respond(200, {
+      success: true,
+      message: "Webhook processed successfully",
+      data: {
+        id: transaction.id,
+        transaction_id: transaction.transaction_id,
+        status: transaction.status,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        processing_fee: transaction.processing_fee,
+        net_amount: transaction.net_amount,
+        refunded_amount: transaction.refunded_amount,
+        settlement_currency: transaction.settlement_currency,
+        settlement_net_amount: transaction.settlement_net_amount,
+        exchange_rate: transaction.exchange_rate,
+        conversion_status: transaction.conversion_status,
+        risk_score: transaction.risk_score,
+        risk_decision: transaction.risk_decision,
+        screening_decision: transaction.screening_decision,
+      },
+    });
+  } catch (error) {
+    // Handle duplicate transaction (409 Conflict)
+    if (error instanceof DuplicateTransactionError) {
+      // A concurrent delivery of this event may have stored its response
+      const stored =
+        idempotencyKey && (await idempotencyService.find(idempotencyKey));
+      if (idempotencyKey && stored) {
+        return sendStoredResponse(res, idempotencyKey, stored);
       }
 
-      // Handling other errors (500 Internal Server Error)
-      console.error("Webhook processing error:", error);
-      return res.status(500).json({
-        error: "Internal Server Error",
-        message: "Failed to process webhook",
+      return respond(409, {
+        error: "Conflict",
+        message: "Transaction already processed",
+        data: {
+          id: error.existingTransaction.id,
+          transaction_id: error.existingTransaction.transaction_id,
+          status: error.existingTransaction.status,
+          processed_at: error.existingTransaction.processed_at,
+        },
+      });
+    }
+
+    // Handle illegal status transition (422 Unprocessable Entity)
+    if (error instanceof InvalidStatusTransitionError) {
+      return respond(422, {
+        error: "Invalid Status Transition",
+        message: error.message,
+        data: {
+          from: error.from,
+          to: error.to,
+        },
+      });
+    }
+
+    // Refunds would exceed the original amount (422 Unprocessable Entity)
+    if (error instanceof RefundExceedsAmountError) {
+      return respond(422, {
+        error: "Refund Exceeds Amount",
+        message: error.message,
+        data: {
+          transaction_id: error.transaction.transaction_id,
+          requested: error.requested,
+          available: error.available,
+        },
+      });
+    }
+
+    // A party matched a watchlist (422 Unprocessable Entity). The hits are
+    // not sent (nor stored with the response); see screening_results.
+    if (error instanceof ScreeningBlockedError) {
+      return respond(422, {
+        error: "Screening Blocked",
+        message: error.message,
+        data: {
+          screening_decision: error.outcome.decision,
+        },
+      });
+    }
+
+    // Rejected by the risk engine (422 Unprocessable Entity)
+    if (error instanceof RiskRejectedError) {
+      return respond(422, {
+        error: "Risk Rejected",
+        message: error.message,
+        data: {
+          risk_score: error.assessment.score,
+          risk_decision: error.assessment.decision,
+          rules: error.assessment.rules,
+        },
+      });
+    }
+
+    // No exchange rate and the missing rate policy is "reject".
+    // Not stored for idempotency: a retry can succeed once the rate exists.
+    if (error instanceof ExchangeRateNotFoundError) {
+      return res.status(422).json({
+        error: "Exchange Rate Unavailable",
+        message: error.message,
+        data: {
+          from: error.base,
+          to: error.quote,
+        },
+      });
+    }
+
+    // No fee schedule in effect at the event time, or no rule of it matches.
+    // Not stored for idempotency: a retry can succeed once one is published.
+    if (error instanceof NoActiveFeeScheduleError) {
+      return res.status(422).json({
+        error: "Fee Schedule Unavailable",
+        message: error.message,
+        data: {
+          at: error.at.toISOString(),
+        },
+      });
+    }
+    if (error instanceof FeeRuleNotFoundError) {
+      return res.status(422).json({
+        error: "Fee Rule Not Found",
+        message: error.message,
+        data: {
+          fee_schedule_id: error.schedule.id,
+          fee_schedule_version: error.schedule.version,
+        },
+      });
+    }
+
+    // Follow-up event for a transaction we have not seen.
+    // Not stored for idempotency: a retry can succeed once it exists.
+    if (error instanceof TransactionNotFoundError) {
+      return res.status(422).json({
+        error: "Transaction Not Found",
+        message: error.message,
+        data: {
+          transaction_id: error.transactionId,
+        },
+      });
+    }
+
+    // Handling validation error (400 Bad Request)
+    if (error instanceof ValidationError) {
+      return respond(400, {
+        error: "Validation Error",
+        message: error.message,
+        field: error.field,
+        errors: error.errors,
       });
     }
+
+    // Handling other errors (500 Internal Server Error)
+    logger.error("Webhook processing error", { error });
+    return res.status(500).json({
+      error: "Internal Server Error",
+      message: "Failed to process webhook",
+    });
   }
+};
+
+/**
+ *  Webhook endpoint for the default provider (WITH signature verification)
+ */
+router.post(
+  "/payment",
+  startDelivery,
+  checkIpAllowlist,
+  limitBySourceIp,
+  checkPayloadLimits,
+  verifySignature,
+  limitBySender,
+  handleWebhook
 );
 
 /**
  * GET /webhooks/health
- * Health check endpoint
+ * Health check endpoint (same checks as GET /health/ready)
  */
-router.get("/health", (req: Request, res: Response) => {
+router.get("/health", async (req: Request, res: Response) => {
+  try {
+    const report = await healthService.readiness();
+    return res.status(report.status === "healthy" ? 200 : 503).json(report);
+  } catch (error) {
+    logger.error("Failed to run health checks", { error });
+    return res.status(503).json({
+      error: "Service Unavailable",
+      message: "Failed to run health checks",
+    });
+  }
+});
+
+/**
+ * GET /webhooks/schema
+ * JSON Schema of the canonical payload, so integrators can validate
+ * payloads before sending them.
+ * Query: event_type (schema of that event type; default payment.created)
+ */
+router.get("/schema", (req: Request, res: Response) => {
+  let schema = WEBHOOK_PAYLOAD_SCHEMA;
+
+  if (req.query.event_type !== undefined) {
+    const handler = eventHandlerRegistry.find(String(req.query.event_type));
+    if (!handler) {
+      return res.status(404).json({
+        error: "Not Found",
+        message: `Unsupported event type: ${req.query.event_type}`,
+      });
+    }
+    schema = handler.schema;
+  }
+
+  res
+    .status(200)
+    .type("application/schema+json")
+    .set("Schema-Version", WEBHOOK_PAYLOAD_SCHEMA_VERSION)
+    .send(JSON.stringify(schema, null, 2));
+});
+
+/**
+ * GET /webhooks/event-types
+ * Supported event types and what each one does
+ */
+router.get("/event-types", (req: Request, res: Response) => {
   res.status(200).json({
-    status: "healthy",
-    timestamp: new Date().toISOString(),
+    success: true,
+    data: eventHandlerRegistry.list().map((handler) => ({
+      event_type: handler.eventType,
+      aliases: handler.aliases ?? [],
+      description: handler.description,
+      creates_transaction: handler.creates,
+    })),
   });
 });
 
+/**
+ * POST /webhooks/:provider
+ * Webhook endpoint per registered provider (WITH signature verification)
+ */
+router.post(
+  "/:provider",
+  resolveProvider,
+  startDelivery,
+  checkIpAllowlist,
+  limitBySourceIp,
+  checkPayloadLimits,
+  verifyProviderSignature,
+  limitBySender,
+  handleWebhook
+);
+
 export default router;
@@ -0,0 +1,259 @@
+import { Brackets } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { Transaction, AuditLog } from "../entities/Transaction.entity";
+import { TransactionStatusHistory } from "../entities/TransactionStatusHistory.entity";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+
+export interface AuditLogFilters {
+  status?: string;
+  event_type?: string;
+  provider?: string;
+  event_id?: string;
+  correlation_id?: string;
+  // Case-insensitive text search in error_message
+  error?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface TimelineStage {
+  id: string;
+  status: string;
+  at: Date;
+  ms_since_previous: number | null;
+  error_message: string | null;
+  error_field: string | null;
+}
+
+export interface TimelineDelivery {
+  delivery_id: string | null;
+  correlation_id: string | null;
+  event_id: string | null;
+  event_type: string | null;
+  provider: string;
+  // "verified" (with signing_key_id), "rejected", or null when unknown
+  signature: "verified" | "rejected" | null;
+  signing_key_id: string | null;
+  replay_of: string | null;
+  outcome: string;
+  error_message: string | null;
+  error_field: string | null;
+  started_at: Date;
+  finished_at: Date;
+  duration_ms: number;
+  stages: TimelineStage[];
+}
+
+export interface EventTimeline {
+  transaction: Transaction | null;
+  status_history: TransactionStatusHistory[];
+  deliveries: TimelineDelivery[];
+}
+
+export class AuditService {
+  private static readonly MAX_PAGE_SIZE = 100;
+  private auditLogRepo = AppDataSource.getRepository(AuditLog);
+  private transactionRepo = AppDataSource.getRepository(Transaction);
+  private statusHistoryRepo = AppDataSource.getRepository(
+    TransactionStatusHistory
+  );
+
+  /**
+   * Search audit entries, newest first
+   */
+  async search(
+    filters: AuditLogFilters = {}
+  ): Promise<{ items: AuditLog[]; total: number }> {
+    const limit = Math.min(filters.limit ?? 50, AuditService.MAX_PAGE_SIZE);
+
+    const query = this.auditLogRepo
+      .createQueryBuilder("audit")
+      .orderBy("audit.created_at", "DESC")
+      .take(limit)
+      .skip(filters.offset ?? 0);
+
+    if (filters.status) {
+      query.andWhere("audit.status = :status", { status: filters.status });
+    }
+    if (filters.event_type) {
+      query.andWhere("audit.event_type = :eventType", {
+        eventType: filters.event_type,
+      });
+    }
+    if (filters.provider) {
+      query.andWhere("audit.provider = :provider", {
+        provider: filters.provider,
+      });
+    }
+    if (filters.event_id) {
+      query.andWhere("audit.event_id = :eventId", {
+        eventId: filters.event_id,
+      });
+    }
+    if (filters.correlation_id) {
+      query.andWhere("audit.correlation_id = :correlationId", {
+        correlationId: filters.correlation_id,
+      });
+    }
+    if (filters.error) {
+      query.andWhere("audit.error_message ILIKE :error", {
+        error: `%${this.escapeLike(filters.error)}%`,
+      });
+    }
+    if (filters.from) {
+      query.andWhere("audit.created_at >= :from", { from: filters.from });
+    }
+    if (filters.to) {
+      query.andWhere("audit.created_at <= :to", { to: filters.to });
+    }
+
+    const [items, total] = await query.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * Timeline for one event of a provider: its deliveries and the resulting
+   * transaction
+   */
+  async getTimelineByEventId(
+    eventId: string,
+    provider: string = DEFAULT_PROVIDER
+  ): Promise<EventTimeline> {
+    const history = await this.statusHistoryRepo.findOne({
+      where: { provider, event_id: eventId },
+      relations: { transaction: true },
+    });
+
+    const transaction =
+      history?.transaction ??
+      (await this.transactionRepo.findOne({
+        where: { provider, event_id: eventId },
+      }));
+
+    const entries = await this.auditLogRepo.find({
+      where: { provider, event_id: eventId },
+      order: { created_at: "ASC" },
+    });
+
+    return this.buildTimeline(transaction, entries);
+  }
+
+  /**
+   * Timeline for a transaction of a provider: every event applied to it
+   * and all their deliveries. Returns null if the transaction does not
+   * exist.
+   */
+  async getTimelineByTransactionId(
+    transactionId: string,
+    provider: string = DEFAULT_PROVIDER
+  ): Promise<EventTimeline | null> {
+    const transaction = await this.transactionRepo.findOne({
+      where: { provider, transaction_id: transactionId },
+    });
+    if (!transaction) {
+      return null;
+    }
+
+    const history = await this.statusHistoryRepo.find({
+      where: { transaction_ref_id: transaction.id },
+    });
+    const eventIds = Array.from(
+      new Set([transaction.event_id, ...history.map((h) => h.event_id)])
+    );
+
+    const entries = await this.auditLogRepo
+      .createQueryBuilder("audit")
+      .where(
+        new Brackets((qb) => {
+          qb.where(
+            "(audit.provider = :provider AND audit.event_id IN (:...eventIds))",
+            { provider, eventIds }
+          );
+          qb.orWhere("audit.transaction_ref_id = :id", { id: transaction.id });
+        })
+      )
+      .orderBy("audit.created_at", "ASC")
+      .getMany();
+
+    return this.buildTimeline(transaction, entries);
+  }
+
+  /**
+   * Group audit rows into deliveries and compute timings between stages
+   */
+  private async buildTimeline(
+    transaction: Transaction | null,
+    entries: AuditLog[]
+  ): Promise<EventTimeline> {
+    const groups = new Map<string, AuditLog[]>();
+
+    for (const entry of entries) {
+      // Rows written before delivery ids existed each form their own group
+      const key = entry.delivery_id ?? `entry:${entry.id}`;
+      groups.set(key, [...(groups.get(key) ?? []), entry]);
+    }
+
+    const deliveries = Array.from(groups.values()).map((rows) =>
+      this.buildDelivery(rows)
+    );
+
+    const status_history = transaction
+      ? await this.statusHistoryRepo.find({
+          where: { transaction_ref_id: transaction.id },
+          order: { event_timestamp: "ASC", created_at: "ASC" },
+        })
+      : [];
+
+    return { transaction, status_history, deliveries };
+  }
+
+  private buildDelivery(rows: AuditLog[]): TimelineDelivery {
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    const failure = rows.find((row) => row.error_message);
+
+    const stages = rows.map((row, index) => ({
+      id: row.id,
+      status: row.status,
+      at: row.created_at,
+      ms_since_previous:
+        index === 0
+          ? null
+          : row.created_at.getTime() - rows[index - 1].created_at.getTime(),
+      error_message: row.error_message ?? null,
+      error_field: row.error_field ?? null,
+    }));
+
+    const signingKeyId = rows.find((row) => row.signing_key_id)?.signing_key_id;
+
+    return {
+      delivery_id: first.delivery_id,
+      correlation_id: first.correlation_id,
+      event_id: first.event_id,
+      event_type: first.event_type,
+      provider: first.provider,
+      signature: rows.some((row) => row.status === "signature_rejected")
+        ? "rejected"
+        : signingKeyId
+        ? "verified"
+        : null,
+      signing_key_id: signingKeyId ?? null,
+      replay_of: first.replay_of,
+      outcome: last.status,
+      error_message: failure?.error_message ?? null,
+      error_field: failure?.error_field ?? null,
+      started_at: first.created_at,
+      finished_at: last.created_at,
+      duration_ms: last.created_at.getTime() - first.created_at.getTime(),
+      stages,
+    };
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+  }
+}
+
+export const auditService = new AuditService();
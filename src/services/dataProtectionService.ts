@@ -0,0 +1,150 @@
+import { EntityTarget, LessThan, IsNull, ObjectLiteral } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { retentionConfig } from "../config/dataProtection";
+import { AuditLog, Transaction } from "../entities/Transaction.entity";
+import { ScreeningResult } from "../entities/ScreeningResult.entity";
+import { FailedWebhook } from "../entities/FailedWebhook.entity";
+import { WebhookInbox } from "../entities/WebhookInbox.entity";
+import { fieldCipher } from "../utils/fieldEncryption";
+import { anonymizationPolicy, redact } from "../utils/redaction";
+
+// Entities with columns that may be encrypted (see encryptedColumn)
+const ENCRYPTED_COLUMNS: {
+  target: EntityTarget<ObjectLiteral>;
+  table: string;
+  columns: { name: string; json: boolean }[];
+}[] = [
+  {
+    target: Transaction,
+    table: "transactions",
+    columns: [
+      { name: "sender_name", json: false },
+      { name: "receiver_name", json: false },
+      { name: "metadata", json: true },
+    ],
+  },
+  {
+    target: ScreeningResult,
+    table: "screening_results",
+    columns: [{ name: "party_name", json: false }],
+  },
+  {
+    target: FailedWebhook,
+    table: "failed_webhooks",
+    columns: [{ name: "payload", json: true }],
+  },
+  {
+    target: WebhookInbox,
+    table: "webhook_inbox",
+    columns: [{ name: "raw_body", json: false }],
+  },
+];
+
+export class DataProtectionService {
+  private auditLogRepo = AppDataSource.getRepository(AuditLog);
+
+  constructor(private retention = retentionConfig) {}
+
+  /**
+   * Anonymize (remove every field of the redaction policy from the
+   * payload) or purge audit rows older than the retention period
+   * @returns Number of rows anonymized or deleted
+   */
+  async applyAuditRetention(
+    now: Date = new Date()
+  ): Promise<{ mode: string; cutoff: Date | null; affected: number }> {
+    if (this.retention.auditRetentionDays <= 0) {
+      return { mode: this.retention.mode, cutoff: null, affected: 0 };
+    }
+
+    const cutoff = new Date(
+      now.getTime() - this.retention.auditRetentionDays * 24 * 60 * 60 * 1000
+    );
+    let affected = 0;
+
+    // Batches keep each statement (and its locks) short
+    while (true) {
+      const rows = await this.auditLogRepo.find({
+        where:
+          this.retention.mode === "purge"
+            ? { created_at: LessThan(cutoff) }
+            : { created_at: LessThan(cutoff), anonymized_at: IsNull() },
+        order: { created_at: "ASC" },
+        take: this.retention.batchSize,
+      });
+      if (rows.length === 0) {
+        break;
+      }
+
+      if (this.retention.mode === "purge") {
+        await this.auditLogRepo.delete(rows.map((row) => row.id));
+      } else {
+        const policy = anonymizationPolicy();
+        const anonymizedAt = new Date();
+        await AppDataSource.transaction(async (manager) => {
+          for (const row of rows) {
+            await manager.update(AuditLog, row.id, {
+              payload: redact(row.payload, policy),
+              anonymized_at: anonymizedAt,
+            });
+          }
+        });
+      }
+
+      affected += rows.length;
+      if (rows.length < this.retention.batchSize) {
+        break;
+      }
+    }
+
+    return { mode: this.retention.mode, cutoff, affected };
+  }
+
+  /**
+   * Rewrite encrypted columns that do not match the current settings:
+   * values under an older key are encrypted with the active key, values
+   * of fields that are no longer configured are decrypted, and plain
+   * values of configured fields are encrypted
+   * @returns Rows rewritten per table
+   */
+  async reencrypt(
+    limit: number = this.retention.batchSize
+  ): Promise<Record<string, number>> {
+    const result: Record<string, number> = {};
+
+    for (const { target, table, columns } of ENCRYPTED_COLUMNS) {
+      const repo = AppDataSource.getRepository(target);
+      const query = repo.createQueryBuilder("row").take(limit);
+
+      // Stored text of the column (jsonb strings keep their quotes)
+      const conditions = columns.map(({ name, json }, index) => {
+        const stored = json ? `row.${name}::text` : `row.${name}`;
+        const prefix = json ? '"enc:' : "enc:";
+        if (fieldCipher.encrypts(`${table}.${name}`)) {
+          query.setParameter(
+            `current${index}`,
+            `${prefix}${fieldCipher.activeKeyVersion}:%`
+          );
+          return `(row.${name} IS NOT NULL AND ${stored} NOT LIKE :current${index})`;
+        }
+        query.setParameter(`encrypted${index}`, `${prefix}%`);
+        return `${stored} LIKE :encrypted${index}`;
+      });
+      query.where(conditions.join(" OR "));
+
+      // Loading decrypts, writing encrypts with the current settings
+      const rows = await query.getMany();
+      for (const row of rows) {
+        await repo.update(
+          row.id,
+          Object.fromEntries(columns.map(({ name }) => [name, row[name]]))
+        );
+      }
+      result[table] = rows.length;
+    }
+
+    return result;
+  }
+}
+
+export const dataProtectionService = new DataProtectionService();
@@ -0,0 +1,202 @@
+import { Brackets } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { AuditLog } from "../entities/Transaction.entity";
+import {
+  FailedWebhook,
+  FailedWebhookStatus,
+} from "../entities/FailedWebhook.entity";
+import {
+  webhookService,
+  DuplicateTransactionError,
+} from "./webhookService";
+import { WebhookPayload } from "../validators/transactionValidator";
+
+export class FailedWebhookNotFoundError extends Error {
+  constructor(public id: string) {
+    super(`Failed webhook not found: ${id}`);
+    this.name = "FailedWebhookNotFoundError";
+  }
+}
+
+export interface FailedWebhookFilters {
+  error_type?: string;
+  status?: FailedWebhookStatus;
+  provider?: string;
+  event_id?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+export interface ReplayResult {
+  id: string;
+  status: "replayed" | "duplicate" | "failed";
+  transaction_id?: string;
+  error?: string;
+}
+
+export class DeadLetterService {
+  private static readonly MAX_PAGE_SIZE = 100;
+  private failedWebhookRepo = AppDataSource.getRepository(FailedWebhook);
+  private auditLogRepo = AppDataSource.getRepository(AuditLog);
+
+  /**
+   * List failed webhooks, newest first
+   */
+  async list(
+    filters: FailedWebhookFilters = {}
+  ): Promise<{ items: FailedWebhook[]; total: number }> {
+    const limit = Math.min(
+      filters.limit ?? 50,
+      DeadLetterService.MAX_PAGE_SIZE
+    );
+
+    const query = this.failedWebhookRepo
+      .createQueryBuilder("failed")
+      .orderBy("failed.created_at", "DESC")
+      .take(limit)
+      .skip(filters.offset ?? 0);
+
+    if (filters.error_type) {
+      query.andWhere("failed.error_type = :errorType", {
+        errorType: filters.error_type,
+      });
+    }
+    if (filters.status) {
+      query.andWhere("failed.status = :status", { status: filters.status });
+    }
+    if (filters.provider) {
+      query.andWhere("failed.provider = :provider", {
+        provider: filters.provider,
+      });
+    }
+    if (filters.event_id) {
+      query.andWhere("failed.event_id = :eventId", {
+        eventId: filters.event_id,
+      });
+    }
+    if (filters.from) {
+      query.andWhere("failed.created_at >= :from", { from: filters.from });
+    }
+    if (filters.to) {
+      query.andWhere("failed.created_at <= :to", { to: filters.to });
+    }
+
+    const [items, total] = await query.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * Get a failed webhook with its original payload and audit trail
+   */
+  async get(
+    id: string
+  ): Promise<{ failedWebhook: FailedWebhook; auditTrail: AuditLog[] }> {
+    const failedWebhook = await this.findOrFail(id);
+
+    const auditTrail = await this.auditLogRepo
+      .createQueryBuilder("audit")
+      .where(
+        new Brackets((qb) => {
+          qb.where("audit.replay_of = :id", { id });
+          if (failedWebhook.event_id) {
+            qb.orWhere("audit.event_id = :eventId", {
+              eventId: failedWebhook.event_id,
+            });
+          }
+        })
+      )
+      .orderBy("audit.created_at", "ASC")
+      .getMany();
+
+    return { failedWebhook, auditTrail };
+  }
+
+  /**
+   * Replay a failed webhook through the normal processing pipeline.
+   * Audit rows written during the replay reference the failed webhook.
+   */
+  async replay(id: string): Promise<ReplayResult> {
+    const failedWebhook = await this.findOrFail(id);
+
+    failedWebhook.replay_count += 1;
+    failedWebhook.last_replayed_at = new Date();
+
+    try {
+      const transaction = await webhookService.processWebhook(
+        failedWebhook.payload as WebhookPayload,
+        {
+          provider: failedWebhook.provider,
+          replayOf: failedWebhook.id,
+          receivedAt: failedWebhook.created_at,
+        }
+      );
+
+      failedWebhook.status = FailedWebhookStatus.REPLAYED;
+      failedWebhook.last_replay_error = null;
+      await this.failedWebhookRepo.save(failedWebhook);
+
+      return {
+        id,
+        status: "replayed",
+        transaction_id: transaction?.transaction_id,
+      };
+    } catch (error: any) {
+      // Already processed (e.g. the sender re-sent it) - nothing left to replay
+      if (error instanceof DuplicateTransactionError) {
+        failedWebhook.status = FailedWebhookStatus.REPLAYED;
+        failedWebhook.last_replay_error = error.message;
+        await this.failedWebhookRepo.save(failedWebhook);
+
+        return {
+          id,
+          status: "duplicate",
+          transaction_id: error.existingTransaction.transaction_id,
+        };
+      }
+
+      const message: string = error?.message ?? String(error);
+      failedWebhook.last_replay_error = message;
+      await this.failedWebhookRepo.save(failedWebhook);
+
+      return { id, status: "failed", error: message };
+    }
+  }
+
+  /**
+   * Replay several failed webhooks, one after another in creation order
+   */
+  async replayMany(ids: string[]): Promise<ReplayResult[]> {
+    const failedWebhooks = await this.failedWebhookRepo
+      .createQueryBuilder("failed")
+      .where("failed.id IN (:...ids)", { ids })
+      .orderBy("failed.created_at", "ASC")
+      .getMany();
+
+    const found = new Set(failedWebhooks.map((item) => item.id));
+    const results: ReplayResult[] = ids
+      .filter((id) => !found.has(id))
+      .map((id) => ({ id, status: "failed", error: "Not found" }));
+
+    for (const item of failedWebhooks) {
+      results.push(await this.replay(item.id));
+    }
+
+    return results;
+  }
+
+  private async findOrFail(id: string): Promise<FailedWebhook> {
+    const failedWebhook = await this.failedWebhookRepo.findOne({
+      where: { id },
+    });
+
+    if (!failedWebhook) {
+      throw new FailedWebhookNotFoundError(id);
+    }
+
+    return failedWebhook;
+  }
+}
+
+export const deadLetterService = new DeadLetterService();
@@ -0,0 +1,143 @@
+import * as fs from "fs";
+import { AppDataSource } from "../config/database";
+import { ExchangeRate } from "../entities/ExchangeRate.entity";
+import { Decimal } from "../utils/decimal";
+
+/**
+ * Rate for converting 1 unit of `base` into `quote`
+ */
+export interface ExchangeRateQuote {
+  base: string;
+  quote: string;
+  rate: string;
+  effective_from: Date;
+  source: string;
+}
+
+/**
+ * Source of historical exchange rates
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  /**
+   * Rate for the pair in effect at `at` (latest effective_from <= at),
+   * or null when none is known
+   */
+  getRate(base: string, quote: string, at: Date): Promise<ExchangeRateQuote | null>;
+}
+
+/**
+ * Rates from the exchange_rates table
+ */
+export class TableExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = "table";
+  private rateRepo = AppDataSource.getRepository(ExchangeRate);
+
+  async getRate(
+    base: string,
+    quote: string,
+    at: Date
+  ): Promise<ExchangeRateQuote | null> {
+    const row = await this.rateRepo
+      .createQueryBuilder("rate")
+      .where("rate.base_currency = :base", { base })
+      .andWhere("rate.quote_currency = :quote", { quote })
+      .andWhere("rate.effective_from <= :at", { at })
+      .orderBy("rate.effective_from", "DESC")
+      .getOne();
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      base,
+      quote,
+      rate: String(row.rate),
+      effective_from: row.effective_from,
+      source: row.source,
+    };
+  }
+}
+
+/**
+ * Rates from a JSON file: an array of
+ * { "base", "quote", "rate", "effective_from", "source"? } entries
+ */
+export class FileExchangeRateProvider implements ExchangeRateProvider {
+  readonly name = "file";
+  private rates: ExchangeRateQuote[];
+
+  constructor(path: string) {
+    let entries: any[];
+    try {
+      entries = JSON.parse(fs.readFileSync(path, "utf8"));
+    } catch (error) {
+      throw new Error(`Exchange rates file ${path} must be a valid JSON array`);
+    }
+
+    if (!Array.isArray(entries)) {
+      throw new Error(`Exchange rates file ${path} must be a valid JSON array`);
+    }
+
+    this.rates = entries.map((entry) => {
+      const effectiveFrom = new Date(entry?.effective_from);
+      if (
+        !entry?.base ||
+        !entry?.quote ||
+        !Decimal.isValid(entry?.rate) ||
+        Decimal.from(entry.rate).compare(0) <= 0 ||
+        isNaN(effectiveFrom.getTime())
+      ) {
+        throw new Error(
+          `Invalid exchange rate entry in ${path}: ${JSON.stringify(entry)}`
+        );
+      }
+
+      return {
+        base: String(entry.base).toUpperCase(),
+        quote: String(entry.quote).toUpperCase(),
+        rate: String(entry.rate),
+        effective_from: effectiveFrom,
+        source: entry.source ? String(entry.source) : "file",
+      };
+    });
+  }
+
+  async getRate(
+    base: string,
+    quote: string,
+    at: Date
+  ): Promise<ExchangeRateQuote | null> {
+    const candidates = this.rates
+      .filter(
+        (r) =>
+          r.base === base &&
+          r.quote === quote &&
+          r.effective_from.getTime() <= at.getTime()
+      )
+      .sort((a, b) => b.effective_from.getTime() - a.effective_from.getTime());
+
+    return candidates[0] ?? null;
+  }
+}
+
+/**
+ * Create the provider selected by EXCHANGE_RATE_PROVIDER
+ */
+export const createExchangeRateProvider = (
+  name: string,
+  ratesFile?: string
+): ExchangeRateProvider => {
+  switch (name) {
+    case "table":
+      return new TableExchangeRateProvider();
+    case "file":
+      if (!ratesFile) {
+        throw new Error("EXCHANGE_RATES_FILE is required for the file provider");
+      }
+      return new FileExchangeRateProvider(ratesFile);
+    default:
+      throw new Error(`Unknown exchange rate provider: ${name}`);
+  }
+};
@@ -0,0 +1,200 @@
+import { IsNull } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { exchangeRateConfig, MissingRatePolicy } from "../config/exchangeRates";
+import {
+  Transaction,
+  ConversionStatus,
+} from "../entities/Transaction.entity";
+import { TransactionStatusHistory } from "../entities/TransactionStatusHistory.entity";
+import { TransactionCalculator } from "../validators/transactionValidator";
+import {
+  ExchangeRateProvider,
+  ExchangeRateQuote,
+  createExchangeRateProvider,
+} from "./exchangeRateProviders";
+
+export class ExchangeRateNotFoundError extends Error {
+  constructor(public base: string, public quote: string, public at: Date) {
+    super(`No exchange rate for ${base}->${quote} at ${at.toISOString()}`);
+    this.name = "ExchangeRateNotFoundError";
+  }
+}
+
+export type SettlementFields = ReturnType<
+  typeof TransactionCalculator.calculateSettlement
+>;
+
+export class ExchangeRateService {
+  private transactionRepo = AppDataSource.getRepository(Transaction);
+  private statusHistoryRepo = AppDataSource.getRepository(
+    TransactionStatusHistory
+  );
+
+  constructor(
+    private provider: ExchangeRateProvider,
+    private settlementCurrency: string = exchangeRateConfig.settlementCurrency,
+    private missingRatePolicy: MissingRatePolicy =
+      exchangeRateConfig.missingRatePolicy
+  ) {}
+
+  /**
+   * Rate from `currency` into the settlement currency at `at`
+   */
+  async getQuote(
+    currency: string,
+    at: Date,
+    settlementCurrency: string = this.settlementCurrency
+  ): Promise<ExchangeRateQuote | null> {
+    const base = currency.toUpperCase();
+
+    if (base === settlementCurrency) {
+      return {
+        base,
+        quote: base,
+        rate: "1",
+        effective_from: at,
+        source: "identity",
+      };
+    }
+
+    return this.provider.getRate(base, settlementCurrency, at);
+  }
+
+  /**
+   * Settlement fields for a new transaction. Without a rate the conversion
+   * status follows the missing rate policy ("pending" or "unavailable").
+   */
+  async convert(
+    currency: string,
+    netAmount: string,
+    at: Date
+  ): Promise<SettlementFields> {
+    const quote = await this.getQuote(currency, at);
+
+    return TransactionCalculator.calculateSettlement(
+      netAmount,
+      this.settlementCurrency,
+      quote,
+      this.missingRatePolicy === "pending"
+        ? ConversionStatus.PENDING
+        : ConversionStatus.UNAVAILABLE
+    );
+  }
+
+  /**
+   * Enforce the "reject" missing rate policy
+   * @throws ExchangeRateNotFoundError when there is no rate and the policy is reject
+   */
+  assertConvertible(
+    settlement: SettlementFields,
+    currency: string,
+    at: Date
+  ): void {
+    if (
+      this.missingRatePolicy === "reject" &&
+      settlement.conversion_status !== ConversionStatus.CONVERTED
+    ) {
+      throw new ExchangeRateNotFoundError(
+        currency.toUpperCase(),
+        settlement.settlement_currency,
+        at
+      );
+    }
+  }
+
+  /**
+   * Convert transactions stored as pending conversion whose rate is now
+   * available, using the rate in effect when the transaction was created.
+   * Walks every pending row in batches of `limit` (keyset on id), so rows
+   * that still have no rate do not hide newer convertible ones.
+   * @returns converted rows, rows examined that still have no rate, and
+   *   rows still pending afterwards
+   */
+  async convertPending(
+    limit: number = 100
+  ): Promise<{ converted: number; unconverted: number; pending: number }> {
+    let converted = 0;
+    let unconverted = 0;
+    let lastId: string | null = null;
+
+    while (true) {
+      const query = this.transactionRepo
+        .createQueryBuilder("transaction")
+        .where("transaction.conversion_status = :pending", {
+          pending: ConversionStatus.PENDING,
+        })
+        .orderBy("transaction.id", "ASC")
+        .take(limit);
+      if (lastId) {
+        query.andWhere("transaction.id > :lastId", { lastId });
+      }
+
+      const transactions = await query.getMany();
+      if (transactions.length === 0) {
+        break;
+      }
+      lastId = transactions[transactions.length - 1].id;
+
+      for (const transaction of transactions) {
+        if (await this.convertTransaction(transaction)) {
+          converted++;
+        } else {
+          unconverted++;
+        }
+      }
+
+      if (transactions.length < limit) {
+        break;
+      }
+    }
+
+    const pending = await this.transactionRepo.count({
+      where: { conversion_status: ConversionStatus.PENDING },
+    });
+
+    return { converted, unconverted, pending };
+  }
+
+  /**
+   * Convert one pending transaction at the rate of its creation time
+   * @returns false when there is still no rate (or it was converted by
+   *   another run meanwhile)
+   */
+  private async convertTransaction(transaction: Transaction): Promise<boolean> {
+    const created = await this.statusHistoryRepo.findOne({
+      where: { transaction_ref_id: transaction.id, from_status: IsNull() },
+    });
+    const at = created?.event_timestamp ?? transaction.created_at;
+
+    const settlementCurrency =
+      transaction.settlement_currency ?? this.settlementCurrency;
+    const quote = await this.getQuote(
+      transaction.currency,
+      at,
+      settlementCurrency
+    );
+    if (!quote || transaction.net_amount === null) {
+      return false;
+    }
+
+    const fields = TransactionCalculator.calculateSettlement(
+      transaction.net_amount,
+      settlementCurrency,
+      quote
+    );
+
+    // Only touch rows that are still pending (another run may be active)
+    const result = await this.transactionRepo.update(
+      { id: transaction.id, conversion_status: ConversionStatus.PENDING },
+      fields
+    );
+    return (result.affected ?? 0) > 0;
+  }
+}
+
+export const exchangeRateService = new ExchangeRateService(
+  createExchangeRateProvider(
+    exchangeRateConfig.provider,
+    exchangeRateConfig.ratesFile
+  )
+);
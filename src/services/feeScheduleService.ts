@@ -0,0 +1,174 @@
+import { AppDataSource } from "../config/database";
+import {
+  FeeSchedule,
+  FeeRule,
+  feeScheduleConfig,
+  loadFeeSchedules,
+  parseFeeSchedule,
+} from "../config/feeSchedules";
+import { FeeScheduleVersion } from "../entities/FeeScheduleVersion.entity";
+import { Transaction } from "../entities/Transaction.entity";
+import { FeeEngine, FeeInput, FeeResult } from "../utils/feeEngine";
+import { Decimal } from "../utils/decimal";
+
+export class NoActiveFeeScheduleError extends Error {
+  constructor(public at: Date) {
+    super(`No fee schedule is effective at ${at.toISOString()}`);
+    this.name = "NoActiveFeeScheduleError";
+  }
+}
+
+export interface FeeExplanation {
+  schedule: Pick<FeeSchedule, "id" | "version" | "effective_from"> | null;
+  rule: FeeRule | null;
+  stored: {
+    processing_fee: string | null;
+    net_amount: string | null;
+  };
+  // Fee recomputed with the stored schedule version
+  recomputed: FeeResult | null;
+  matches: boolean;
+}
+
+/**
+ * Resolves fee schedules (database table first, then configuration)
+ * and calculates fees with the schedule in effect at a given time
+ */
+export class FeeScheduleService {
+  private scheduleRepo = AppDataSource.getRepository(FeeScheduleVersion);
+  private configSchedules = loadFeeSchedules();
+  private cache: { schedules: FeeSchedule[]; loadedAt: number } | null = null;
+
+  /**
+   * All known schedule versions. Database schedules replace the configured
+   * ones as soon as the fee_schedules table has any rows.
+   */
+  async getSchedules(): Promise<FeeSchedule[]> {
+    if (
+      this.cache &&
+      Date.now() - this.cache.loadedAt < feeScheduleConfig.cacheTtlMs
+    ) {
+      return this.cache.schedules;
+    }
+
+    const rows = await this.scheduleRepo.find();
+    const schedules = rows.length
+      ? rows.map((row) =>
+          parseFeeSchedule({
+            id: row.schedule_id,
+            version: row.version,
+            effective_from: row.effective_from,
+            rules: row.rules,
+          })
+        )
+      : this.configSchedules;
+
+    this.cache = { schedules, loadedAt: Date.now() };
+    return schedules;
+  }
+
+  /**
+   * Time whose schedule prices an event: its timestamp, clamped to the
+   * allowed skew around the time the webhook was received, so a backdated
+   * (or future-dated) event cannot pick other pricing
+   */
+  pricingTime(eventTimestamp: Date, receivedAt: Date): Date {
+    const skew = feeScheduleConfig.maxTimestampSkewMs;
+    return new Date(
+      Math.min(
+        Math.max(eventTimestamp.getTime(), receivedAt.getTime() - skew),
+        receivedAt.getTime() + skew
+      )
+    );
+  }
+
+  /**
+   * Schedule in effect at a time: latest effective_from, then highest version
+   */
+  async getActiveSchedule(at: Date = new Date()): Promise<FeeSchedule> {
+    const active = (await this.getSchedules())
+      .filter((schedule) => schedule.effective_from.getTime() <= at.getTime())
+      .sort(
+        (a, b) =>
+          b.effective_from.getTime() - a.effective_from.getTime() ||
+          b.version - a.version
+      )[0];
+
+    if (!active) {
+      throw new NoActiveFeeScheduleError(at);
+    }
+    return active;
+  }
+
+  async getSchedule(id: string, version: number): Promise<FeeSchedule | null> {
+    const schedules = await this.getSchedules();
+    return (
+      schedules.find((s) => s.id === id && s.version === version) ?? null
+    );
+  }
+
+  /**
+   * Calculate fees with the schedule in effect at `at`
+   */
+  async calculateFees(
+    input: FeeInput,
+    at: Date = new Date()
+  ): Promise<FeeResult> {
+    const schedule = await this.getActiveSchedule(at);
+    return FeeEngine.calculate(schedule, input);
+  }
+
+  /**
+   * Explain a stored fee: the schedule version and rule that produced it,
+   * and whether recomputing with that version gives the same result
+   */
+  async explain(transaction: Transaction): Promise<FeeExplanation> {
+    const stored = {
+      processing_fee: transaction.processing_fee,
+      net_amount: transaction.net_amount,
+    };
+
+    const schedule =
+      transaction.fee_schedule_id && transaction.fee_schedule_version
+        ? await this.getSchedule(
+            transaction.fee_schedule_id,
+            transaction.fee_schedule_version
+          )
+        : null;
+
+    if (!schedule) {
+      return {
+        schedule: null,
+        rule: null,
+        stored,
+        recomputed: null,
+        matches: false,
+      };
+    }
+
+    const recomputed = FeeEngine.calculate(schedule, transaction);
+    const rule =
+      schedule.rules.find((r) => r.id === transaction.fee_rule_id) ?? null;
+
+    return {
+      schedule: {
+        id: schedule.id,
+        version: schedule.version,
+        effective_from: schedule.effective_from,
+      },
+      rule,
+      stored,
+      recomputed,
+      matches:
+        recomputed.fee_rule_id === transaction.fee_rule_id &&
+        stored.processing_fee !== null &&
+        stored.net_amount !== null &&
+        Decimal.from(stored.processing_fee).compare(
+          recomputed.processing_fee
+        ) === 0 &&
+        Decimal.from(stored.net_amount).compare(recomputed.net_amount) === 0,
+    };
+  }
+}
+
+export const feeScheduleService = new FeeScheduleService();
@@ -0,0 +1,202 @@
+import { AppDataSource } from "../config/database";
+import { lifecycleConfig } from "../config/lifecycle";
+import { providerRegistry } from "../providers/providerRegistry";
+import { signatureValidator } from "../utils/signatureValidator";
+import { lifecycleService, LifecycleState } from "./lifecycleService";
+
+export interface HealthCheck {
+  status: "up" | "down";
+  latency_ms?: number;
+  error?: string;
+  [detail: string]: any;
+}
+
+export interface LivenessReport {
+  status: "alive";
+  state: LifecycleState;
+  uptime_seconds: number;
+  timestamp: string;
+}
+
+export interface ReadinessReport {
+  status: "healthy" | "unhealthy";
+  state: LifecycleState;
+  timestamp: string;
+  checks: Record<string, HealthCheck>;
+}
+
+export class HealthCheckTimeoutError extends Error {
+  constructor(public check: string, public timeoutMs: number) {
+    super(`${check} check timed out after ${timeoutMs}ms`);
+    this.name = "HealthCheckTimeoutError";
+  }
+}
+
+export class HealthService {
+  private startedAt = Date.now();
+
+  constructor(private timeoutMs = lifecycleConfig.healthCheckTimeoutMs) {}
+
+  /**
+   * Liveness: the process is up and its event loop responds. Does not
+   * touch dependencies, so a database outage does not restart the process.
+   */
+  liveness(): LivenessReport {
+    return {
+      status: "alive",
+      state: lifecycleService.getState(),
+      uptime_seconds: Math.floor((Date.now() - this.startedAt) / 1000),
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Readiness: the service can process webhooks - it is not starting or
+   * shutting down, the database answers, its schema has every column the
+   * entities use (no pending migrations) and every provider has an active
+   * signing key
+   */
+  async readiness(): Promise<ReadinessReport> {
+    const [database, migrations] = await Promise.all([
+      this.runCheck("database", () => this.checkDatabase()),
+      this.runCheck("migrations", () => this.checkMigrations()),
+    ]);
+    const checks: Record<string, HealthCheck> = {
+      database,
+      migrations,
+      signing_keys: this.checkSigningKeys(),
+    };
+
+    const state = lifecycleService.getState();
+    const healthy =
+      state === "ready" &&
+      Object.values(checks).every((check) => check.status === "up");
+
+    return {
+      status: healthy ? "healthy" : "unhealthy",
+      state,
+      timestamp: new Date().toISOString(),
+      checks,
+    };
+  }
+
+  private async checkDatabase(): Promise<HealthCheck> {
+    if (!AppDataSource.isInitialized) {
+      return { status: "down", error: "Database is not connected" };
+    }
+    await AppDataSource.query("SELECT 1");
+    return { status: "up" };
+  }
+
+  /**
+   * Compare the entity columns with the database schema (migrations are
+   * applied as SQL files, so missing tables or columns mean pending ones)
+   * and report TypeORM migrations that have not run, if any are registered
+   */
+  private async checkMigrations(): Promise<HealthCheck> {
+    if (!AppDataSource.isInitialized) {
+      return { status: "down", error: "Database is not connected" };
+    }
+
+    const expected = AppDataSource.entityMetadatas.map((metadata) => ({
+      table: metadata.tableName,
+      columns: metadata.columns.map((column) => column.databaseName),
+    }));
+
+    const rows: { table_name: string; column_name: string }[] =
+      await AppDataSource.query(
+        `SELECT table_name, column_name
+           FROM information_schema.columns
+          WHERE table_schema = current_schema()
+            AND table_name = ANY($1)`,
+        [expected.map((entity) => entity.table)]
+      );
+    const existing = new Set(
+      rows.map((row) => `${row.table_name}.${row.column_name}`)
+    );
+
+    const missing = expected.flatMap(({ table, columns }) =>
+      columns
+        .map((column) => `${table}.${column}`)
+        .filter((column) => !existing.has(column))
+    );
+
+    const pendingMigrations =
+      AppDataSource.migrations.length > 0 &&
+      (await AppDataSource.showMigrations());
+
+    if (missing.length > 0 || pendingMigrations) {
+      return {
+        status: "down",
+        error:
+          "Database schema is behind the application; apply pending migrations",
+        missing_columns: missing,
+        pending_typeorm_migrations: pendingMigrations,
+      };
+    }
+    return { status: "up" };
+  }
+
+  /**
+   * Every registered provider needs at least one key valid right now
+   * (keys may not be valid yet or may have expired)
+   */
+  private checkSigningKeys(): HealthCheck {
+    const activeKeys = Object.fromEntries(
+      providerRegistry
+        .list()
+        .map((name) => [
+          name,
+          signatureValidator.getActiveKeyIds(
+            providerRegistry.get(name).signature.keys
+          ).length,
+        ])
+    );
+
+    const withoutKeys = Object.keys(activeKeys).filter(
+      (name) => activeKeys[name] === 0
+    );
+    if (withoutKeys.length > 0) {
+      return {
+        status: "down",
+        error: `No active signing key for: ${withoutKeys.join(", ")}`,
+        active_keys: activeKeys,
+      };
+    }
+    return { status: "up", active_keys: activeKeys };
+  }
+
+  /**
+   * Run a check with a timeout; errors are reported as "down"
+   */
+  private async runCheck(
+    name: string,
+    check: () => Promise<HealthCheck>
+  ): Promise<HealthCheck> {
+    const start = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const result = await Promise.race([
+        check(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new HealthCheckTimeoutError(name, this.timeoutMs)),
+            this.timeoutMs
+          );
+        }),
+      ]);
+      return { ...result, latency_ms: Date.now() - start };
+    } catch (error: any) {
+      return {
+        status: "down",
+        latency_ms: Date.now() - start,
+        error: error?.message ?? String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const healthService = new HealthService();
@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import { AppDataSource } from "../config/database";
+import { IdempotencyRecord } from "../entities/IdempotencyRecord.entity";
+import { logger } from "../utils/logger";
+
+export interface IdempotencyKey {
+  provider: string;
+  event_id: string;
+  payload_hash: string;
+}
+
+export class IdempotencyService {
+  private recordRepo = AppDataSource.getRepository(IdempotencyRecord);
+
+  /**
+   * Hash a raw request body for payload comparison
+   */
+  static hashPayload(rawBody: string | Buffer): string {
+    return crypto.createHash("sha256").update(rawBody).digest("hex");
+  }
+
+  /**
+   * Find the stored response for an event
+   */
+  async find(key: IdempotencyKey): Promise<IdempotencyRecord | null> {
+    return this.recordRepo.findOne({
+      where: { provider: key.provider, event_id: key.event_id },
+    });
+  }
+
+  /**
+   * Store the first response for an event. If another request stored one
+   * first, the existing record is kept.
+   */
+  async save(
+    key: IdempotencyKey,
+    statusCode: number,
+    responseBody: Record<string, any>
+  ): Promise<void> {
+    try {
+      await this.recordRepo
+        .createQueryBuilder()
+        .insert()
+        .into(IdempotencyRecord)
+        .values({
+          provider: key.provider,
+          event_id: key.event_id,
+          payload_hash: key.payload_hash,
+          status_code: statusCode,
+          response_body: responseBody,
+        })
+        .orIgnore()
+        .execute();
+    } catch (error) {
+      // The response is still sent; a retry is then processed again
+      logger.error("Failed to store idempotent response", { error });
+    }
+  }
+
+  /**
+   * Whether a response should be replayed for retries.
+   * Server errors are transient, and 409 is only sent when another
+   * delivery owns the stored response.
+   */
+  static isStorable(statusCode: number): boolean {
+    return statusCode < 500 && statusCode !== 409;
+  }
+}
+
+export const idempotencyService = new IdempotencyService();
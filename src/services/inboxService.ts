@@ -0,0 +1,122 @@
+import { AppDataSource } from "../config/database";
+import { inboxConfig } from "../config/inbox";
+import { WebhookInbox, InboxStatus } from "../entities/WebhookInbox.entity";
+
+export class InboxService {
+  private inboxRepo = AppDataSource.getRepository(WebhookInbox);
+
+  /**
+   * Durably store a verified webhook for background processing
+   */
+  async enqueue(
+    provider: string,
+    rawBody: string,
+    signingKeyId?: string,
+    correlationId?: string
+  ): Promise<WebhookInbox> {
+    const entry = this.inboxRepo.create({
+      provider,
+      raw_body: rawBody,
+      signing_key_id: signingKeyId ?? null,
+      correlation_id: correlationId ?? null,
+      status: InboxStatus.PENDING,
+      next_attempt_at: new Date(),
+    });
+
+    return this.inboxRepo.save(entry);
+  }
+
+  /**
+   * Claim rows that are due for processing.
+   * Uses SELECT ... FOR UPDATE SKIP LOCKED so several workers never
+   * claim the same row. Rows left in "processing" past the lock timeout
+   * (e.g. after a crash) are claimed again.
+   */
+  async claimBatch(limit: number): Promise<WebhookInbox[]> {
+    return AppDataSource.transaction(async (manager) => {
+      const now = new Date();
+      const staleLockBefore = new Date(
+        now.getTime() - inboxConfig.lockTimeoutMs
+      );
+
+      const rows = await manager
+        .createQueryBuilder(WebhookInbox, "inbox")
+        .where(
+          "(inbox.status IN (:...ready) AND inbox.next_attempt_at <= :now)",
+          { ready: [InboxStatus.PENDING, InboxStatus.FAILED], now }
+        )
+        .orWhere(
+          "(inbox.status = :processing AND inbox.locked_at < :staleLockBefore)",
+          { processing: InboxStatus.PROCESSING, staleLockBefore }
+        )
+        .orderBy("inbox.created_at", "ASC")
+        .limit(limit)
+        .setLock("pessimistic_write")
+        .setOnLocked("skip_locked")
+        .getMany();
+
+      if (rows.length === 0) {
+        return [];
+      }
+
+      await manager
+        .createQueryBuilder()
+        .update(WebhookInbox)
+        .set({
+          status: InboxStatus.PROCESSING,
+          locked_at: now,
+          attempts: () => "attempts + 1",
+        })
+        .whereInIds(rows.map((row) => row.id))
+        .execute();
+
+      return rows.map((row) =>
+        Object.assign(row, {
+          status: InboxStatus.PROCESSING,
+          locked_at: now,
+          attempts: row.attempts + 1,
+        })
+      );
+    });
+  }
+
+  /**
+   * Mark a claimed row as successfully processed
+   */
+  async markProcessed(entry: WebhookInbox): Promise<void> {
+    await this.inboxRepo.update(entry.id, {
+      status: InboxStatus.PROCESSED,
+      locked_at: null,
+      last_error: null,
+      processed_at: new Date(),
+    });
+  }
+
+  /**
+   * Record a failed attempt. Permanent failures, and rows that have used
+   * all their attempts, move to the dead-letter state; others are retried
+   * with exponential backoff.
+   */
+  async markFailed(
+    entry: WebhookInbox,
+    error: any,
+    permanent: boolean = false
+  ): Promise<InboxStatus> {
+    const deadLetter = permanent || entry.attempts >= inboxConfig.maxAttempts;
+    const status = deadLetter ? InboxStatus.DEAD_LETTER : InboxStatus.FAILED;
+    const delay =
+      inboxConfig.retryBaseDelayMs *
+      Math.pow(2, Math.max(entry.attempts - 1, 0));
+
+    await this.inboxRepo.update(entry.id, {
+      status,
+      locked_at: null,
+      last_error: error?.message ?? String(error),
+      next_attempt_at: new Date(Date.now() + delay),
+    });
+
+    return status;
+  }
+}
+
+export const inboxService = new InboxService();
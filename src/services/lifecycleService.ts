@@ -0,0 +1,155 @@
+import { Server } from "http";
+import { AppDataSource } from "../config/database";
+import { lifecycleConfig } from "../config/lifecycle";
+import { logger } from "../utils/logger";
+
+// starting: connecting to the database; ready: serving traffic;
+// shutting_down: draining in-flight requests before exit
+export type LifecycleState = "starting" | "ready" | "shutting_down";
+
+interface ShutdownHook {
+  name: string;
+  stop: () => Promise<void>;
+}
+
+/**
+ * Process lifecycle: tracks in-flight requests and drains them (and the
+ * background workers) before the database connection is closed
+ */
+export class LifecycleService {
+  private state: LifecycleState = "starting";
+  private inFlight = 0;
+  private idleWaiters: (() => void)[] = [];
+  private hooks: ShutdownHook[] = [];
+
+  constructor(private shutdownTimeoutMs = lifecycleConfig.shutdownTimeoutMs) {}
+
+  getState(): LifecycleState {
+    return this.state;
+  }
+
+  get inFlightRequests(): number {
+    return this.inFlight;
+  }
+
+  markReady(): void {
+    if (this.state === "starting") {
+      this.state = "ready";
+    }
+  }
+
+  /**
+   * Register a background task to stop on shutdown (stopped in parallel,
+   * after new requests are refused)
+   */
+  onShutdown(name: string, stop: () => Promise<void>): void {
+    this.hooks.push({ name, stop });
+  }
+
+  requestStarted(): void {
+    this.inFlight++;
+  }
+
+  requestFinished(): void {
+    this.inFlight = Math.max(0, this.inFlight - 1);
+    if (this.inFlight === 0) {
+      this.idleWaiters.splice(0).forEach((resolve) => resolve());
+    }
+  }
+
+  /**
+   * Stop accepting requests, wait for in-flight requests and worker
+   * batches (up to SHUTDOWN_TIMEOUT_MS) and close the database connection
+   * @returns false when the timeout cut off unfinished work
+   */
+  async shutdown(server: Server | null, signal: string): Promise<boolean> {
+    this.state = "shutting_down";
+    const deadline = Date.now() + this.shutdownTimeoutMs;
+
+    logger.info("Shutting down", {
+      signal,
+      in_flight_requests: this.inFlight,
+    });
+
+    // No new connections; idle keep-alive connections are closed now and
+    // busy ones once drained. Requests that still arrive on them get 503.
+    server?.close();
+    server?.closeIdleConnections();
+
+    const [drained, stopped] = await Promise.all([
+      this.waitUntil(this.waitForIdle(), deadline),
+      this.waitUntil(this.stopHooks(), deadline),
+    ]);
+
+    if (drained) {
+      server?.closeIdleConnections();
+    } else {
+      logger.warn("Shutdown timeout: closing unfinished requests", {
+        in_flight_requests: this.inFlight,
+      });
+      server?.closeAllConnections();
+    }
+    if (!stopped) {
+      logger.warn("Shutdown timeout: background workers still running");
+    }
+
+    try {
+      if (AppDataSource.isInitialized) {
+        await AppDataSource.destroy();
+      }
+    } catch (error) {
+      logger.error("Failed to close database connection", { error });
+      return false;
+    }
+
+    logger.info("Shutdown complete", { drained, workers_stopped: stopped });
+    return drained && stopped;
+  }
+
+  private waitForIdle(): Promise<void> {
+    if (this.inFlight === 0) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  private async stopHooks(): Promise<void> {
+    await Promise.all(
+      this.hooks.map(async (hook) => {
+        try {
+          await hook.stop();
+        } catch (error) {
+          logger.error("Failed to stop background task", {
+            task: hook.name,
+            error,
+          });
+        }
+      })
+    );
+  }
+
+  /**
+   * Resolve true when the promise settles before the deadline, false
+   * otherwise
+   */
+  private async waitUntil(
+    promise: Promise<void>,
+    deadline: number
+  ): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>((resolve) => {
+      timer = setTimeout(
+        () => resolve(false),
+        Math.max(0, deadline - Date.now())
+      );
+    });
+
+    try {
+      return await Promise.race([promise.then(() => true), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+export const lifecycleService = new LifecycleService();
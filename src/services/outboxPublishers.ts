@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import { OutboxEvent } from "../entities/OutboxEvent.entity";
+import { OutboundEventType } from "../entities/Subscription.entity";
+import { subscriptionService } from "./subscriptionService";
+
+/**
+ * Destination of outbox events. Delivery is at-least-once: an event may be
+ * published again after a crash, so publishers (or their consumers) must
+ * tolerate duplicates, e.g. by deduplicating on the event id.
+ * Throwing rejects the event; it is retried with backoff.
+ */
+export interface OutboxPublisher {
+  name: string;
+  publish(event: OutboxEvent): Promise<void>;
+}
+
+/**
+ * Queue outbound subscription deliveries in the same process
+ */
+export class SubscriptionOutboxPublisher implements OutboxPublisher {
+  readonly name = "subscriptions";
+
+  async publish(event: OutboxEvent): Promise<void> {
+    await subscriptionService.publish({
+      id: event.id,
+      type: event.event_type as OutboundEventType,
+      created_at: event.created_at.toISOString(),
+      data: event.payload,
+    });
+  }
+}
+
+/**
+ * Append each event as one JSON line to a file (for local development and
+ * for shipping with a log collector)
+ */
+export class FileOutboxPublisher implements OutboxPublisher {
+  readonly name = "file";
+
+  constructor(private path: string) {}
+
+  async publish(event: OutboxEvent): Promise<void> {
+    const line = JSON.stringify({
+      id: event.id,
+      sequence: event.sequence,
+      aggregate_type: event.aggregate_type,
+      aggregate_id: event.aggregate_id,
+      type: event.event_type,
+      created_at: event.created_at,
+      data: event.payload,
+    });
+
+    await fs.promises.appendFile(this.path, `${line}\n`, "utf8");
+  }
+}
+
+/**
+ * Create the publisher selected by OUTBOX_PUBLISHER
+ */
+export const createOutboxPublisher = (
+  name: string,
+  file?: string
+): OutboxPublisher => {
+  switch (name) {
+    case "subscriptions":
+      return new SubscriptionOutboxPublisher();
+    case "file":
+      if (!file) {
+        throw new Error("OUTBOX_FILE is required for the file publisher");
+      }
+      return new FileOutboxPublisher(file);
+    default:
+      throw new Error(`Unknown outbox publisher: ${name}`);
+  }
+};
@@ -0,0 +1,158 @@
+import { EntityManager } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { outboxConfig } from "../config/outbox";
+import { OutboxEvent } from "../entities/OutboxEvent.entity";
+import { OutboundEventType } from "../entities/Subscription.entity";
+import {
+  Transaction,
+  TransactionStatus,
+} from "../entities/Transaction.entity";
+import { OutboxPublisher, createOutboxPublisher } from "./outboxPublishers";
+import { logger } from "../utils/logger";
+
+export class OutboxService {
+  private outboxRepo = AppDataSource.getRepository(OutboxEvent);
+
+  constructor(private publisher: OutboxPublisher) {}
+
+  /**
+   * Write an event about a transaction through the caller's entity manager,
+   * so it commits (or rolls back) together with the change it describes
+   */
+  async enqueueTransactionEvent(
+    manager: EntityManager,
+    transaction: Transaction,
+    type: OutboundEventType,
+    previousStatus: TransactionStatus | null
+  ): Promise<void> {
+    await manager.insert(OutboxEvent, {
+      aggregate_type: "transaction",
+      aggregate_id: transaction.id,
+      event_type: type,
+      payload: this.buildTransactionPayload(transaction, previousStatus),
+    });
+  }
+
+  /**
+   * Publish due events in sequence order.
+   * Only the oldest unpublished event of each aggregate is eligible, so
+   * events of one transaction are published one after the other, and a
+   * rejected event holds back the later events of its transaction until it
+   * is accepted. Rows stay locked (FOR UPDATE SKIP LOCKED) while they are
+   * published, so concurrent relays never publish the same event at once.
+   */
+  async relayBatch(
+    limit: number = outboxConfig.batchSize
+  ): Promise<{ published: number; failed: number }> {
+    return AppDataSource.transaction(async (manager) => {
+      const now = new Date();
+
+      const events = await manager
+        .createQueryBuilder(OutboxEvent, "outbox")
+        .where("outbox.published_at IS NULL")
+        .andWhere("outbox.next_attempt_at <= :now", { now })
+        .andWhere(
+          `NOT EXISTS (
+            SELECT 1 FROM outbox_events earlier
+            WHERE earlier.aggregate_id = outbox.aggregate_id
+              AND earlier.published_at IS NULL
+              AND earlier.sequence < outbox.sequence
+          )`
+        )
+        .orderBy("outbox.sequence", "ASC")
+        .limit(limit)
+        .setLock("pessimistic_write")
+        .setOnLocked("skip_locked")
+        .getMany();
+
+      let published = 0;
+      let failed = 0;
+
+      for (const event of events) {
+        try {
+          await this.publisher.publish(event);
+          await manager.update(OutboxEvent, event.id, {
+            attempts: event.attempts + 1,
+            last_error: null,
+            published_at: new Date(),
+          });
+          published++;
+        } catch (error: any) {
+          await manager.update(OutboxEvent, event.id, {
+            attempts: event.attempts + 1,
+            last_error: error?.message ?? String(error),
+            next_attempt_at: new Date(
+              Date.now() + this.retryDelay(event.attempts + 1)
+            ),
+          });
+          failed++;
+          logger.error("Outbox event rejected by publisher", {
+            outbox_event_id: event.id,
+            publisher: this.publisher.name,
+            attempt: event.attempts + 1,
+            error,
+          });
+        }
+      }
+
+      return { published, failed };
+    });
+  }
+
+  /**
+   * Unpublished events and the age of the oldest one
+   */
+  async getBacklog(): Promise<{ pending: number; oldest_at: Date | null }> {
+    const oldest = await this.outboxRepo
+      .createQueryBuilder("outbox")
+      .where("outbox.published_at IS NULL")
+      .orderBy("outbox.sequence", "ASC")
+      .getOne();
+    const pending = await this.outboxRepo
+      .createQueryBuilder("outbox")
+      .where("outbox.published_at IS NULL")
+      .getCount();
+
+    return { pending, oldest_at: oldest?.created_at ?? null };
+  }
+
+  /**
+   * Exponential backoff, capped (events are retried until accepted)
+   */
+  private retryDelay(attempts: number): number {
+    return Math.min(
+      outboxConfig.retryBaseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)),
+      outboxConfig.retryMaxDelayMs
+    );
+  }
+
+  private buildTransactionPayload(
+    transaction: Transaction,
+    previousStatus: TransactionStatus | null
+  ): Record<string, any> {
+    return {
+      id: transaction.id,
+      transaction_id: transaction.transaction_id,
+      status: transaction.status,
+      previous_status: previousStatus,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      processing_fee: transaction.processing_fee,
+      net_amount: transaction.net_amount,
+      refunded_amount: transaction.refunded_amount,
+      settlement_currency: transaction.settlement_currency,
+      settlement_net_amount: transaction.settlement_net_amount,
+      sender_id: transaction.sender_id,
+      sender_country: transaction.sender_country,
+      receiver_id: transaction.receiver_id,
+      receiver_country: transaction.receiver_country,
+      payment_method: transaction.payment_method,
+      provider: transaction.provider,
+      processed_at: transaction.processed_at,
+    };
+  }
+}
+
+export const outboxService = new OutboxService(
+  createOutboxPublisher(outboxConfig.publisher, outboxConfig.file)
+);
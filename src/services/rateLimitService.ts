@@ -0,0 +1,109 @@
+import { webhookLimitsConfig } from "../config/webhookLimits";
+import { logger } from "../utils/logger";
+import { RateLimitDecision, TokenBucketLimit } from "../utils/tokenBucket";
+import {
+  createRateLimitStore,
+  MemoryRateLimitStore,
+  RateLimitStore,
+} from "./rateLimitStores";
+
+// ip: per source address; sender: per provider and signing key
+export type RateLimitScope = "ip" | "sender";
+
+export interface RateLimitResult extends RateLimitDecision {
+  scope: RateLimitScope;
+  key: string;
+  limit: TokenBucketLimit;
+}
+
+export class RateLimitService {
+  private store: RateLimitStore;
+  // Throttles audit rows for rejections (one per key and interval)
+  private auditStore = new MemoryRateLimitStore();
+  private auditLimit: TokenBucketLimit;
+
+  constructor(private config = webhookLimitsConfig) {
+    const limits = [config.ip, config.sender];
+    const idleAfterMs = Math.max(
+      ...limits.map((limit) => (limit.capacity / limit.refillPerSecond) * 1000)
+    );
+
+    this.store = createRateLimitStore(config.store, idleAfterMs);
+    this.auditLimit = {
+      capacity: 1,
+      refillPerSecond: 1000 / Math.max(1, config.rejectionAuditIntervalMs),
+    };
+  }
+
+  /**
+   * Take a token for a request from this source IP
+   */
+  checkIp(ip: string): Promise<RateLimitResult> {
+    return this.check("ip", `ip:${ip}`, this.config.ip);
+  }
+
+  /**
+   * Take a token for a request signed with this provider's key
+   */
+  checkSender(
+    provider: string,
+    signingKeyId: string
+  ): Promise<RateLimitResult> {
+    return this.check(
+      "sender",
+      `sender:${provider}:${signingKeyId}`,
+      this.config.sender
+    );
+  }
+
+  /**
+   * Whether a rejection for this key should be written to the audit trail
+   * (at most once per WEBHOOK_REJECTION_AUDIT_INTERVAL_MS)
+   */
+  async shouldAudit(key: string): Promise<boolean> {
+    const { allowed } = await this.auditStore.take(key, this.auditLimit);
+    return allowed;
+  }
+
+  /**
+   * Store errors let the request through: a rate limiter outage should
+   * not stop payments from being processed
+   */
+  private async check(
+    scope: RateLimitScope,
+    key: string,
+    limit: TokenBucketLimit
+  ): Promise<RateLimitResult> {
+    if (!this.config.rateLimitEnabled) {
+      return {
+        scope,
+        key,
+        limit,
+        allowed: true,
+        remaining: limit.capacity,
+        retryAfterSeconds: 0,
+      };
+    }
+
+    try {
+      const decision = await this.store.take(key, limit);
+      return { scope, key, limit, ...decision };
+    } catch (error) {
+      logger.error("Rate limit check failed, allowing request", {
+        store: this.store.name,
+        key,
+        error,
+      });
+      return {
+        scope,
+        key,
+        limit,
+        allowed: true,
+        remaining: 0,
+        retryAfterSeconds: 0,
+      };
+    }
+  }
+}
+
+export const rateLimitService = new RateLimitService();
@@ -0,0 +1,126 @@
+import { AppDataSource } from "../config/database";
+import { RateLimitStoreName } from "../config/webhookLimits";
+import {
+  decide,
+  RateLimitDecision,
+  refill,
+  takeToken,
+  TokenBucketLimit,
+  TokenBucketState,
+} from "../utils/tokenBucket";
+
+/**
+ * Where token buckets are kept. take() removes one token from the bucket
+ * under `key` (creating it full) and reports whether there was one.
+ */
+export interface RateLimitStore {
+  name: string;
+  take(key: string, limit: TokenBucketLimit): Promise<RateLimitDecision>;
+}
+
+/**
+ * Buckets in this process only (each instance limits on its own)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private buckets = new Map<
+    string,
+    TokenBucketState & { limit: TokenBucketLimit }
+  >();
+
+  constructor(private maxBuckets = 10000) {}
+
+  async take(
+    key: string,
+    limit: TokenBucketLimit
+  ): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const { state, decision } = takeToken(this.buckets.get(key), limit, now);
+
+    if (!this.buckets.has(key) && this.buckets.size >= this.maxBuckets) {
+      this.sweep(now);
+    }
+    this.buckets.set(key, { ...state, limit });
+
+    return decision;
+  }
+
+  /**
+   * Forget buckets that have refilled completely (same as a new bucket)
+   */
+  private sweep(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (refill(bucket, bucket.limit, now) >= bucket.limit.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Buckets in the rate_limit_buckets table, shared by all instances. The
+ * refill and take happen in one upsert, so concurrent requests for the
+ * same key are serialized by its row lock.
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+  private static readonly SWEEP_EVERY = 1000;
+  private takes = 0;
+
+  // Buckets idle this long have refilled completely and can be deleted
+  constructor(private idleAfterMs: number) {}
+
+  async take(
+    key: string,
+    limit: TokenBucketLimit
+  ): Promise<RateLimitDecision> {
+    const refilled = `LEAST($2::float8, bucket.tokens
+      + EXTRACT(EPOCH FROM LOCALTIMESTAMP - bucket.updated_at) * $3::float8)`;
+
+    const rows: { tokens: number; allowed: boolean }[] =
+      await AppDataSource.query(
+        `INSERT INTO rate_limit_buckets AS bucket (key, tokens, allowed, updated_at)
+         VALUES ($1, $2::float8 - 1, TRUE, LOCALTIMESTAMP)
+         ON CONFLICT (key) DO UPDATE SET
+           allowed = ${refilled} >= 1,
+           tokens = CASE WHEN ${refilled} >= 1
+                         THEN ${refilled} - 1
+                         ELSE ${refilled} END,
+           updated_at = LOCALTIMESTAMP
+         RETURNING tokens, allowed`,
+        [key, limit.capacity, limit.refillPerSecond]
+      );
+
+    if (++this.takes % PostgresRateLimitStore.SWEEP_EVERY === 0) {
+      await this.sweep();
+    }
+
+    return decide(rows[0].allowed, Number(rows[0].tokens), limit);
+  }
+
+  private async sweep(): Promise<void> {
+    await AppDataSource.query(
+      `DELETE FROM rate_limit_buckets
+        WHERE updated_at < LOCALTIMESTAMP - make_interval(secs => $1)`,
+      [this.idleAfterMs / 1000]
+    );
+  }
+}
+
+/**
+ * Create the store selected by RATE_LIMIT_STORE
+ * @param idleAfterMs - Time after which any bucket has refilled completely
+ */
+export const createRateLimitStore = (
+  name: RateLimitStoreName,
+  idleAfterMs: number
+): RateLimitStore => {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres":
+      return new PostgresRateLimitStore(idleAfterMs);
+    default:
+      throw new Error(`Unknown rate limit store: ${name}`);
+  }
+};
@@ -0,0 +1,430 @@
+import { In } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { reconciliationConfig } from "../config/reconciliation";
+import { Transaction, TransactionStatus } from "../entities/Transaction.entity";
+import { ReconciliationRun } from "../entities/ReconciliationRun.entity";
+import {
+  DiscrepancyStatus,
+  DiscrepancyType,
+  ReconciliationDiscrepancy,
+} from "../entities/ReconciliationDiscrepancy.entity";
+import { Decimal } from "../utils/decimal";
+import { logger } from "../utils/logger";
+import {
+  SettlementRecord,
+  SettlementReportFormat,
+} from "../utils/settlementReport";
+
+export interface SettlementReport {
+  provider: string;
+  format: SettlementReportFormat;
+  records: SettlementRecord[];
+  // File name or label
+  source?: string;
+  // Enables the missing-on-their-side check for [period_start, period_end)
+  period_start?: Date;
+  period_end?: Date;
+}
+
+export interface ReconciliationRunFilters {
+  provider?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface DiscrepancyFilters {
+  run_id?: string;
+  type?: DiscrepancyType;
+  status?: DiscrepancyStatus;
+  transaction_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type ReconciliationRunDetails = ReconciliationRun & {
+  open_discrepancies: number;
+};
+
+export class DiscrepancyAlreadyResolvedError extends Error {
+  constructor(public discrepancy: ReconciliationDiscrepancy) {
+    super(`Discrepancy ${discrepancy.id} is already resolved`);
+    this.name = "DiscrepancyAlreadyResolvedError";
+  }
+}
+
+// Statuses of transactions the provider settles; transactions in other
+// states are not expected in a settlement report
+const SETTLED_STATUSES = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REFUNDED,
+  TransactionStatus.REFUNDED,
+  TransactionStatus.DISPUTED,
+];
+
+// Rows per IN (...) lookup and per insert
+const CHUNK_SIZE = 1000;
+
+type NewDiscrepancy = Pick<
+  ReconciliationDiscrepancy,
+  | "type"
+  | "transaction_id"
+  | "transaction_ref_id"
+  | "report_row"
+  | "expected"
+  | "actual"
+>;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) =>
+    items.slice(index * size, (index + 1) * size)
+  );
+
+export class ReconciliationService {
+  private static readonly MAX_PAGE_SIZE = 100;
+  private runRepo = AppDataSource.getRepository(ReconciliationRun);
+  private discrepancyRepo = AppDataSource.getRepository(
+    ReconciliationDiscrepancy
+  );
+  private transactionRepo = AppDataSource.getRepository(Transaction);
+
+  constructor(private config = reconciliationConfig) {}
+
+  /**
+   * Match report rows to the provider's transactions by transaction_id and
+   * store the run with every discrepancy found:
+   * - rows without a transaction (missing on our side)
+   * - amount, currency, status and fee differences (status and fee only
+   *   when the report has them; the fee is compared with the processing
+   *   fee minus refunded fees)
+   * - transaction_ids listed more than once (the first row is compared)
+   * - with a period: settled transactions of the provider created in it
+   *   that the report does not list (missing on their side)
+   */
+  async reconcile(report: SettlementReport): Promise<ReconciliationRun> {
+    const discrepancies: NewDiscrepancy[] = [];
+    const firstRows = new Map<string, SettlementRecord>();
+
+    for (const record of report.records) {
+      const first = firstRows.get(record.transaction_id);
+      if (first) {
+        discrepancies.push({
+          type: DiscrepancyType.DUPLICATE,
+          transaction_id: record.transaction_id,
+          transaction_ref_id: null,
+          report_row: record.row,
+          expected: `row ${first.row}`,
+          actual: `row ${record.row}`,
+        });
+        continue;
+      }
+      firstRows.set(record.transaction_id, record);
+    }
+
+    const transactions = await this.findTransactions(report.provider, [
+      ...firstRows.keys(),
+    ]);
+    let matched = 0;
+
+    for (const record of firstRows.values()) {
+      const transaction = transactions.get(record.transaction_id);
+      if (!transaction) {
+        discrepancies.push({
+          type: DiscrepancyType.MISSING_ON_OUR_SIDE,
+          transaction_id: record.transaction_id,
+          transaction_ref_id: null,
+          report_row: record.row,
+          expected: null,
+          actual: `${record.amount} ${record.currency}`,
+        });
+        continue;
+      }
+
+      const differences = this.compare(record, transaction);
+      if (differences.length === 0) {
+        matched++;
+      }
+      discrepancies.push(...differences);
+    }
+
+    if (report.period_start && report.period_end) {
+      const reported = new Set(firstRows.keys());
+      for (const discrepancy of await this.findUnreported(report, reported)) {
+        discrepancies.push(discrepancy);
+      }
+    }
+
+    const summary: Record<string, number> = {};
+    for (const discrepancy of discrepancies) {
+      summary[discrepancy.type] = (summary[discrepancy.type] ?? 0) + 1;
+    }
+
+    const run = await AppDataSource.transaction(async (manager) => {
+      const saved = await manager.save(
+        manager.create(ReconciliationRun, {
+          provider: report.provider,
+          source: report.source ?? null,
+          format: report.format,
+          period_start: report.period_start ?? null,
+          period_end: report.period_end ?? null,
+          report_rows: report.records.length,
+          matched,
+          discrepancy_count: discrepancies.length,
+          summary,
+        })
+      );
+
+      for (const batch of chunk(discrepancies, CHUNK_SIZE)) {
+        await manager.insert(
+          ReconciliationDiscrepancy,
+          batch.map((discrepancy) => ({ ...discrepancy, run_id: saved.id }))
+        );
+      }
+
+      return saved;
+    });
+
+    logger.info("Reconciliation run completed", {
+      run_id: run.id,
+      provider: run.provider,
+      report_rows: run.report_rows,
+      matched: run.matched,
+      discrepancies: run.discrepancy_count,
+    });
+
+    return run;
+  }
+
+  /**
+   * List runs, newest first
+   */
+  async listRuns(
+    filters: ReconciliationRunFilters = {}
+  ): Promise<{ items: ReconciliationRun[]; total: number }> {
+    const query = this.runRepo
+      .createQueryBuilder("run")
+      .orderBy("run.created_at", "DESC")
+      .take(Math.min(filters.limit ?? 50, ReconciliationService.MAX_PAGE_SIZE))
+      .skip(filters.offset ?? 0);
+
+    if (filters.provider) {
+      query.andWhere("run.provider = :provider", {
+        provider: filters.provider,
+      });
+    }
+
+    const [items, total] = await query.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * A run with the number of discrepancies still open
+   */
+  async getRun(id: string): Promise<ReconciliationRunDetails | null> {
+    const run = await this.runRepo.findOne({ where: { id } });
+    if (!run) {
+      return null;
+    }
+
+    const open = await this.discrepancyRepo.count({
+      where: { run_id: id, status: DiscrepancyStatus.OPEN },
+    });
+    return { ...run, open_discrepancies: open };
+  }
+
+  /**
+   * List discrepancies, newest run first and in report order within a run
+   */
+  async listDiscrepancies(
+    filters: DiscrepancyFilters = {}
+  ): Promise<{ items: ReconciliationDiscrepancy[]; total: number }> {
+    const query = this.discrepancyRepo
+      .createQueryBuilder("discrepancy")
+      .orderBy("discrepancy.created_at", "DESC")
+      .addOrderBy("discrepancy.report_row", "ASC", "NULLS LAST")
+      .take(Math.min(filters.limit ?? 50, ReconciliationService.MAX_PAGE_SIZE))
+      .skip(filters.offset ?? 0);
+
+    if (filters.run_id) {
+      query.andWhere("discrepancy.run_id = :runId", { runId: filters.run_id });
+    }
+    if (filters.type) {
+      query.andWhere("discrepancy.type = :type", { type: filters.type });
+    }
+    if (filters.status) {
+      query.andWhere("discrepancy.status = :status", {
+        status: filters.status,
+      });
+    }
+    if (filters.transaction_id) {
+      query.andWhere("discrepancy.transaction_id = :transactionId", {
+        transactionId: filters.transaction_id,
+      });
+    }
+
+    const [items, total] = await query.getManyAndCount();
+    return { items, total };
+  }
+
+  /**
+   * Mark a discrepancy as resolved (explained or fixed), with a note
+   * @throws DiscrepancyAlreadyResolvedError when it was resolved before
+   */
+  async resolveDiscrepancy(
+    id: string,
+    note?: string
+  ): Promise<ReconciliationDiscrepancy | null> {
+    return AppDataSource.transaction(async (manager) => {
+      const discrepancy = await manager.findOne(ReconciliationDiscrepancy, {
+        where: { id },
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!discrepancy) {
+        return null;
+      }
+      if (discrepancy.status === DiscrepancyStatus.RESOLVED) {
+        throw new DiscrepancyAlreadyResolvedError(discrepancy);
+      }
+
+      discrepancy.status = DiscrepancyStatus.RESOLVED;
+      discrepancy.resolution_note = note ?? null;
+      discrepancy.resolved_at = new Date();
+      return manager.save(discrepancy);
+    });
+  }
+
+  /**
+   * Differences between a report row and our transaction
+   */
+  private compare(
+    record: SettlementRecord,
+    transaction: Transaction
+  ): NewDiscrepancy[] {
+    const differences: NewDiscrepancy[] = [];
+    const difference = (
+      type: DiscrepancyType,
+      expected: string | null,
+      actual: string
+    ) =>
+      differences.push({
+        type,
+        transaction_id: record.transaction_id,
+        transaction_ref_id: transaction.id,
+        report_row: record.row,
+        expected,
+        actual,
+      });
+
+    if (!this.amountsMatch(transaction.amount, record.amount)) {
+      difference(
+        DiscrepancyType.AMOUNT_MISMATCH,
+        Decimal.from(transaction.amount).toString(),
+        record.amount
+      );
+    }
+
+    if (transaction.currency !== record.currency) {
+      difference(
+        DiscrepancyType.CURRENCY_MISMATCH,
+        transaction.currency,
+        record.currency
+      );
+    }
+
+    if (record.status !== null && transaction.status !== record.status) {
+      difference(
+        DiscrepancyType.STATUS_MISMATCH,
+        transaction.status,
+        record.status
+      );
+    }
+
+    if (record.fee !== null) {
+      const fee =
+        transaction.processing_fee === null
+          ? null
+          : Decimal.from(transaction.processing_fee)
+              .minus(transaction.refunded_fee ?? 0)
+              .toString();
+      if (fee === null || !this.amountsMatch(fee, record.fee)) {
+        difference(DiscrepancyType.FEE_MISMATCH, fee, record.fee);
+      }
+    }
+
+    return differences;
+  }
+
+  private amountsMatch(ours: string | number, theirs: string): boolean {
+    const difference = Decimal.from(ours).minus(theirs);
+    const absolute = difference.isNegative()
+      ? Decimal.ZERO.minus(difference)
+      : difference;
+    return absolute.compare(this.config.amountTolerance) <= 0;
+  }
+
+  /**
+   * Transactions of the provider by transaction_id (ids are unique per
+   * provider, so another provider's transaction with the same id is not a
+   * match)
+   */
+  private async findTransactions(
+    provider: string,
+    transactionIds: string[]
+  ): Promise<Map<string, Transaction>> {
+    const transactions = new Map<string, Transaction>();
+
+    for (const ids of chunk(transactionIds, CHUNK_SIZE)) {
+      const found = await this.transactionRepo.find({
+        where: { provider, transaction_id: In(ids) },
+      });
+      for (const transaction of found) {
+        transactions.set(transaction.transaction_id, transaction);
+      }
+    }
+    return transactions;
+  }
+
+  /**
+   * Settled transactions of the provider created in the report period
+   * that the report does not list
+   */
+  private async findUnreported(
+    report: SettlementReport,
+    reported: Set<string>
+  ): Promise<NewDiscrepancy[]> {
+    const transactions = await this.transactionRepo
+      .createQueryBuilder("transaction")
+      .select([
+        "transaction.id",
+        "transaction.transaction_id",
+        "transaction.amount",
+        "transaction.currency",
+      ])
+      .where("transaction.provider = :provider", {
+        provider: report.provider,
+      })
+      .andWhere("transaction.created_at >= :start", {
+        start: report.period_start,
+      })
+      .andWhere("transaction.created_at < :end", { end: report.period_end })
+      .andWhere("transaction.status IN (:...statuses)", {
+        statuses: SETTLED_STATUSES,
+      })
+      .orderBy("transaction.created_at", "ASC")
+      .getMany();
+
+    return transactions
+      .filter((transaction) => !reported.has(transaction.transaction_id))
+      .map((transaction) => ({
+        type: DiscrepancyType.MISSING_ON_THEIR_SIDE,
+        transaction_id: transaction.transaction_id,
+        transaction_ref_id: transaction.id,
+        report_row: null,
+        expected: `${Decimal.from(transaction.amount).toString()} ${
+          transaction.currency
+        }`,
+        actual: null,
+      }));
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
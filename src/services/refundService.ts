@@ -0,0 +1,347 @@
+import { EntityManager, IsNull } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { refundConfig, RefundFeePolicy } from "../config/refunds";
+import { getMinorUnits } from "../config/currencies";
+import {
+  Transaction,
+  TransactionStatus,
+} from "../entities/Transaction.entity";
+import {
+  Refund,
+  RefundType,
+  DisputeOutcome,
+} from "../entities/Refund.entity";
+import {
+  WebhookPayload,
+  ValidationError,
+} from "../validators/transactionValidator";
+import { InvalidStatusTransitionError } from "../validators/statusTransitionValidator";
+import { FeeEngine } from "../utils/feeEngine";
+import { Decimal } from "../utils/decimal";
+import { feeScheduleService } from "./feeScheduleService";
+
+export class RefundExceedsAmountError extends Error {
+  constructor(
+    public transaction: Transaction,
+    public requested: string,
+    public available: string
+  ) {
+    super(
+      `Refund of ${requested} ${transaction.currency} exceeds the ` +
+        `refundable amount of ${available} ${transaction.currency}`
+    );
+    this.name = "RefundExceedsAmountError";
+  }
+}
+
+// Statuses money can still go back from
+const REFUNDABLE_STATUSES = [
+  TransactionStatus.COMPLETED,
+  TransactionStatus.PARTIALLY_REFUNDED,
+  TransactionStatus.DISPUTED,
+];
+
+export class RefundService {
+  private refundRepo = AppDataSource.getRepository(Refund);
+
+  constructor(private feePolicy: RefundFeePolicy = refundConfig.feePolicy) {}
+
+  /**
+   * Record a refund or chargeback against a transaction locked by the
+   * caller and update its refund totals.
+   * Without data.amount the whole refundable amount is used.
+   * @returns The status the transaction moves to
+   * @throws RefundExceedsAmountError when refunds (lost chargebacks
+   *   included) and open chargebacks would exceed the original amount
+   */
+  async applyReversal(
+    manager: EntityManager,
+    transaction: Transaction,
+    payload: WebhookPayload,
+    type: RefundType,
+    details: { provider: string; eventTimestamp: Date }
+  ): Promise<TransactionStatus> {
+    if (!REFUNDABLE_STATUSES.includes(transaction.status)) {
+      throw new InvalidStatusTransitionError(
+        transaction.status,
+        type === RefundType.CHARGEBACK
+          ? TransactionStatus.DISPUTED
+          : TransactionStatus.REFUNDED
+      );
+    }
+
+    const scale = getMinorUnits(transaction.currency);
+    const chargebacks = await this.getChargebackTotals(manager, transaction);
+    const available = this.getRefundableAmount(transaction, chargebacks.open);
+    const amount = this.getRequestedAmount(payload, transaction, available);
+
+    if (amount.compare(0) <= 0 || amount.compare(available) > 0) {
+      throw new RefundExceedsAmountError(
+        transaction,
+        amount.round(scale).toString(),
+        available.round(scale).toString()
+      );
+    }
+
+    const refundedAmount = Decimal.from(transaction.refunded_amount);
+    const refundedAfter =
+      type === RefundType.REFUND ? refundedAmount.plus(amount) : refundedAmount;
+    // Lost chargebacks are in refunded_amount but keep their fee
+    const feeReversal =
+      type === RefundType.REFUND
+        ? await this.calculateFeeReversal(
+            transaction,
+            refundedAfter.minus(chargebacks.lost),
+            scale
+          )
+        : Decimal.ZERO.round(scale);
+
+    await manager.insert(Refund, {
+      transaction_ref_id: transaction.id,
+      event_id: payload.event_id,
+      type,
+      amount: amount.round(scale).toString(),
+      currency: transaction.currency,
+      fee_reversal: feeReversal.toString(),
+      reason: payload.data.reason ?? null,
+      dispute_outcome: null,
+      provider: details.provider,
+      event_timestamp: details.eventTimestamp,
+    });
+
+    transaction.refunded_amount = refundedAfter.round(scale).toString();
+    transaction.refunded_fee = Decimal.from(transaction.refunded_fee)
+      .plus(feeReversal)
+      .round(scale)
+      .toString();
+
+    return this.deriveStatus(transaction, type);
+  }
+
+  /**
+   * Close the open chargebacks of a disputed transaction locked by the
+   * caller. A lost dispute adds the charged-back amount to refunded_amount
+   * (chargebacks never return fees).
+   * @returns The status the transaction moves to
+   */
+  async closeDisputes(
+    manager: EntityManager,
+    transaction: Transaction,
+    outcome: DisputeOutcome
+  ): Promise<TransactionStatus> {
+    if (transaction.status !== TransactionStatus.DISPUTED) {
+      throw new InvalidStatusTransitionError(
+        transaction.status,
+        outcome === DisputeOutcome.LOST
+          ? TransactionStatus.REFUNDED
+          : TransactionStatus.COMPLETED
+      );
+    }
+
+    const open = await manager.find(Refund, {
+      where: {
+        transaction_ref_id: transaction.id,
+        type: RefundType.CHARGEBACK,
+        dispute_outcome: IsNull(),
+      },
+    });
+    if (open.length > 0) {
+      await manager.update(
+        Refund,
+        open.map((chargeback) => chargeback.id),
+        { dispute_outcome: outcome }
+      );
+    }
+
+    if (outcome === DisputeOutcome.LOST) {
+      const lost = open.reduce(
+        (total, chargeback) => total.plus(chargeback.amount),
+        Decimal.ZERO
+      );
+      transaction.refunded_amount = Decimal.from(transaction.refunded_amount)
+        .plus(lost)
+        .round(getMinorUnits(transaction.currency))
+        .toString();
+    }
+
+    if (
+      Decimal.from(transaction.refunded_amount).compare(transaction.amount) >= 0
+    ) {
+      return TransactionStatus.REFUNDED;
+    }
+    return Decimal.from(transaction.refunded_amount).compare(0) > 0
+      ? TransactionStatus.PARTIALLY_REFUNDED
+      : TransactionStatus.COMPLETED;
+  }
+
+  /**
+   * Refunds and chargebacks of a transaction, oldest first
+   */
+  async listForTransaction(id: string): Promise<Refund[]> {
+    return this.refundRepo.find({
+      where: { transaction_ref_id: id },
+      order: { event_timestamp: "ASC", created_at: "ASC" },
+    });
+  }
+
+  /**
+   * Amounts of the transaction's open and lost chargebacks
+   */
+  private async getChargebackTotals(
+    manager: EntityManager,
+    transaction: Transaction
+  ): Promise<{ open: Decimal; lost: Decimal }> {
+    const chargebacks = await manager.find(Refund, {
+      where: {
+        transaction_ref_id: transaction.id,
+        type: RefundType.CHARGEBACK,
+      },
+    });
+
+    const total = (outcome: DisputeOutcome | null) =>
+      chargebacks
+        .filter((chargeback) => chargeback.dispute_outcome === outcome)
+        .reduce((sum, chargeback) => sum.plus(chargeback.amount), Decimal.ZERO);
+
+    return { open: total(null), lost: total(DisputeOutcome.LOST) };
+  }
+
+  /**
+   * Original amount minus refunds (lost chargebacks included) and open
+   * chargebacks
+   */
+  private getRefundableAmount(
+    transaction: Transaction,
+    openChargebacks: Decimal
+  ): Decimal {
+    const available = Decimal.from(transaction.amount)
+      .minus(transaction.refunded_amount)
+      .minus(openChargebacks);
+
+    return available.isNegative() ? Decimal.ZERO : available;
+  }
+
+  /**
+   * data.amount (checked against the transaction currency), or the whole
+   * refundable amount
+   */
+  private getRequestedAmount(
+    payload: WebhookPayload,
+    transaction: Transaction,
+    available: Decimal
+  ): Decimal {
+    const { amount, currency } = payload.data;
+
+    if (currency && currency.toUpperCase() !== transaction.currency) {
+      throw new ValidationError(
+        "/data/currency",
+        `Currency ${currency.toUpperCase()} does not match the transaction currency ${transaction.currency}`
+      );
+    }
+
+    if (amount === undefined || amount === null) {
+      return available;
+    }
+
+    const scale = getMinorUnits(transaction.currency);
+    const requested = Decimal.from(amount);
+    if (requested.round(scale).compare(requested) !== 0) {
+      throw new ValidationError(
+        "/data/amount",
+        `Amount cannot have more than ${scale} decimal places for ${transaction.currency}`
+      );
+    }
+
+    return requested;
+  }
+
+  /**
+   * Part of processing_fee returned by a refund, so that the total
+   * returned follows the fee policy. `refunded` is the total of refunds
+   * only (lost chargebacks excluded):
+   * - reverse: processing_fee * refunded / amount
+   * - recompute: processing_fee minus the fee of the same rule on the
+   *   amount not refunded (falls back to reverse without the original rule)
+   */
+  private async calculateFeeReversal(
+    transaction: Transaction,
+    refunded: Decimal,
+    scale: number
+  ): Promise<Decimal> {
+    if (this.feePolicy === "retain" || transaction.processing_fee === null) {
+      return Decimal.ZERO.round(scale);
+    }
+
+    const fee = Decimal.from(transaction.processing_fee);
+    let totalReversal = fee
+      .times(refunded)
+      .dividedBy(transaction.amount, scale);
+
+    if (this.feePolicy === "recompute") {
+      const recomputed = await this.recomputeFee(
+        transaction,
+        Decimal.from(transaction.amount).minus(refunded)
+      );
+      if (recomputed) {
+        totalReversal = fee.minus(recomputed);
+      }
+    }
+
+    const reversal = totalReversal.minus(transaction.refunded_fee).round(scale);
+    return reversal.isNegative() ? Decimal.ZERO.round(scale) : reversal;
+  }
+
+  /**
+   * Fee of the transaction's original rule on `remaining`, or null when the
+   * schedule version or rule is no longer known
+   */
+  private async recomputeFee(
+    transaction: Transaction,
+    remaining: Decimal
+  ): Promise<Decimal | null> {
+    const schedule =
+      transaction.fee_schedule_id && transaction.fee_schedule_version
+        ? await feeScheduleService.getSchedule(
+            transaction.fee_schedule_id,
+            transaction.fee_schedule_version
+          )
+        : null;
+    const rule = schedule?.rules.find((r) => r.id === transaction.fee_rule_id);
+    if (!schedule || !rule) {
+      return null;
+    }
+
+    // The rule applied to the original amount, even if the amount left is
+    // outside its bounds
+    const result = FeeEngine.calculate(
+      {
+        ...schedule,
+        rules: [{ ...rule, min_amount: undefined, max_amount: undefined }],
+      },
+      { ...transaction, amount: remaining.toString() }
+    );
+
+    return Decimal.from(result.processing_fee);
+  }
+
+  /**
+   * Transaction status after a refund or chargeback
+   */
+  private deriveStatus(
+    transaction: Transaction,
+    type: RefundType
+  ): TransactionStatus {
+    if (Decimal.from(transaction.refunded_amount).compare(transaction.amount) >= 0) {
+      return TransactionStatus.REFUNDED;
+    }
+    if (
+      type === RefundType.CHARGEBACK ||
+      transaction.status === TransactionStatus.DISPUTED
+    ) {
+      return TransactionStatus.DISPUTED;
+    }
+    return TransactionStatus.PARTIALLY_REFUNDED;
+  }
+}
+
+export const refundService = new RefundService();
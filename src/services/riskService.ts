@@ -0,0 +1,199 @@
+import { randomUUID } from "crypto";
+import { EntityManager } from "typeorm";
+import { AppDataSource } from "../config/database";
+import { riskConfig, RiskRule } from "../config/risk";
+import {
+  Transaction,
+  TransactionStatus,
+} from "../entities/Transaction.entity";
+import { TransactionStatusHistory } from "../entities/TransactionStatusHistory.entity";
+import { OutboundEventType } from "../entities/Subscription.entity";
+import {
+  ScreeningResult,
+  ScreeningResultStatus,
+} from "../entities/ScreeningResult.entity";
+import { WebhookPayload } from "../validators/transactionValidator";
+import {
+  RiskAssessment,
+  RiskEngine,
+  RiskInput,
+  VelocityStats,
+} from "../utils/riskEngine";
+import { outboxService } from "./outboxService";
+
+export class RiskRejectedError extends Error {
+  constructor(public assessment: RiskAssessment) {
+    super(
+      `Payment rejected by risk rules (score ${assessment.score}: ` +
+        `${assessment.rules.map((match) => match.rule_id).join(", ")})`
+    );
+    this.name = "RiskRejectedError";
+  }
+}
+
+export class TransactionNotUnderReviewError extends Error {
+  constructor(public transaction: Transaction) {
+    super(
+      `Transaction ${transaction.transaction_id} is ${transaction.status}, not under review`
+    );
+    this.name = "TransactionNotUnderReviewError";
+  }
+}
+
+export class OpenScreeningHitsError extends Error {
+  constructor(public transaction: Transaction, public openHits: number) {
+    super(
+      `Transaction ${transaction.transaction_id} has ${openHits} open screening hit(s); clear or confirm them first`
+    );
+    this.name = "OpenScreeningHitsError";
+  }
+}
+
+export type ReviewDecision = "approve" | "reject";
+
+export class RiskService {
+  private transactionRepo = AppDataSource.getRepository(Transaction);
+
+  constructor(private config = riskConfig) {}
+
+  /**
+   * Score a new payment against the configured rules
+   * @returns null when the risk engine is disabled
+   */
+  async assess(payload: WebhookPayload): Promise<RiskAssessment | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const input: RiskInput = {
+      amount: payload.data.amount,
+      currency: payload.data.currency,
+      sender_id: payload.data.sender.id,
+      sender_email: payload.data.sender.email,
+      sender_country: payload.data.sender.country,
+      receiver_id: payload.data.receiver.id,
+      receiver_email: payload.data.receiver.email,
+      receiver_country: payload.data.receiver.country,
+    };
+
+    const velocity: Record<string, VelocityStats> = {};
+    for (const rule of this.config.rules) {
+      if (rule.type === "velocity") {
+        velocity[rule.id] = await this.getVelocityStats(rule, input);
+      }
+    }
+
+    return RiskEngine.evaluate(this.config.rules, input, velocity, {
+      reviewScore: this.config.reviewScore,
+      rejectScore: this.config.rejectScore,
+    });
+  }
+
+  /**
+   * Release a transaction held for review. Approving applies the status
+   * the provider reported in the meantime; rejecting fails the payment.
+   * Runs in the caller's database transaction when a manager is given.
+   * @throws TransactionNotUnderReviewError when it is not held
+   * @throws OpenScreeningHitsError when approving with open screening hits
+   */
+  async resolveReview(
+    id: string,
+    decision: ReviewDecision,
+    entityManager?: EntityManager
+  ): Promise<Transaction | null> {
+    const resolve = async (manager: EntityManager) => {
+      const transaction = await manager.findOne(Transaction, {
+        where: { id },
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!transaction) {
+        return null;
+      }
+      if (transaction.status !== TransactionStatus.UNDER_REVIEW) {
+        throw new TransactionNotUnderReviewError(transaction);
+      }
+
+      if (decision === "approve") {
+        const openHits = await manager.count(ScreeningResult, {
+          where: {
+            transaction_ref_id: transaction.id,
+            status: ScreeningResultStatus.OPEN,
+          },
+        });
+        if (openHits > 0) {
+          throw new OpenScreeningHitsError(transaction, openHits);
+        }
+      }
+
+      const now = new Date();
+      const nextStatus =
+        decision === "approve"
+          ? transaction.held_status ?? TransactionStatus.PENDING
+          : TransactionStatus.FAILED;
+
+      // Reviews are not webhook events; the id only has to be unique
+      await manager.insert(TransactionStatusHistory, {
+        transaction_ref_id: transaction.id,
+        event_id: `review_${randomUUID()}`,
+        provider: transaction.provider,
+        from_status: transaction.status,
+        to_status: nextStatus,
+        event_timestamp: now,
+      });
+
+      transaction.status = nextStatus;
+      transaction.held_status = null;
+      transaction.review_outcome =
+        decision === "approve" ? "approved" : "rejected";
+      transaction.reviewed_at = now;
+      transaction.processed_at = now;
+      const saved = await manager.save(transaction);
+
+      await outboxService.enqueueTransactionEvent(
+        manager,
+        saved,
+        OutboundEventType.TRANSACTION_UPDATED,
+        TransactionStatus.UNDER_REVIEW
+      );
+
+      return saved;
+    };
+
+    return entityManager
+      ? resolve(entityManager)
+      : AppDataSource.transaction(resolve);
+  }
+
+  /**
+   * Earlier transactions of the rule's party within its window (counted
+   * from now, so bursts are measured by arrival)
+   */
+  private async getVelocityStats(
+    rule: RiskRule,
+    input: RiskInput
+  ): Promise<VelocityStats> {
+    const column = rule.party === "receiver" ? "receiver_id" : "sender_id";
+    const since = new Date(Date.now() - rule.window_seconds! * 1000);
+
+    const row = await this.transactionRepo
+      .createQueryBuilder("transaction")
+      .select("COUNT(*)", "count")
+      .addSelect(
+        "COALESCE(SUM(CASE WHEN transaction.currency = :currency THEN transaction.amount ELSE 0 END), 0)",
+        "amount"
+      )
+      .where(`transaction.${column} = :partyId`, {
+        partyId: rule.party === "receiver" ? input.receiver_id : input.sender_id,
+      })
+      .andWhere("transaction.created_at >= :since", { since })
+      .setParameter("currency", input.currency.toUpperCase())
+      .getRawOne();
+
+    return {
+      count: parseInt(row?.count ?? "0"),
+      amount: String(row?.amount ?? "0"),
+    };
+  }
+}
+
+export const riskService = new RiskService();
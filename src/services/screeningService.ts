@@ -0,0 +1,343 @@
+import { EntityManager } from "typeorm";
+import { AppDataSource } from "../config/database";
+import {
+  loadWatchlists,
+  screeningConfig,
+  Watchlist,
+  WatchlistEntry,
+} from "../config/screening";
+import {
+  RiskDecision,
+  ScreeningDecision,
+  Transaction,
+  TransactionStatus,
+} from "../entities/Transaction.entity";
+import {
+  ScreeningMatchType,
+  ScreeningResult,
+  ScreeningResultStatus,
+} from "../entities/ScreeningResult.entity";
+import { WebhookPayload } from "../validators/transactionValidator";
+import { nameSimilarity, normalizeName } from "../utils/nameMatching";
+import { riskService } from "./riskService";
+
+export interface ScreeningHit {
+  party: "sender" | "receiver";
+  party_id: string;
+  party_name: string;
+  party_country: string;
+  list_name: string;
+  entry_id: string;
+  entry_name: string;
+  match_type: ScreeningMatchType;
+  matched_value: string;
+  score: number;
+  action: ScreeningDecision;
+}
+
+export interface ScreeningOutcome {
+  provider: string;
+  decision: ScreeningDecision;
+  hits: ScreeningHit[];
+}
+
+export interface ScreeningResultFilters {
+  status?: ScreeningResultStatus;
+  transaction_id?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export type ScreeningReviewDecision = "clear" | "confirm";
+
+// The message reaches the webhook sender: the hits stay in
+// screening_results and the admin API
+export class ScreeningBlockedError extends Error {
+  constructor(public outcome: ScreeningOutcome) {
+    super("Payment blocked by watchlist screening");
+    this.name = "ScreeningBlockedError";
+  }
+}
+
+export class ScreeningResultNotOpenError extends Error {
+  constructor(public result: ScreeningResult) {
+    super(`Screening result ${result.id} is already ${result.status}`);
+    this.name = "ScreeningResultNotOpenError";
+  }
+}
+
+// Entry with its names normalized once
+interface IndexedEntry {
+  entry: WatchlistEntry;
+  names: { value: string; normalized: string }[];
+}
+
+export class ScreeningService {
+  private resultRepo = AppDataSource.getRepository(ScreeningResult);
+  private watchlists: Watchlist[] | null = null;
+  private index: IndexedEntry[] = [];
+
+  constructor(private config = screeningConfig) {}
+
+  /**
+   * Watchlists from SCREENING_LIST_FILES (loaded on first use)
+   */
+  getWatchlists(): Watchlist[] {
+    if (!this.watchlists) {
+      this.watchlists = loadWatchlists();
+      this.index = this.watchlists.flatMap((list) =>
+        list.entries.map((entry) => ({
+          entry,
+          names: [entry.name, ...entry.aliases]
+            .filter((value) => value !== "")
+            .map((value) => ({ value, normalized: normalizeName(value) })),
+        }))
+      );
+    }
+    return this.watchlists;
+  }
+
+  /**
+   * Screen the sender and receiver of a new payment. Hits a compliance
+   * officer already cleared for the same party of the provider, matched
+   * the same way against the same entry, are skipped.
+   * @returns null when screening is disabled
+   */
+  async screen(
+    payload: WebhookPayload,
+    provider: string
+  ): Promise<ScreeningOutcome | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+    this.getWatchlists();
+
+    const hits: ScreeningHit[] = [];
+    for (const party of ["sender", "receiver"] as const) {
+      const details = payload.data[party];
+      for (const hit of this.matchParty(party, details)) {
+        if (!(await this.isCleared(hit, provider))) {
+          hits.push(hit);
+        }
+      }
+    }
+
+    let decision = ScreeningDecision.CLEAR;
+    if (hits.some((hit) => hit.action === ScreeningDecision.BLOCK)) {
+      decision = ScreeningDecision.BLOCK;
+    } else if (hits.length > 0) {
+      decision = ScreeningDecision.HOLD;
+    }
+
+    return { provider, decision, hits };
+  }
+
+  /**
+   * Store the hits of a screened payment (transaction is null when the
+   * payment was blocked)
+   */
+  async recordResults(
+    manager: EntityManager,
+    outcome: ScreeningOutcome,
+    payload: WebhookPayload,
+    transaction: Transaction | null
+  ): Promise<void> {
+    if (outcome.hits.length === 0) {
+      return;
+    }
+
+    await manager.insert(
+      ScreeningResult,
+      outcome.hits.map((hit) => ({
+        ...hit,
+        score: hit.score.toFixed(4),
+        transaction_ref_id: transaction?.id ?? null,
+        transaction_id: payload.data.transaction_id,
+        event_id: payload.event_id,
+        provider: outcome.provider,
+      }))
+    );
+  }
+
+  /**
+   * List screening results, newest first
+   */
+  async list(
+    filters: ScreeningResultFilters = {}
+  ): Promise<{ items: ScreeningResult[]; total: number }> {
+    const query = this.resultRepo
+      .createQueryBuilder("result")
+      .orderBy("result.created_at", "DESC")
+      .take(Math.min(filters.limit ?? 50, 100))
+      .skip(filters.offset ?? 0);
+
+    if (filters.status) {
+      query.andWhere("result.status = :status", { status: filters.status });
+    }
+    if (filters.transaction_id) {
+      query.andWhere("result.transaction_id = :transactionId", {
+        transactionId: filters.transaction_id,
+      });
+    }
+
+    const [items, total] = await query.getManyAndCount();
+    return { items, total };
+  }
+
+  async getById(id: string): Promise<ScreeningResult | null> {
+    return this.resultRepo.findOne({ where: { id } });
+  }
+
+  /**
+   * Clear (false positive) or confirm (true match) an open hit.
+   * Confirming fails a held transaction. Clearing the last open hit
+   * releases it, unless the risk rules also flagged it for review.
+   * @throws ScreeningResultNotOpenError when the hit was already decided
+   */
+  async review(
+    id: string,
+    decision: ScreeningReviewDecision,
+    note?: string
+  ): Promise<ScreeningResult | null> {
+    return AppDataSource.transaction(async (manager) => {
+      const result = await manager.findOne(ScreeningResult, {
+        where: { id },
+        lock: { mode: "pessimistic_write" },
+      });
+      if (!result) {
+        return null;
+      }
+      if (result.status !== ScreeningResultStatus.OPEN) {
+        throw new ScreeningResultNotOpenError(result);
+      }
+
+      result.status =
+        decision === "confirm"
+          ? ScreeningResultStatus.CONFIRMED
+          : ScreeningResultStatus.CLEARED;
+      result.review_note = note ?? null;
+      result.reviewed_at = new Date();
+      const saved = await manager.save(result);
+
+      if (result.transaction_ref_id) {
+        await this.releaseTransaction(
+          manager,
+          result.transaction_ref_id,
+          decision
+        );
+      }
+
+      return saved;
+    });
+  }
+
+  /**
+   * Apply a hit decision to its held transaction
+   */
+  private async releaseTransaction(
+    manager: EntityManager,
+    transactionRefId: string,
+    decision: ScreeningReviewDecision
+  ): Promise<void> {
+    const transaction = await manager.findOne(Transaction, {
+      where: { id: transactionRefId },
+    });
+    if (transaction?.status !== TransactionStatus.UNDER_REVIEW) {
+      return;
+    }
+
+    if (decision === "confirm") {
+      await riskService.resolveReview(transaction.id, "reject", manager);
+      return;
+    }
+
+    const open = await manager.count(ScreeningResult, {
+      where: {
+        transaction_ref_id: transaction.id,
+        status: ScreeningResultStatus.OPEN,
+      },
+    });
+    if (open === 0 && transaction.risk_decision !== RiskDecision.REVIEW) {
+      await riskService.resolveReview(transaction.id, "approve", manager);
+    }
+  }
+
+  /**
+   * Best match of each watchlist entry for one party
+   */
+  private matchParty(
+    party: "sender" | "receiver",
+    details: { id: string; name: string; country: string }
+  ): ScreeningHit[] {
+    const normalized = normalizeName(details.name);
+    const country = details.country.toUpperCase();
+    const hits: ScreeningHit[] = [];
+
+    for (const { entry, names } of this.index) {
+      let best: { type: ScreeningMatchType; value: string; score: number } | null =
+        null;
+
+      if (entry.party_ids.includes(details.id)) {
+        best = { type: ScreeningMatchType.PARTY_ID, value: details.id, score: 1 };
+      } else if (entry.type === "country" && entry.countries.includes(country)) {
+        best = { type: ScreeningMatchType.COUNTRY, value: country, score: 1 };
+      } else if (normalized) {
+        for (const name of names) {
+          const score = nameSimilarity(normalized, name.normalized);
+          if (score >= this.config.holdThreshold && score > (best?.score ?? 0)) {
+            best = { type: ScreeningMatchType.NAME, value: name.value, score };
+          }
+        }
+      }
+
+      if (best) {
+        hits.push({
+          party,
+          party_id: details.id,
+          party_name: details.name,
+          party_country: country,
+          list_name: entry.list,
+          entry_id: entry.id,
+          entry_name: entry.name || entry.countries.join(", "),
+          match_type: best.type,
+          matched_value: best.value,
+          score: Math.round(best.score * 10000) / 10000,
+          action:
+            best.score >= this.config.blockThreshold
+              ? ScreeningDecision.BLOCK
+              : ScreeningDecision.HOLD,
+        });
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * Whether a reviewer cleared this party of the provider against this
+   * entry before. The sender chooses party ids, so the normalized party
+   * name and the matched value have to be the same too.
+   */
+  private async isCleared(
+    hit: ScreeningHit,
+    provider: string
+  ): Promise<boolean> {
+    const cleared = await this.resultRepo.find({
+      where: {
+        provider,
+        party_id: hit.party_id,
+        list_name: hit.list_name,
+        entry_id: hit.entry_id,
+        match_type: hit.match_type,
+        matched_value: hit.matched_value,
+        status: ScreeningResultStatus.CLEARED,
+      },
+    });
+
+    // party_name is encrypted, so it is compared after decryption
+    const name = normalizeName(hit.party_name);
+    return cleared.some((result) => normalizeName(result.party_name) === name);
+  }
+}
+
+export const screeningService = new ScreeningService();
@@ -0,0 +1,191 @@
+import { AppDataSource } from "../config/database";
+import { subscriptionConfig } from "../config/subscriptions";
+import { Subscription } from "../entities/Subscription.entity";
+import {
+  SubscriptionDelivery,
+  DeliveryStatus,
+  DeliveryAttempt,
+} from "../entities/SubscriptionDelivery.entity";
+import { signatureValidator } from "../utils/signatureValidator";
+import { DEFAULT_SIGNATURE_SCHEME } from "../utils/signatureSchemes";
+
+export class SubscriptionDeliveryService {
+  private deliveryRepo = AppDataSource.getRepository(SubscriptionDelivery);
+  private subscriptionRepo = AppDataSource.getRepository(Subscription);
+
+  /**
+   * Claim deliveries that are due, for active subscriptions only.
+   * Uses SELECT ... FOR UPDATE SKIP LOCKED like the inbox, so several
+   * dispatchers never send the same delivery at once.
+   */
+  async claimBatch(limit: number): Promise<SubscriptionDelivery[]> {
+    const claimed = await AppDataSource.transaction(async (manager) => {
+      const now = new Date();
+      const staleLockBefore = new Date(
+        now.getTime() - subscriptionConfig.lockTimeoutMs
+      );
+
+      const rows = await manager
+        .createQueryBuilder(SubscriptionDelivery, "delivery")
+        .innerJoin("delivery.subscription", "subscription")
+        .where("subscription.active = true")
+        .andWhere(
+          "((delivery.status IN (:...ready) AND delivery.next_attempt_at <= :now)" +
+            " OR (delivery.status = :delivering AND delivery.locked_at < :staleLockBefore))",
+          {
+            ready: [DeliveryStatus.PENDING, DeliveryStatus.FAILED],
+            now,
+            delivering: DeliveryStatus.DELIVERING,
+            staleLockBefore,
+          }
+        )
+        .orderBy("delivery.next_attempt_at", "ASC")
+        .limit(limit)
+        .setLock("pessimistic_write", undefined, ["delivery"])
+        .setOnLocked("skip_locked")
+        .getMany();
+
+      if (rows.length === 0) {
+        return [];
+      }
+
+      await manager
+        .createQueryBuilder()
+        .update(SubscriptionDelivery)
+        .set({
+          status: DeliveryStatus.DELIVERING,
+          locked_at: now,
+          attempts: () => "attempts + 1",
+        })
+        .whereInIds(rows.map((row) => row.id))
+        .execute();
+
+      return rows.map((row) =>
+        Object.assign(row, {
+          status: DeliveryStatus.DELIVERING,
+          locked_at: now,
+          attempts: row.attempts + 1,
+        })
+      );
+    });
+
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    // The signing secret is not selected by default
+    const subscriptions = await this.subscriptionRepo
+      .createQueryBuilder("subscription")
+      .addSelect("subscription.secret")
+      .whereInIds([...new Set(claimed.map((row) => row.subscription_id))])
+      .getMany();
+    const byId = new Map(subscriptions.map((s) => [s.id, s]));
+
+    return claimed
+      .filter((row) => byId.has(row.subscription_id))
+      .map((row) =>
+        Object.assign(row, { subscription: byId.get(row.subscription_id)! })
+      );
+  }
+
+  /**
+   * Make one delivery attempt to a claimed delivery and record it.
+   * A 2xx response counts as delivered; anything else is retried with
+   * backoff until the attempts are used up.
+   */
+  async deliver(delivery: SubscriptionDelivery): Promise<DeliveryStatus> {
+    const body = JSON.stringify(delivery.payload);
+    const startedAt = Date.now();
+    let statusCode: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(delivery.subscription.url, {
+        method: "POST",
+        headers: this.buildHeaders(delivery, body),
+        body,
+        redirect: "manual",
+        signal: AbortSignal.timeout(subscriptionConfig.timeoutMs),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+      // Drain the body so the connection can be reused
+      await response.text().catch(() => undefined);
+    } catch (err: any) {
+      error =
+        err?.name === "TimeoutError"
+          ? `Timed out after ${subscriptionConfig.timeoutMs}ms`
+          : err?.cause?.message ?? err?.message ?? String(err);
+    }
+
+    const attempt: DeliveryAttempt = {
+      attempted_at: new Date(startedAt).toISOString(),
+      status_code: statusCode,
+      error,
+      duration_ms: Date.now() - startedAt,
+    };
+
+    const status = error
+      ? delivery.attempts >= subscriptionConfig.maxAttempts
+        ? DeliveryStatus.EXHAUSTED
+        : DeliveryStatus.FAILED
+      : DeliveryStatus.DELIVERED;
+
+    await this.deliveryRepo.update(delivery.id, {
+      status,
+      locked_at: null,
+      last_status_code: statusCode,
+      last_error: error,
+      attempt_log: [...(delivery.attempt_log ?? []), attempt] as any,
+      delivered_at: status === DeliveryStatus.DELIVERED ? new Date() : null,
+      next_attempt_at: new Date(
+        Date.now() +
+          (status === DeliveryStatus.FAILED
+            ? this.retryDelay(delivery.attempts)
+            : 0)
+      ),
+    });
+
+    return status;
+  }
+
+  /**
+   * Headers of a delivery, signed like inbound webhooks (default scheme):
+   * X-Webhook-Signature = HMAC-SHA256(secret, "<timestamp>.<body>") in hex
+   */
+  buildHeaders(
+    delivery: SubscriptionDelivery,
+    body: string,
+    timestamp: string = Math.floor(Date.now() / 1000).toString()
+  ): Record<string, string> {
+    const signature = signatureValidator
+      .getScheme(DEFAULT_SIGNATURE_SCHEME)
+      .sign(delivery.subscription.secret, body, timestamp);
+
+    return {
+      "Content-Type": "application/json",
+      "User-Agent": "webhook-payment-verification",
+      "X-Webhook-Signature": `v1=${signature}`,
+      "X-Webhook-Timestamp": timestamp,
+      "X-Webhook-Event-Id": delivery.event_id,
+      "X-Webhook-Event-Type": delivery.event_type,
+      "X-Webhook-Delivery-Id": delivery.id,
+    };
+  }
+
+  /**
+   * Exponential backoff with "equal jitter": half the capped delay plus a
+   * random part of the other half, so retries of many deliveries spread out
+   */
+  retryDelay(attempts: number): number {
+    const delay = Math.min(
+      subscriptionConfig.retryBaseDelayMs * Math.pow(2, Math.max(attempts - 1, 0)),
+      subscriptionConfig.retryMaxDelayMs
+    );
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+}
+
+export const subscriptionDeliveryService = new SubscriptionDeliveryService();
@@ -0,0 +1,216 @@
+import { randomBytes } from "crypto";
+import { AppDataSource } from "../config/database";
+import {
+  Subscription,
+  OutboundEventType,
+} from "../entities/Subscription.entity";
+import {
+  SubscriptionDelivery,
+  DeliveryStatus,
+} from "../entities/SubscriptionDelivery.entity";
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { Decimal } from "../utils/decimal";
+
+export class SubscriptionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Subscription ${id} not found`);
+    this.name = "SubscriptionNotFoundError";
+  }
+}
+
+export class DeliveryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Delivery ${id} not found`);
+    this.name = "DeliveryNotFoundError";
+  }
+}
+
+export interface SubscriptionInput {
+  name: string;
+  url: string;
+  // Generated when omitted
+  secret?: string;
+  event_types?: OutboundEventType[] | null;
+  statuses?: TransactionStatus[] | null;
+  currencies?: string[] | null;
+  min_amount?: string | null;
+  active?: boolean;
+}
+
+export interface DeliveryFilters {
+  status?: DeliveryStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Body sent to subscribers (built from an outbox event)
+ */
+export interface OutboundEvent {
+  // Outbox event id; the same for every subscriber and every retry
+  id: string;
+  type: OutboundEventType;
+  created_at: string;
+  // Transaction fields plus previous_status
+  data: Record<string, any>;
+}
+
+export class SubscriptionService {
+  private static readonly MAX_PAGE_SIZE = 100;
+  private subscriptionRepo = AppDataSource.getRepository(Subscription);
+  private deliveryRepo = AppDataSource.getRepository(SubscriptionDelivery);
+
+  /**
+   * Register a subscriber. The signing secret is only returned here.
+   */
+  async create(
+    input: SubscriptionInput
+  ): Promise<{ subscription: Subscription; secret: string }> {
+    const secret = input.secret ?? `whsec_${randomBytes(24).toString("hex")}`;
+
+    const subscription = await this.subscriptionRepo.save(
+      this.subscriptionRepo.create({
+        name: input.name,
+        url: input.url,
+        secret,
+        event_types: input.event_types ?? null,
+        statuses: input.statuses ?? null,
+        currencies: input.currencies ?? null,
+        min_amount: input.min_amount ?? null,
+        active: input.active ?? true,
+      })
+    );
+
+    const { secret: _secret, ...saved } = subscription;
+    return { subscription: saved as Subscription, secret };
+  }
+
+  async list(): Promise<Subscription[]> {
+    return this.subscriptionRepo.find({ order: { created_at: "ASC" } });
+  }
+
+  async get(id: string): Promise<Subscription> {
+    const subscription = await this.subscriptionRepo.findOne({ where: { id } });
+    if (!subscription) {
+      throw new SubscriptionNotFoundError(id);
+    }
+    return subscription;
+  }
+
+  /**
+   * Change filters, URL, secret or active flag
+   */
+  async update(
+    id: string,
+    input: Partial<SubscriptionInput>
+  ): Promise<Subscription> {
+    await this.get(id);
+    await this.subscriptionRepo.update(id, input);
+    return this.get(id);
+  }
+
+  /**
+   * Remove a subscriber and its delivery log
+   */
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+    await this.subscriptionRepo.delete(id);
+  }
+
+  /**
+   * Queue an event for every active subscriber whose filters match.
+   * Publishing the same event again queues nothing new.
+   * @returns Number of subscribers the event is queued for
+   */
+  async publish(event: OutboundEvent): Promise<number> {
+    const subscriptions = await this.subscriptionRepo.find({
+      where: { active: true },
+    });
+    const matching = subscriptions.filter((subscription) =>
+      this.matches(subscription, event)
+    );
+    if (matching.length === 0) {
+      return 0;
+    }
+
+    await this.deliveryRepo
+      .createQueryBuilder()
+      .insert()
+      .into(SubscriptionDelivery)
+      .values(
+        matching.map((subscription) => ({
+          subscription_id: subscription.id,
+          event_id: event.id,
+          event_type: event.type,
+          transaction_ref_id: event.data.id ?? null,
+          payload: event as any,
+          status: DeliveryStatus.PENDING,
+          next_attempt_at: new Date(),
+        }))
+      )
+      .orIgnore()
+      .execute();
+
+    return matching.length;
+  }
+
+  /**
+   * Whether an event passes a subscription's filters
+   */
+  matches(subscription: Subscription, event: OutboundEvent): boolean {
+    const listMatches = (values: string[] | null, value: string) =>
+      !values || values.length === 0 || values.includes(value);
+
+    return (
+      listMatches(subscription.event_types, event.type) &&
+      listMatches(subscription.statuses, event.data.status) &&
+      listMatches(subscription.currencies, event.data.currency) &&
+      (subscription.min_amount === null ||
+        Decimal.from(event.data.amount).compare(subscription.min_amount) >= 0)
+    );
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  async listDeliveries(
+    subscriptionId: string,
+    filters: DeliveryFilters = {}
+  ): Promise<{ items: SubscriptionDelivery[]; total: number }> {
+    await this.get(subscriptionId);
+
+    const [items, total] = await this.deliveryRepo.findAndCount({
+      where: {
+        subscription_id: subscriptionId,
+        ...(filters.status ? { status: filters.status } : {}),
+      },
+      order: { created_at: "DESC" },
+      take: Math.min(filters.limit ?? 50, SubscriptionService.MAX_PAGE_SIZE),
+      skip: filters.offset ?? 0,
+    });
+
+    return { items, total };
+  }
+
+  /**
+   * Send a delivery again from the next dispatcher poll, with a fresh
+   * set of attempts (the attempt log is kept)
+   */
+  async redeliver(deliveryId: string): Promise<SubscriptionDelivery> {
+    const delivery = await this.deliveryRepo.findOne({
+      where: { id: deliveryId },
+    });
+    if (!delivery) {
+      throw new DeliveryNotFoundError(deliveryId);
+    }
+
+    delivery.status = DeliveryStatus.PENDING;
+    delivery.attempts = 0;
+    delivery.next_attempt_at = new Date();
+    delivery.locked_at = null;
+
+    return this.deliveryRepo.save(delivery);
+  }
+}
+
+export const subscriptionService = new SubscriptionService();
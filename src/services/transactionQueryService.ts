@@ -0,0 +1,317 @@
+import { SelectQueryBuilder } from "typeorm";
+import { AppDataSource } from "../config/database";
+import {
+  Transaction,
+  TransactionStatus,
+  RiskDecision,
+} from "../entities/Transaction.entity";
+import { TransactionStatusHistory } from "../entities/TransactionStatusHistory.entity";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+import { fieldCipher } from "../utils/fieldEncryption";
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super("Invalid pagination cursor");
+    this.name = "InvalidCursorError";
+  }
+}
+
+// Names and emails can only be searched through their keyed hashes
+export class FilterUnavailableError extends Error {
+  constructor(public field: string) {
+    super(`${field} filter unavailable: PII_HASH_KEY is not configured`);
+    this.name = "FilterUnavailableError";
+  }
+}
+
+export type TransactionSortField = "created_at" | "amount";
+export type SortOrder = "asc" | "desc";
+
+export interface TransactionFilters {
+  status?: TransactionStatus;
+  currency?: string;
+  sender_id?: string;
+  receiver_id?: string;
+  sender_country?: string;
+  receiver_country?: string;
+  // Matches either sender or receiver country
+  country?: string;
+  payment_method?: string;
+  provider?: string;
+  risk_decision?: RiskDecision;
+  // Matched through the keyed hash columns (names may be encrypted)
+  sender_name?: string;
+  receiver_name?: string;
+  sender_email?: string;
+  receiver_email?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface TransactionListOptions extends TransactionFilters {
+  sort_by?: TransactionSortField;
+  order?: SortOrder;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface TransactionSummaryRow {
+  currency: string;
+  status: TransactionStatus;
+  count: number;
+  gross_amount: string;
+  total_processing_fee: string;
+  total_net_amount: string;
+}
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// SQL type used to compare a cursor value with the sort column
+const SORT_COLUMN_TYPES: Record<TransactionSortField, string> = {
+  created_at: "timestamp",
+  amount: "numeric",
+};
+
+export class TransactionQueryService {
+  private static readonly DEFAULT_PAGE_SIZE = 50;
+  private static readonly MAX_PAGE_SIZE = 100;
+  private transactionRepo = AppDataSource.getRepository(Transaction);
+  private statusHistoryRepo = AppDataSource.getRepository(
+    TransactionStatusHistory
+  );
+
+  /**
+   * List transactions with filters and cursor-based (keyset) pagination
+   */
+  async list(
+    options: TransactionListOptions = {}
+  ): Promise<{ items: Transaction[]; next_cursor: string | null }> {
+    const sortBy = options.sort_by ?? "created_at";
+    const order = options.order ?? "desc";
+    const limit = Math.min(
+      options.limit ?? TransactionQueryService.DEFAULT_PAGE_SIZE,
+      TransactionQueryService.MAX_PAGE_SIZE
+    );
+    const direction = order === "asc" ? "ASC" : "DESC";
+
+    const query = this.applyFilters(
+      this.transactionRepo.createQueryBuilder("t"),
+      options
+    )
+      // Sort value as text so the cursor keeps full database precision
+      .addSelect(`CAST(t.${sortBy} AS text)`, "cursor_value")
+      .orderBy(`t.${sortBy}`, direction)
+      .addOrderBy("t.id", direction)
+      .limit(limit + 1);
+
+    if (options.cursor) {
+      const cursor = this.decodeCursor(options.cursor, sortBy);
+      const type = SORT_COLUMN_TYPES[sortBy];
+      query.andWhere(
+        `(t.${sortBy}, t.id) ${order === "asc" ? ">" : "<"} ` +
+          `(CAST(:cursorValue AS ${type}), CAST(:cursorId AS uuid))`,
+        { cursorValue: cursor.value, cursorId: cursor.id }
+      );
+    }
+
+    const { entities, raw } = await query.getRawAndEntities();
+    const hasMore = entities.length > limit;
+    const items = entities.slice(0, limit);
+
+    const last = items[items.length - 1];
+    const next_cursor =
+      hasMore && last
+        ? this.encodeCursor(
+            sortBy,
+            raw[items.length - 1].cursor_value,
+            last.id
+          )
+        : null;
+
+    return { items, next_cursor };
+  }
+
+  /**
+   * Get a transaction by id
+   */
+  async getById(id: string): Promise<Transaction | null> {
+    return this.transactionRepo.findOne({ where: { id } });
+  }
+
+  /**
+   * Find a transaction by its provider transaction_id (unique per provider)
+   */
+  async getByTransactionId(
+    transactionId: string,
+    provider: string = DEFAULT_PROVIDER
+  ): Promise<Transaction | null> {
+    return this.transactionRepo.findOne({
+      where: { provider, transaction_id: transactionId },
+    });
+  }
+
+  /**
+   * Find the transaction an event of the provider was applied to
+   * (creating or follow-up)
+   */
+  async getByEventId(
+    eventId: string,
+    provider: string = DEFAULT_PROVIDER
+  ): Promise<Transaction | null> {
+    const history = await this.statusHistoryRepo.findOne({
+      where: { provider, event_id: eventId },
+      relations: { transaction: true },
+    });
+    if (history) {
+      return history.transaction;
+    }
+
+    return this.transactionRepo.findOne({
+      where: { provider, event_id: eventId },
+    });
+  }
+
+  /**
+   * Status history of a transaction, oldest first
+   */
+  async getStatusHistory(id: string): Promise<TransactionStatusHistory[]> {
+    return this.statusHistoryRepo.find({
+      where: { transaction_ref_id: id },
+      order: { event_timestamp: "ASC", created_at: "ASC" },
+    });
+  }
+
+  /**
+   * Counts and totals grouped by currency and status
+   */
+  async summary(
+    filters: TransactionFilters = {}
+  ): Promise<TransactionSummaryRow[]> {
+    const rows = await this.applyFilters(
+      this.transactionRepo.createQueryBuilder("t"),
+      filters
+    )
+      .select("t.currency", "currency")
+      .addSelect("t.status", "status")
+      .addSelect("COUNT(*)", "count")
+      .addSelect("COALESCE(SUM(t.amount), 0)", "gross_amount")
+      .addSelect("COALESCE(SUM(t.processing_fee), 0)", "total_processing_fee")
+      .addSelect("COALESCE(SUM(t.net_amount), 0)", "total_net_amount")
+      .groupBy("t.currency")
+      .addGroupBy("t.status")
+      .orderBy("t.currency", "ASC")
+      .addOrderBy("t.status", "ASC")
+      .getRawMany();
+
+    // Sums stay as strings to keep decimal precision
+    return rows.map((row) => ({
+      currency: row.currency,
+      status: row.status,
+      count: parseInt(row.count),
+      gross_amount: String(row.gross_amount),
+      total_processing_fee: String(row.total_processing_fee),
+      total_net_amount: String(row.total_net_amount),
+    }));
+  }
+
+  private applyFilters(
+    query: SelectQueryBuilder<Transaction>,
+    filters: TransactionFilters
+  ): SelectQueryBuilder<Transaction> {
+    const equalityFilters = [
+      "status",
+      "currency",
+      "sender_id",
+      "receiver_id",
+      "sender_country",
+      "receiver_country",
+      "payment_method",
+      "provider",
+      "risk_decision",
+    ] as const;
+
+    for (const field of equalityFilters) {
+      if (filters[field]) {
+        query.andWhere(`t.${field} = :${field}`, { [field]: filters[field] });
+      }
+    }
+
+    const hashedFilters = [
+      "sender_name",
+      "receiver_name",
+      "sender_email",
+      "receiver_email",
+    ] as const;
+
+    for (const field of hashedFilters) {
+      if (filters[field]) {
+        // Comparing with a null hash would silently match nothing
+        if (!fieldCipher.canHash()) {
+          throw new FilterUnavailableError(field);
+        }
+        query.andWhere(`t.${field}_hash = :${field}_hash`, {
+          [`${field}_hash`]: fieldCipher.hash(filters[field]),
+        });
+      }
+    }
+
+    if (filters.country) {
+      query.andWhere(
+        "(t.sender_country = :country OR t.receiver_country = :country)",
+        { country: filters.country }
+      );
+    }
+    if (filters.from) {
+      query.andWhere("t.created_at >= :from", { from: filters.from });
+    }
+    if (filters.to) {
+      query.andWhere("t.created_at <= :to", { to: filters.to });
+    }
+
+    return query;
+  }
+
+  /**
+   * Opaque cursor: sort field, last sort value and last id
+   */
+  private encodeCursor(
+    sortBy: TransactionSortField,
+    value: string,
+    id: string
+  ): string {
+    return Buffer.from(JSON.stringify({ s: sortBy, v: value, id })).toString(
+      "base64url"
+    );
+  }
+
+  private decodeCursor(
+    cursor: string,
+    sortBy: TransactionSortField
+  ): { value: string; id: string } {
+    try {
+      const decoded = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf8")
+      );
+      // A cursor is only valid for the sort it was issued for
+      const validValue =
+        sortBy === "amount"
+          ? /^-?\d+(\.\d+)?$/.test(decoded?.v)
+          : !isNaN(Date.parse(decoded?.v));
+      if (
+        decoded?.s !== sortBy ||
+        typeof decoded?.v !== "string" ||
+        !validValue ||
+        typeof decoded?.id !== "string" ||
+        !UUID_REGEX.test(decoded.id)
+      ) {
+        throw new InvalidCursorError();
+      }
+      return { value: decoded.v, id: decoded.id };
+    } catch (error) {
+      throw new InvalidCursorError();
+    }
+  }
+}
+
+export const transactionQueryService = new TransactionQueryService();
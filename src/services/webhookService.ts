@@ -1,15 +1,57 @@
+import { randomUUID } from "crypto";
+import { EntityManager, QueryFailedError } from "typeorm";
+import { DatabaseError } from "pg";
 import { AppDataSource } from "../config/database";
 import {
   Transaction,
   AuditLog,
   TransactionStatus,
+  RiskDecision,
+  ScreeningDecision,
 } from "../entities/Transaction.entity";
+import { TransactionStatusHistory } from "../entities/TransactionStatusHistory.entity";
+import { FailedWebhook } from "../entities/FailedWebhook.entity";
 import {
   WebhookPayload,
   TransactionValidator,
   TransactionCalculator,
   ValidationError,
 } from "../validators/transactionValidator";
+import {
+  StatusTransitionValidator,
+  InvalidStatusTransitionError,
+} from "../validators/statusTransitionValidator";
+import { DEFAULT_PROVIDER } from "../providers/defaultProvider";
+import {
+  feeScheduleService,
+  NoActiveFeeScheduleError,
+} from "./feeScheduleService";
+import { FeeRuleNotFoundError } from "../utils/feeEngine";
+import {
+  exchangeRateService,
+  ExchangeRateNotFoundError,
+  SettlementFields,
+} from "./exchangeRateService";
+import {
+  EventHandler,
+  eventHandlerRegistry,
+} from "../handlers/eventHandlerRegistry";
+import { refundService, RefundExceedsAmountError } from "./refundService";
+import { DisputeOutcome } from "../entities/Refund.entity";
+import { outboxService } from "./outboxService";
+import { OutboundEventType } from "../entities/Subscription.entity";
+import { riskService, RiskRejectedError } from "./riskService";
+import { RiskAssessment } from "../utils/riskEngine";
+import { fieldCipher } from "../utils/fieldEncryption";
+import { redact } from "../utils/redaction";
+import { logger } from "../utils/logger";
+import { metrics } from "../utils/metrics";
+import { getCorrelationId } from "../utils/requestContext";
+import {
+  screeningService,
+  ScreeningBlockedError,
+  ScreeningOutcome,
+} from "./screeningService";
 
 export class DuplicateTransactionError extends Error {
   constructor(public existingTransaction: Transaction) {
@@ -18,31 +60,521 @@ export class DuplicateTransactionError extends Error {
   }
 }
 
+export class TransactionNotFoundError extends Error {
+  constructor(public transactionId: string) {
+    super(`Transaction ${transactionId} not found`);
+    this.name = "TransactionNotFoundError";
+  }
+}
+
+/**
+ * Request-level details about how a webhook was received
+ */
+export interface WebhookContext {
+  provider?: string;
+  signingKeyId?: string;
+  // Id of the failed webhook being replayed by an admin
+  replayOf?: string;
+  // Set by the inbox worker, which records the dead letter itself once it
+  // stops retrying (see recordDeadLetter)
+  deferDeadLetter?: boolean;
+  // Groups the audit rows of one delivery attempt (generated if missing)
+  deliveryId?: string;
+  // Ties the delivery to its log lines (taken from the request if missing)
+  correlationId?: string;
+  // When the webhook was first received (now if missing)
+  receivedAt?: Date;
+}
+
+// Metrics label for each expected failure; anything else is "internal_error"
+const FAILURE_REASONS: [new (...args: never[]) => Error, string][] = [
+  [ValidationError, "validation_failed"],
+  [InvalidStatusTransitionError, "invalid_status_transition"],
+  [TransactionNotFoundError, "transaction_not_found"],
+  [RefundExceedsAmountError, "refund_exceeds_amount"],
+  [ExchangeRateNotFoundError, "exchange_rate_unavailable"],
+  [NoActiveFeeScheduleError, "fee_schedule_unavailable"],
+  [FeeRuleNotFoundError, "fee_rule_not_found"],
+  [RiskRejectedError, "risk_rejected"],
+  [ScreeningBlockedError, "screening_blocked"],
+];
+
+/**
+ * Why a webhook failed, as a bounded metrics label
+ */
+export const webhookFailureReason = (error: unknown): string =>
+  FAILURE_REASONS.find(([errorClass]) => error instanceof errorClass)?.[1] ??
+  "internal_error";
+
+/**
+ * Query that failed in Postgres (the driver error carries the SQLSTATE code)
+ */
+const isPostgresQueryError = (
+  error: unknown
+): error is QueryFailedError<DatabaseError> =>
+  error instanceof QueryFailedError &&
+  error.driverError instanceof DatabaseError;
+
 export class WebhookService {
   private transactionRepo = AppDataSource.getRepository(Transaction);
   private auditLogRepo = AppDataSource.getRepository(AuditLog);
+  private statusHistoryRepo = AppDataSource.getRepository(
+    TransactionStatusHistory
+  );
+  private failedWebhookRepo = AppDataSource.getRepository(FailedWebhook);
 
   /**
-   * Process webhook payload with idempotency check
+   * Process webhook payload with idempotency check.
+   * The event is routed by event_type to its handler; a new event for an
+   * existing transaction_id is applied as a status transition and events
+   * older than the last applied one are ignored.
+   * @returns null when the event type is not handled (the event is ignored)
    */
-  async processWebhook(payload: WebhookPayload): Promise<Transaction> {
+  async processWebhook(
+    payload: WebhookPayload,
+    context: WebhookContext = {}
+  ): Promise<Transaction | null> {
+    context = {
+      ...context,
+      deliveryId: context.deliveryId ?? randomUUID(),
+      correlationId: context.correlationId ?? getCorrelationId(),
+    };
+    const provider = context.provider ?? DEFAULT_PROVIDER;
+    const endTimer = metrics.webhookProcessingDuration.startTimer({ provider });
+    const logFields = {
+      event_id: payload?.event_id,
+      event_type: payload?.event_type,
+      provider,
+      delivery_id: context.deliveryId,
+    };
+
     //  Log to audit table
-    await this.logWebhookEvent(payload, "received");
+    await this.logWebhookEvent(payload, "received", context);
+
+    const handler = eventHandlerRegistry.find(payload?.event_type);
+
+    // Unknown event types are acknowledged but not processed
+    if (
+      !handler &&
+      typeof payload?.event_type === "string" &&
+      payload.event_type.trim() !== ""
+    ) {
+      await this.logWebhookEvent(payload, "ignored", context);
+      metrics.webhooksProcessed.inc({
+        provider,
+        event_type: "unsupported",
+        outcome: "ignored",
+      });
+      const seconds = endTimer({ outcome: "ignored" });
+      logger.info("Webhook ignored: unsupported event type", {
+        ...logFields,
+        duration_ms: Math.round(seconds * 1000),
+      });
+      return null;
+    }
 
     try {
-      //  Validate payload
-      TransactionValidator.validate(payload);
+      //  Validate payload (a missing event_type is reported by the schema)
+      TransactionValidator.validate(payload, handler?.schema);
+
+      // Fast path for retries; the database constraints are authoritative
+      await this.checkDuplicate(payload.event_id, provider);
 
-      // Checking for duplicates (idempotency)
-      await this.checkDuplicate(payload.event_id, payload.data.transaction_id);
+      // Also writes the "processed"/"stale" audit row and the outbox event
+      const transaction = await this.persistEvent(payload, context, handler!);
 
-      // Calculate derived fields
-      const derivedFields = TransactionCalculator.calculateDerivedFields(
-        payload.data.amount
+      metrics.webhooksProcessed.inc({
+        provider,
+        event_type: handler!.eventType,
+        outcome: "applied",
+      });
+      const seconds = endTimer({ outcome: "processed" });
+      logger.info("Webhook processed", {
+        ...logFields,
+        transaction_id: transaction.transaction_id,
+        status: transaction.status,
+        duration_ms: Math.round(seconds * 1000),
+      });
+      return transaction;
+    } catch (error) {
+      if (error instanceof DuplicateTransactionError) {
+        metrics.webhooksDuplicate.inc({ provider, reason: "already_processed" });
+        const seconds = endTimer({ outcome: "duplicate" });
+        logger.info("Duplicate webhook", {
+          ...logFields,
+          transaction_id: error.existingTransaction.transaction_id,
+          duration_ms: Math.round(seconds * 1000),
+        });
+      } else {
+        const reason = webhookFailureReason(error);
+        metrics.webhooksFailed.inc({ provider, reason });
+        const seconds = endTimer({ outcome: "failed" });
+        logger.warn("Webhook processing failed", {
+          ...logFields,
+          reason,
+          error,
+          duration_ms: Math.round(seconds * 1000),
+        });
+      }
+
+      // Logging error to audit table
+      const failedLog = await this.logWebhookEvent(
+        payload,
+        "failed",
+        context,
+        {
+          error,
+          transaction:
+            error instanceof DuplicateTransactionError
+              ? error.existingTransaction
+              : undefined,
+        }
       );
 
-      // Create and save transaction
-      const transaction = this.transactionRepo.create({
+      // Keep a replayable record (duplicates and replays are not recorded
+      // again, retried inbox entries only once they are given up)
+      if (
+        !(error instanceof DuplicateTransactionError) &&
+        !context.replayOf &&
+        !context.deferDeadLetter
+      ) {
+        await this.recordFailedWebhook(payload, context, error, failedLog);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Persist an event atomically: insert the transaction if it is new and
+   * the handler may create it, otherwise apply the event as a status
+   * transition. The audit row and the outbox event for subscribers are
+   * written in the same database transaction (transactional outbox).
+   * Idempotency is enforced by unique constraints (INSERT ... ON CONFLICT),
+   * so concurrent deliveries of the same event cannot both succeed.
+   */
+  private async persistEvent(
+    payload: WebhookPayload,
+    context: WebhookContext,
+    handler: EventHandler
+  ): Promise<Transaction> {
+    const eventTimestamp = this.getEventTimestamp(payload);
+    let nextStatus = handler.targetStatus(payload);
+    // transaction_id and event_id are only unique per provider
+    const provider = context.provider ?? DEFAULT_PROVIDER;
+
+    // Fees, rates, risk and screening are only worked out for a transaction
+    // that may be inserted. If a concurrent delivery creates it after this
+    // check, the insert below is ignored and the event applied to it.
+    const mayCreate =
+      handler.creates !== "never" &&
+      !(await this.transactionRepo.exists({
+        where: { provider, transaction_id: payload.data.transaction_id },
+      }));
+
+    const newTransaction = mayCreate
+      ? await this.buildNewTransaction(
+          payload,
+          context,
+          nextStatus,
+          eventTimestamp
+        )
+      : null;
+
+    try {
+      return await AppDataSource.transaction(async (manager) => {
+        let created = false;
+
+        if (newTransaction) {
+          // Insert the transaction unless the provider's transaction_id or
+          // event_id already exist
+          const insertResult = await manager
+            .createQueryBuilder()
+            .insert()
+            .into(Transaction)
+            .values(newTransaction.values)
+            .orIgnore()
+            .returning("id")
+            .execute();
+
+          created = insertResult.raw.length > 0;
+        }
+
+        // Lock the row so events for one transaction are applied one at a time
+        const transaction = await manager.findOne(Transaction, {
+          where: { provider, transaction_id: payload.data.transaction_id },
+          lock: { mode: "pessimistic_write" },
+        });
+
+        if (!transaction) {
+          if (!newTransaction) {
+            throw new TransactionNotFoundError(payload.data.transaction_id);
+          }
+          // Insert conflicted on event_id: event belongs to another transaction
+          throw await this.duplicateErrorFor(payload, provider);
+        }
+
+        if (created && newTransaction) {
+          // Rolls the insert back when a party is on a watchlist or the
+          // risk rules reject the payment
+          if (newTransaction.screening?.decision === ScreeningDecision.BLOCK) {
+            throw new ScreeningBlockedError(newTransaction.screening);
+          }
+          if (newTransaction.risk?.decision === RiskDecision.REJECT) {
+            throw new RiskRejectedError(newTransaction.risk);
+          }
+
+          // Rolls the insert back when the pair has no rate and must be rejected
+          exchangeRateService.assertConvertible(
+            newTransaction.settlement,
+            payload.data.currency,
+            eventTimestamp
+          );
+
+          await this.claimEvent(
+            manager,
+            transaction,
+            null,
+            transaction.status,
+            eventTimestamp,
+            payload
+          );
+          if (newTransaction.screening) {
+            await screeningService.recordResults(
+              manager,
+              newTransaction.screening,
+              payload,
+              transaction
+            );
+          }
+          return this.recordApplied(
+            manager,
+            payload,
+            context,
+            transaction,
+            null
+          );
+        }
+
+        // Creation events must not touch an existing transaction
+        if (handler.creates === "always") {
+          throw new DuplicateTransactionError(transaction);
+        }
+
+        // Re-check under the lock: a concurrent delivery may have applied it
+        const alreadyApplied =
+          transaction.event_id === payload.event_id ||
+          (await manager.exists(TransactionStatusHistory, {
+            where: { provider, event_id: payload.event_id },
+          }));
+        if (alreadyApplied) {
+          throw new DuplicateTransactionError(transaction);
+        }
+
+        // Refunds, chargebacks and dispute outcomes only change the refund
+        // totals, so their order does not matter
+        const refundEvent =
+          handler.reversal !== undefined ||
+          handler.disputeOutcome !== undefined;
+
+        // Out-of-order delivery: never let an older event overwrite a newer
+        // one. Timestamps have second resolution, so events with the same
+        // timestamp are applied in arrival order (the status transition
+        // rules reject a step back).
+        if (
+          !refundEvent &&
+          transaction.last_event_at &&
+          eventTimestamp.getTime() < transaction.last_event_at.getTime()
+        ) {
+          // Claimed without a status change, so a redelivery is a duplicate
+          await this.claimEvent(
+            manager,
+            transaction,
+            transaction.status,
+            transaction.status,
+            eventTimestamp,
+            payload
+          );
+          await manager.save(
+            this.buildAuditLog(payload, "stale", context, { transaction })
+          );
+          return transaction;
+        }
+
+        // Held for review: remember the provider's status for the approval
+        if (
+          !refundEvent &&
+          transaction.status === TransactionStatus.UNDER_REVIEW
+        ) {
+          const heldStatus = transaction.held_status ?? TransactionStatus.PENDING;
+          if (heldStatus === nextStatus) {
+            throw new DuplicateTransactionError(transaction);
+          }
+          StatusTransitionValidator.assertTransition(heldStatus, nextStatus);
+
+          await this.claimEvent(
+            manager,
+            transaction,
+            transaction.status,
+            transaction.status,
+            eventTimestamp,
+            payload
+          );
+
+          transaction.held_status = nextStatus;
+          transaction.processed_at = new Date();
+          transaction.last_event_at = eventTimestamp;
+
+          return this.recordApplied(
+            manager,
+            payload,
+            context,
+            await manager.save(transaction),
+            transaction.status
+          );
+        }
+
+        if (handler.reversal) {
+          nextStatus = await refundService.applyReversal(
+            manager,
+            transaction,
+            payload,
+            handler.reversal,
+            {
+              provider: context.provider ?? DEFAULT_PROVIDER,
+              eventTimestamp,
+            }
+          );
+        } else if (handler.disputeOutcome) {
+          nextStatus = await refundService.closeDisputes(
+            manager,
+            transaction,
+            handler.disputeOutcome(payload)
+          );
+        } else if (
+          transaction.status === TransactionStatus.DISPUTED &&
+          nextStatus === TransactionStatus.COMPLETED
+        ) {
+          // A completed status update closes the open dispute as won
+          nextStatus = await refundService.closeDisputes(
+            manager,
+            transaction,
+            DisputeOutcome.WON
+          );
+        } else if (transaction.status === nextStatus) {
+          throw new DuplicateTransactionError(transaction);
+        }
+
+        // A further partial refund or chargeback may keep the status
+        if (transaction.status !== nextStatus) {
+          StatusTransitionValidator.assertTransition(
+            transaction.status,
+            nextStatus
+          );
+        }
+
+        const fromStatus = transaction.status;
+        await this.claimEvent(
+          manager,
+          transaction,
+          fromStatus,
+          nextStatus,
+          eventTimestamp,
+          payload
+        );
+
+        transaction.status = nextStatus;
+        transaction.processed_at = new Date();
+        if (
+          !transaction.last_event_at ||
+          eventTimestamp.getTime() > transaction.last_event_at.getTime()
+        ) {
+          transaction.last_event_at = eventTimestamp;
+        }
+
+        return this.recordApplied(
+          manager,
+          payload,
+          context,
+          await manager.save(transaction),
+          fromStatus
+        );
+      });
+    } catch (error) {
+      // Blocked payments are not stored, but their hits are kept for review
+      if (error instanceof ScreeningBlockedError) {
+        await screeningService.recordResults(
+          AppDataSource.manager,
+          error.outcome,
+          payload,
+          null
+        );
+      }
+
+      // A concurrent delivery won the race on a unique constraint
+      if (this.isUniqueViolation(error)) {
+        throw await this.duplicateErrorFor(payload, provider, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Column values (with fees, settlement, risk assessment and watchlist
+   * screening) for a transaction created by this event. Payments flagged
+   * for review by either are stored as under_review with the reported
+   * status held back.
+   */
+  private async buildNewTransaction(
+    payload: WebhookPayload,
+    context: WebhookContext,
+    status: TransactionStatus,
+    eventTimestamp: Date
+  ): Promise<{
+    values: Partial<Transaction>;
+    settlement: SettlementFields;
+    risk: RiskAssessment | null;
+    screening: ScreeningOutcome | null;
+  }> {
+    // Fees use the schedule that was in effect when the event happened,
+    // as far as the timestamp is within the allowed skew of its receipt
+    const feeSchedule = await feeScheduleService.getActiveSchedule(
+      feeScheduleService.pricingTime(
+        eventTimestamp,
+        context.receivedAt ?? new Date()
+      )
+    );
+
+    // Calculate derived fields
+    const derivedFields = TransactionCalculator.calculateDerivedFields(
+      {
+        amount: payload.data.amount,
+        currency: payload.data.currency,
+        payment_method: payload.data.payment_method,
+        sender_country: payload.data.sender.country,
+        receiver_country: payload.data.receiver.country,
+      },
+      feeSchedule
+    );
+
+    // Convert into the settlement currency at the rate of the event time
+    const settlement = await exchangeRateService.convert(
+      payload.data.currency,
+      derivedFields.net_amount,
+      eventTimestamp
+    );
+
+    const risk = await riskService.assess(payload);
+    const screening = await screeningService.screen(
+      payload,
+      context.provider ?? DEFAULT_PROVIDER
+    );
+    const held =
+      risk?.decision === RiskDecision.REVIEW ||
+      screening?.decision === ScreeningDecision.HOLD;
+
+    return {
+      values: {
         event_id: payload.event_id,
         transaction_id: payload.data.transaction_id,
         amount: payload.data.amount,
@@ -53,73 +585,279 @@ export class WebhookService {
         receiver_id: payload.data.receiver.id,
         receiver_name: payload.data.receiver.name,
         receiver_country: payload.data.receiver.country.toUpperCase(),
-        status: payload.data.status as TransactionStatus,
+        sender_name_hash: fieldCipher.hash(payload.data.sender.name),
+        receiver_name_hash: fieldCipher.hash(payload.data.receiver.name),
+        sender_email_hash: fieldCipher.hash(payload.data.sender.email),
+        receiver_email_hash: fieldCipher.hash(payload.data.receiver.email),
+        status: held ? TransactionStatus.UNDER_REVIEW : status,
+        held_status: held ? status : null,
         payment_method: payload.data.payment_method,
+        provider: context.provider ?? DEFAULT_PROVIDER,
         processing_fee: derivedFields.processing_fee,
         net_amount: derivedFields.net_amount,
+        fee_schedule_id: derivedFields.fee_schedule_id,
+        fee_schedule_version: derivedFields.fee_schedule_version,
+        fee_rule_id: derivedFields.fee_rule_id,
+        ...settlement,
+        risk_score: risk?.score ?? null,
+        risk_decision: risk?.decision ?? null,
+        risk_rules: risk?.rules ?? null,
+        screening_decision: screening?.decision ?? null,
         metadata: payload.data.metadata,
         processed_at: new Date(),
-      });
+        last_event_at: eventTimestamp,
+      },
+      settlement,
+      risk,
+      screening,
+    };
+  }
 
-      const savedTransaction = await this.transactionRepo.save(transaction);
+  /**
+   * Write the "processed" audit row and the outbox event of an applied
+   * event inside its database transaction
+   */
+  private async recordApplied(
+    manager: EntityManager,
+    payload: WebhookPayload,
+    context: WebhookContext,
+    transaction: Transaction,
+    previousStatus: TransactionStatus | null
+  ): Promise<Transaction> {
+    await manager.save(
+      this.buildAuditLog(payload, "processed", context, { transaction })
+    );
+    await outboxService.enqueueTransactionEvent(
+      manager,
+      transaction,
+      previousStatus === null
+        ? OutboundEventType.TRANSACTION_CREATED
+        : OutboundEventType.TRANSACTION_UPDATED,
+      previousStatus
+    );
+    return transaction;
+  }
 
-      // Update audit log
-      await this.logWebhookEvent(payload, "processed");
+  /**
+   * Record the status history row for an event. The event_id, unique per
+   * provider, makes this the idempotency key: a second claim of the same
+   * event fails.
+   */
+  private async claimEvent(
+    manager: EntityManager,
+    transaction: Transaction,
+    fromStatus: TransactionStatus | null,
+    toStatus: TransactionStatus,
+    eventTimestamp: Date,
+    payload: WebhookPayload
+  ): Promise<void> {
+    const result = await manager
+      .createQueryBuilder()
+      .insert()
+      .into(TransactionStatusHistory)
+      .values({
+        transaction_ref_id: transaction.id,
+        event_id: payload.event_id,
+        provider: transaction.provider,
+        from_status: fromStatus,
+        to_status: toStatus,
+        event_timestamp: eventTimestamp,
+      })
+      .orIgnore()
+      .returning("id")
+      .execute();
 
-      return savedTransaction;
-    } catch (error) {
-      // Logging error to audit table
-      await this.logWebhookEvent(payload, "failed", error);
-      throw error;
+    if (result.raw.length === 0) {
+      throw new DuplicateTransactionError(transaction);
     }
   }
 
   /**
-   * Check for duplicate transactions (idempotency)
+   * Build a DuplicateTransactionError carrying the provider's row that
+   * already holds this event (or transaction_id)
+   */
+  private async duplicateErrorFor(
+    payload: WebhookPayload,
+    provider: string,
+    originalError?: unknown
+  ): Promise<Error> {
+    const existingHistory = await this.statusHistoryRepo.findOne({
+      where: { provider, event_id: payload.event_id },
+      relations: { transaction: true },
+    });
+    if (existingHistory) {
+      return new DuplicateTransactionError(existingHistory.transaction);
+    }
+
+    const existing = await this.transactionRepo.findOne({
+      where: [
+        { provider, event_id: payload.event_id },
+        { provider, transaction_id: payload.data.transaction_id },
+      ],
+    });
+    if (existing) {
+      return new DuplicateTransactionError(existing);
+    }
+
+    return originalError instanceof Error
+      ? originalError
+      : new Error("Transaction already processed");
+  }
+
+  /**
+   * Postgres unique_violation (23505)
+   */
+  private isUniqueViolation(error: unknown): boolean {
+    return isPostgresQueryError(error) && error.driverError.code === "23505";
+  }
+
+  /**
+   * Check for duplicate events of the provider (idempotency)
    */
   private async checkDuplicate(
     eventId: string,
-    transactionId: string
+    provider: string
   ): Promise<void> {
-    // Check by event_id first
+    // Check status history first (covers creation and follow-up events)
+    const existingHistory = await this.statusHistoryRepo.findOne({
+      where: { provider, event_id: eventId },
+      relations: { transaction: true },
+    });
+
+    if (existingHistory) {
+      throw new DuplicateTransactionError(existingHistory.transaction);
+    }
+
+    // Check by event_id on transactions created before status history existed
     const existingByEvent = await this.transactionRepo.findOne({
-      where: { event_id: eventId },
+      where: { provider, event_id: eventId },
     });
 
     if (existingByEvent) {
       throw new DuplicateTransactionError(existingByEvent);
     }
+  }
 
-    // Check by transaction_id
-    const existingByTxn = await this.transactionRepo.findOne({
-      where: { transaction_id: transactionId },
-    });
+  /**
+   * Resolve the payload timestamp, falling back to the time of receipt
+   */
+  private getEventTimestamp(payload: WebhookPayload): Date {
+    return payload.timestamp ? new Date(payload.timestamp) : new Date();
+  }
 
-    if (existingByTxn) {
-      throw new DuplicateTransactionError(existingByTxn);
-    }
+  /**
+   * Record a webhook that was rejected before processing
+   * (e.g. failed signature verification)
+   */
+  async logRejectedWebhook(
+    body: any,
+    status: string,
+    context: WebhookContext,
+    error: any
+  ): Promise<void> {
+    await this.logWebhookEvent(body, status, context, { error });
   }
 
   /**
-   * Log webhook event to audit table
+   * Log webhook event to audit table (outside any database transaction;
+   * failures are only reported)
    */
   private async logWebhookEvent(
     payload: WebhookPayload,
     status: string,
-    error?: any
+    context: WebhookContext,
+    details: { error?: any; transaction?: Transaction } = {}
+  ): Promise<AuditLog | null> {
+    try {
+      return await this.auditLogRepo.save(
+        this.buildAuditLog(payload, status, context, details)
+      );
+    } catch (auditError) {
+      logger.error("Failed to log audit event", {
+        event_id: payload?.event_id,
+        status,
+        error: auditError,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Audit row for a webhook event
+   */
+  private buildAuditLog(
+    payload: WebhookPayload,
+    status: string,
+    context: WebhookContext,
+    details: { error?: any; transaction?: Transaction } = {}
+  ): AuditLog {
+    const { error, transaction } = details;
+
+    return this.auditLogRepo.create({
+      event_id: payload?.event_id ?? null,
+      event_type: payload?.event_type ?? null,
+      provider: context.provider ?? DEFAULT_PROVIDER,
+      // Personal data is redacted according to PII_REDACTION_POLICY
+      payload: redact(payload ?? {}) as any,
+      status,
+      signing_key_id: context.signingKeyId ?? null,
+      error_message: error ? error.message : null,
+      error_field: error instanceof ValidationError ? error.field : null,
+      replay_of: context.replayOf ?? null,
+      delivery_id: context.deliveryId ?? null,
+      correlation_id: context.correlationId ?? getCorrelationId() ?? null,
+      transaction_ref_id: transaction?.id ?? null,
+    });
+  }
+
+  /**
+   * Store the dead letter of a delivery processed with deferDeadLetter,
+   * linked to the "failed" audit row of that delivery attempt
+   */
+  async recordDeadLetter(
+    payload: WebhookPayload,
+    context: WebhookContext,
+    error: any
+  ): Promise<void> {
+    const failedLog = context.deliveryId
+      ? await this.auditLogRepo
+          .findOne({
+            where: { delivery_id: context.deliveryId, status: "failed" },
+            order: { created_at: "DESC" },
+          })
+          .catch(() => null)
+      : null;
+
+    await this.recordFailedWebhook(payload, context, error, failedLog);
+  }
+
+  /**
+   * Store a failed webhook in the dead-letter table for later replay
+   */
+  private async recordFailedWebhook(
+    payload: WebhookPayload,
+    context: WebhookContext,
+    error: any,
+    auditLog: AuditLog | null
   ): Promise<void> {
     try {
-      const auditLog = this.auditLogRepo.create({
-        event_id: payload.event_id,
-        event_type: payload.event_type,
+      const failedWebhook = this.failedWebhookRepo.create({
+        event_id: payload?.event_id ?? null,
+        event_type: payload?.event_type ?? null,
+        provider: context.provider ?? DEFAULT_PROVIDER,
         payload: payload as any,
-        status,
-        error_message: error ? error.message : null,
+        error_type: error?.name ?? "Error",
+        error_message: error?.message ?? null,
+        error_field: error instanceof ValidationError ? error.field : null,
+        audit_log_id: auditLog?.id ?? null,
       });
 
-      await this.auditLogRepo.save(auditLog);
-    } catch (auditError) {
-      console.error("Failed to log audit event:", auditError);
+      await this.failedWebhookRepo.save(failedWebhook);
+    } catch (deadLetterError) {
+      logger.error("Failed to record failed webhook", {
+        event_id: payload?.event_id,
+        error: deadLetterError,
+      });
     }
   }
 }
@@ -0,0 +1,26 @@
+import { WebhookProvider } from "../providers/providerRegistry";
+
+/**
+ * Fields the middleware chain sets on incoming requests. Import this
+ * module (for its side effect) wherever they are read or written.
+ */
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by assignCorrelationId
+      correlationId?: string;
+      // Webhook routes: raw body (signature verification, inbox, hashing)
+      rawBody?: Buffer;
+      // Body exceeded the webhook size limit and was not parsed
+      bodyTooLarge?: boolean;
+      // Provider resolved from the route (default provider when unset)
+      webhookProvider?: WebhookProvider;
+      // Id of this delivery in the audit trail
+      deliveryId?: string;
+      // Id of the signing key that verified the signature
+      signingKeyId?: string;
+    }
+  }
+}
+
+export {};
@@ -0,0 +1,84 @@
+// src/utils/csv.ts
+
+/**
+ * Parse CSV text (RFC 4180: comma separated, fields optionally quoted
+ * with "" as an escaped quote) into rows keyed by the header row.
+ * Header names are trimmed and lower-cased; blank lines are skipped.
+ */
+export const parseCsv = (text: string): Record<string, string>[] => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map((name) => name.trim().toLowerCase());
+
+  return rows.slice(1).map((fields, index) => {
+    if (fields.length > header.length) {
+      throw new Error(
+        `CSV row ${index + 1} has ${fields.length} fields, expected ${header.length}`
+      );
+    }
+    const row: Record<string, string> = {};
+    header.forEach((name, column) => {
+      row[name] = fields[column] ?? "";
+    });
+    return row;
+  });
+};
+
+/**
+ * Split CSV text into rows of raw field values
+ */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    fields.push(field);
+    // A blank line is a single empty field
+    if (fields.length > 1 || fields[0] !== "") {
+      rows.push(fields);
+    }
+    fields = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error("CSV has an unterminated quoted field");
+  }
+  if (field !== "" || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
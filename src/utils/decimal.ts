@@ -0,0 +1,181 @@
+// src/utils/decimal.ts
+
+const DECIMAL_REGEX = /^([+-]?)(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+/**
+ * Minimal exact decimal type for money arithmetic.
+ * Values are stored as an integer number of units at a given scale
+ * (e.g. 12.345 is 12345 at scale 3), so no floating point is involved.
+ */
+export class Decimal {
+  private constructor(readonly units: bigint, readonly scale: number) {}
+
+  static readonly ZERO = new Decimal(BigInt(0), 0);
+
+  /**
+   * Parse a decimal string or number ("12.34", 12.34, "1e-7")
+   */
+  static from(value: string | number | Decimal): Decimal {
+    if (value instanceof Decimal) {
+      return value;
+    }
+
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    const match = DECIMAL_REGEX.exec(String(value).trim());
+    if (!match) {
+      throw new Error(`Invalid decimal value: ${value}`);
+    }
+
+    const [, sign, integer, fraction = "", exponent = "0"] = match;
+    let digits = integer + fraction;
+    let scale = fraction.length - parseInt(exponent);
+
+    if (scale < 0) {
+      digits += "0".repeat(-scale);
+      scale = 0;
+    }
+
+    const units = BigInt(digits);
+    return new Decimal(sign === "-" ? -units : units, scale);
+  }
+
+  static isValid(value: unknown): boolean {
+    if (typeof value !== "string" && typeof value !== "number") {
+      return false;
+    }
+    try {
+      Decimal.from(value);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  plus(other: string | number | Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a + b, scale);
+  }
+
+  minus(other: string | number | Decimal): Decimal {
+    const [a, b, scale] = Decimal.align(this, Decimal.from(other));
+    return new Decimal(a - b, scale);
+  }
+
+  times(other: string | number | Decimal): Decimal {
+    const b = Decimal.from(other);
+    return new Decimal(this.units * b.units, this.scale + b.scale);
+  }
+
+  /**
+   * Round to `scale` decimal places using banker's rounding
+   * (round half to even)
+   */
+  round(scale: number): Decimal {
+    if (scale >= this.scale) {
+      return new Decimal(
+        this.units * BigInt(10) ** BigInt(scale - this.scale),
+        scale
+      );
+    }
+
+    return new Decimal(
+      Decimal.divideHalfEven(
+        this.units,
+        BigInt(10) ** BigInt(this.scale - scale)
+      ),
+      scale
+    );
+  }
+
+  /**
+   * Divide, rounding the quotient to `scale` decimal places (half to even)
+   */
+  dividedBy(other: string | number | Decimal, scale: number): Decimal {
+    const b = Decimal.from(other);
+    if (b.units === BigInt(0)) {
+      throw new Error("Division by zero");
+    }
+
+    // (a.units / 10^a.scale) / (b.units / 10^b.scale), expressed in 10^-scale
+    return new Decimal(
+      Decimal.divideHalfEven(
+        this.units * BigInt(10) ** BigInt(b.scale + scale),
+        b.units * BigInt(10) ** BigInt(this.scale)
+      ),
+      scale
+    );
+  }
+
+  compare(other: string | number | Decimal): number {
+    const [a, b] = Decimal.align(this, Decimal.from(other));
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  isNegative(): boolean {
+    return this.units < BigInt(0);
+  }
+
+  static min(a: Decimal, b: Decimal): Decimal {
+    return a.compare(b) <= 0 ? a : b;
+  }
+
+  static max(a: Decimal, b: Decimal): Decimal {
+    return a.compare(b) >= 0 ? a : b;
+  }
+
+  /**
+   * Plain decimal string with exactly `scale` fraction digits
+   */
+  toString(): string {
+    const negative = this.units < BigInt(0);
+    const digits = (negative ? -this.units : this.units)
+      .toString()
+      .padStart(this.scale + 1, "0");
+
+    const integer = digits.slice(0, digits.length - this.scale);
+    const fraction = digits.slice(digits.length - this.scale);
+
+    return `${negative ? "-" : ""}${integer}${fraction ? `.${fraction}` : ""}`;
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private static divideHalfEven(numerator: bigint, divisor: bigint): bigint {
+    if (divisor < BigInt(0)) {
+      numerator = -numerator;
+      divisor = -divisor;
+    }
+    const negative = numerator < BigInt(0);
+    const magnitude = negative ? -numerator : numerator;
+
+    let quotient = magnitude / divisor;
+    const twiceRemainder = (magnitude % divisor) * BigInt(2);
+
+    if (
+      twiceRemainder > divisor ||
+      (twiceRemainder === divisor && quotient % BigInt(2) === BigInt(1))
+    ) {
+      quotient += BigInt(1);
+    }
+
+    return negative ? -quotient : quotient;
+  }
+
+  private static align(a: Decimal, b: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(a.scale, b.scale);
+    return [
+      a.units * BigInt(10) ** BigInt(scale - a.scale),
+      b.units * BigInt(10) ** BigInt(scale - b.scale),
+      scale,
+    ];
+  }
+}
@@ -0,0 +1,109 @@
+// src/utils/feeEngine.ts
+import { FeeRule, FeeSchedule } from "../config/feeSchedules";
+import { getMinorUnits } from "../config/currencies";
+import { Decimal } from "./decimal";
+
+export interface FeeInput {
+  amount: number | string;
+  currency: string;
+  payment_method: string;
+  sender_country: string;
+  receiver_country: string;
+}
+
+export interface FeeResult {
+  processing_fee: string;
+  net_amount: string;
+  fee_schedule_id: string;
+  fee_schedule_version: number;
+  fee_rule_id: string;
+}
+
+export class FeeRuleNotFoundError extends Error {
+  constructor(public schedule: FeeSchedule, input: FeeInput) {
+    super(
+      `No fee rule in schedule ${schedule.id} v${schedule.version} matches ` +
+        `${input.payment_method} ${input.currency} ` +
+        `${input.sender_country}->${input.receiver_country}`
+    );
+    this.name = "FeeRuleNotFoundError";
+  }
+}
+
+/**
+ * Rule-based fee calculation with exact decimal arithmetic
+ */
+export class FeeEngine {
+  /**
+   * Find the first rule of the schedule that matches the transaction
+   */
+  static findRule(schedule: FeeSchedule, input: FeeInput): FeeRule {
+    const rule = schedule.rules.find((candidate) =>
+      this.matches(candidate, input)
+    );
+    if (!rule) {
+      throw new FeeRuleNotFoundError(schedule, input);
+    }
+    return rule;
+  }
+
+  /**
+   * Calculate processing fee and net amount:
+   * amount * rate + fixed_fee, rounded half-to-even to the currency's
+   * minor units, then clamped to [min_fee, max_fee] and never more than
+   * the amount itself.
+   */
+  static calculate(schedule: FeeSchedule, input: FeeInput): FeeResult {
+    const rule = this.findRule(schedule, input);
+    const amount = Decimal.from(input.amount);
+    const scale = getMinorUnits(input.currency);
+
+    let fee = amount
+      .times(rule.rate ?? "0")
+      .plus(rule.fixed_fee ?? "0")
+      .round(scale);
+
+    if (rule.min_fee !== undefined) {
+      fee = Decimal.max(fee, Decimal.from(rule.min_fee).round(scale));
+    }
+    if (rule.max_fee !== undefined) {
+      fee = Decimal.min(fee, Decimal.from(rule.max_fee).round(scale));
+    }
+    fee = Decimal.min(fee, amount.round(scale));
+    if (fee.isNegative()) {
+      fee = Decimal.ZERO.round(scale);
+    }
+
+    return {
+      processing_fee: fee.toString(),
+      net_amount: amount.minus(fee).round(scale).toString(),
+      fee_schedule_id: schedule.id,
+      fee_schedule_version: schedule.version,
+      fee_rule_id: rule.id,
+    };
+  }
+
+  private static matches(rule: FeeRule, input: FeeInput): boolean {
+    const listMatches = (values: string[] | undefined, value: string) =>
+      !values || values.includes(value);
+
+    if (
+      !listMatches(rule.payment_method, input.payment_method) ||
+      !listMatches(rule.currency, input.currency.toUpperCase()) ||
+      !listMatches(rule.sender_country, input.sender_country.toUpperCase()) ||
+      !listMatches(rule.receiver_country, input.receiver_country.toUpperCase())
+    ) {
+      return false;
+    }
+
+    const amount = Decimal.from(input.amount);
+    if (rule.min_amount !== undefined && amount.compare(rule.min_amount) < 0) {
+      return false;
+    }
+    if (rule.max_amount !== undefined && amount.compare(rule.max_amount) >= 0) {
+      return false;
+    }
+
+    return true;
+  }
+}
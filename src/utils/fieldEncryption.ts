@@ -0,0 +1,163 @@
+// src/utils/fieldEncryption.ts
+import * as crypto from "crypto";
+import { ValueTransformer } from "typeorm";
+import {
+  dataProtectionConfig,
+  EncryptionKey,
+} from "../config/dataProtection";
+
+// Stored format: enc:<key version>:<iv>:<auth tag>:<ciphertext> (base64)
+const ENCRYPTED_PREFIX = "enc:";
+const IV_LENGTH = 12;
+
+/**
+ * AES-256-GCM field encryption with versioned keys, plus keyed hashes
+ * (HMAC-SHA256) for equality lookups on encrypted fields
+ */
+export class FieldCipher {
+  constructor(
+    private keys: EncryptionKey[],
+    private activeVersion: string | null,
+    private hashKey: string | null,
+    private encryptedFields: string[] = []
+  ) {}
+
+  get enabled(): boolean {
+    return this.activeVersion !== null && this.keys.length > 0;
+  }
+
+  /**
+   * Key version new values are encrypted with
+   */
+  get activeKeyVersion(): string | null {
+    return this.enabled ? this.activeVersion : null;
+  }
+
+  /**
+   * Whether a "<table>.<column>" field is encrypted on write
+   */
+  encrypts(field: string): boolean {
+    return this.enabled && this.encryptedFields.includes(field);
+  }
+
+  isEncrypted(value: unknown): value is string {
+    return typeof value === "string" && value.startsWith(ENCRYPTED_PREFIX);
+  }
+
+  /**
+   * Key version a stored value was encrypted with (null for plain text)
+   */
+  keyVersion(value: unknown): string | null {
+    return this.isEncrypted(value) ? value.split(":")[1] : null;
+  }
+
+  encrypt(plaintext: string): string {
+    const key = this.getKey(this.activeVersion!);
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv("aes-256-gcm", key.key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+
+    return [
+      "enc",
+      key.version,
+      iv.toString("base64"),
+      cipher.getAuthTag().toString("base64"),
+      ciphertext.toString("base64"),
+    ].join(":");
+  }
+
+  /**
+   * Decrypt a stored value; plain text (stored before encryption was
+   * enabled) is returned as is
+   */
+  decrypt(value: string): string {
+    if (!this.isEncrypted(value)) {
+      return value;
+    }
+
+    const [, version, iv, tag, ciphertext] = value.split(":");
+    const decipher = crypto.createDecipheriv(
+      "aes-256-gcm",
+      this.getKey(version).key,
+      Buffer.from(iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  /**
+   * Whether a hash key is configured (hashed lookups are possible)
+   */
+  canHash(): boolean {
+    return Boolean(this.hashKey);
+  }
+
+  /**
+   * Keyed hash of a value for lookups (trimmed, case-insensitive)
+   * @returns null when no hash key is configured or the value is empty
+   */
+  hash(value: string | null | undefined): string | null {
+    if (!this.hashKey || value === null || value === undefined) {
+      return null;
+    }
+    const normalized = String(value).trim().toLowerCase();
+    if (normalized === "") {
+      return null;
+    }
+    return crypto
+      .createHmac("sha256", this.hashKey)
+      .update(normalized)
+      .digest("hex");
+  }
+
+  private getKey(version: string): EncryptionKey {
+    const key = this.keys.find((k) => k.version === version);
+    if (!key) {
+      throw new Error(`Unknown encryption key version: ${version}`);
+    }
+    return key;
+  }
+}
+
+export const fieldCipher = new FieldCipher(
+  dataProtectionConfig.keys,
+  dataProtectionConfig.activeKeyVersion,
+  dataProtectionConfig.hashKey,
+  dataProtectionConfig.encryptedFields
+);
+
+/**
+ * Column transformer for a text column that is encrypted when the field
+ * is configured in PII_ENCRYPTED_FIELDS. Reads decrypt either way.
+ * Encrypted columns cannot be compared in SQL - use a hash column.
+ */
+export const encryptedColumn = (field: string): ValueTransformer => ({
+  to: (value: string | null | undefined) =>
+    typeof value === "string" && fieldCipher.encrypts(field)
+      ? fieldCipher.encrypt(value)
+      : value,
+  from: (value: string | null) =>
+    value === null ? value : fieldCipher.decrypt(value),
+});
+
+/**
+ * Column transformer for a jsonb column; the encrypted JSON is stored as
+ * a JSON string
+ */
+export const encryptedJsonColumn = (field: string): ValueTransformer => ({
+  to: (value: any) =>
+    value !== null && value !== undefined && fieldCipher.encrypts(field)
+      ? fieldCipher.encrypt(JSON.stringify(value))
+      : value,
+  from: (value: any) =>
+    fieldCipher.isEncrypted(value)
+      ? JSON.parse(fieldCipher.decrypt(value))
+      : value,
+});
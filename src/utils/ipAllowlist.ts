@@ -0,0 +1,65 @@
+// src/utils/ipAllowlist.ts
+import { BlockList, isIP } from "net";
+
+const IPV4_MAPPED_PREFIX = "::ffff:";
+
+/**
+ * IPv4 clients of a dual-stack server show up as ::ffff:a.b.c.d
+ */
+const normalizeAddress = (address: string): string => {
+  const lower = address.toLowerCase();
+  if (lower.startsWith(IPV4_MAPPED_PREFIX)) {
+    const ipv4 = lower.slice(IPV4_MAPPED_PREFIX.length);
+    if (isIP(ipv4) === 4) {
+      return ipv4;
+    }
+  }
+  return lower;
+};
+
+/**
+ * Source addresses allowed to send a provider's webhooks: single IPv4/IPv6
+ * addresses and CIDR subnets ("203.0.113.0/24", "2001:db8::/32")
+ */
+export class IpAllowlist {
+  private readonly list = new BlockList();
+
+  constructor(readonly entries: string[]) {
+    for (const entry of entries) {
+      const [address, prefix, ...rest] = entry.split("/");
+      const family = isIP(address);
+      const type = family === 6 ? "ipv6" : "ipv4";
+
+      if (family === 0 || rest.length > 0) {
+        throw new Error(`Invalid IP address or subnet: ${entry}`);
+      }
+
+      if (prefix === undefined) {
+        this.list.addAddress(address, type);
+        continue;
+      }
+
+      const bits = Number(prefix);
+      if (!/^\d+$/.test(prefix) || bits > (family === 6 ? 128 : 32)) {
+        throw new Error(`Invalid IP address or subnet: ${entry}`);
+      }
+      this.list.addSubnet(address, bits, type);
+    }
+  }
+
+  /**
+   * Whether the address is on the list (unparseable addresses are not)
+   */
+  allows(address: string | undefined): boolean {
+    if (!address) {
+      return false;
+    }
+
+    const normalized = normalizeAddress(address);
+    const family = isIP(normalized);
+    if (family === 0) {
+      return false;
+    }
+    return this.list.check(normalized, family === 6 ? "ipv6" : "ipv4");
+  }
+}
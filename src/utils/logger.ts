@@ -0,0 +1,39 @@
+// src/utils/logger.ts
+import winston from "winston";
+import { loggingConfig } from "../config/logging";
+import { getCorrelationId } from "./requestContext";
+import { redactError } from "./redaction";
+
+/**
+ * Add the correlation id of the current request and make errors safe to
+ * log (see redactError)
+ */
+const context = winston.format((info) => {
+  const correlationId = getCorrelationId();
+  if (correlationId && !info.correlation_id) {
+    info.correlation_id = correlationId;
+  }
+  if (info.error !== undefined) {
+    info.error = redactError(info.error);
+  }
+  return info;
+});
+
+/**
+ * Application logger: one JSON object per line on stdout, e.g.
+ * {"level":"info","message":"Webhook processed","correlation_id":"...",
+ *  "service":"webhook-payment-verification","timestamp":"..."}
+ *
+ * Pass details as metadata (logger.info("Message", { event_id })) and
+ * errors as { error }.
+ */
+export const logger = winston.createLogger({
+  level: loggingConfig.level,
+  defaultMeta: { service: "webhook-payment-verification" },
+  format: winston.format.combine(
+    context(),
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  transports: [new winston.transports.Console()],
+});
@@ -0,0 +1,231 @@
+// src/utils/metrics.ts
+
+type Labels = Record<string, string>;
+
+// Seconds; covers fast duplicates up to slow conversions
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return "";
+  }
+  return `{${entries
+    .map(([name, value]) => `${name}="${escapeLabelValue(value)}"`)
+    .join(",")}}`;
+};
+
+interface Metric {
+  name: string;
+  render(): string[];
+}
+
+/**
+ * Base for labelled metrics: one series per combination of label values
+ */
+abstract class LabelledMetric<T> implements Metric {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    public name: string,
+    protected help: string,
+    protected labelNames: string[]
+  ) {}
+
+  abstract render(): string[];
+
+  protected getSeries(labels: Labels, initial: () => T): { value: T } {
+    // Unknown labels are dropped, missing ones are empty
+    const normalized: Labels = {};
+    for (const name of this.labelNames) {
+      normalized[name] = labels[name] ?? "";
+    }
+
+    const key = JSON.stringify(normalized);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: normalized, value: initial() };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  protected header(type: string): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`];
+  }
+}
+
+/**
+ * Monotonically increasing count
+ */
+export class Counter extends LabelledMetric<number> {
+  inc(labels: Labels = {}, value: number = 1): void {
+    const series = this.getSeries(labels, () => 0);
+    series.value += value;
+  }
+
+  render(): string[] {
+    return [
+      ...this.header("counter"),
+      ...[...this.series.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+/**
+ * Distribution of observed values (cumulative buckets, sum and count)
+ */
+export class Histogram extends LabelledMetric<{
+  buckets: number[];
+  sum: number;
+  count: number;
+}> {
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[],
+    private buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.value.buckets[index]++;
+      }
+    });
+    series.value.sum += value;
+    series.value.count++;
+  }
+
+  /**
+   * Start timing; the returned function observes the elapsed seconds
+   */
+  startTimer(labels: Labels = {}): (endLabels?: Labels) => number {
+    const start = process.hrtime.bigint();
+    return (endLabels: Labels = {}) => {
+      const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+      this.observe({ ...labels, ...endLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  render(): string[] {
+    const lines = this.header("histogram");
+
+    for (const { labels, value } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`
+        );
+      });
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${value.count}`
+      );
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * In-process metrics in the Prometheus text exposition format
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  register<T extends Metric>(metric: T): T {
+    if (this.metrics.some((m) => m.name === metric.name)) {
+      throw new Error(`Metric already registered: ${metric.name}`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return (
+      this.metrics.map((metric) => metric.render().join("\n")).join("\n\n") +
+      "\n"
+    );
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+/**
+ * Webhook pipeline and HTTP metrics
+ */
+export const metrics = {
+  webhooksReceived: metricsRegistry.register(
+    new Counter(
+      "webhooks_received_total",
+      "Webhook deliveries received (before signature verification)",
+      ["provider"]
+    )
+  ),
+  webhooksSignatureRejected: metricsRegistry.register(
+    new Counter(
+      "webhooks_signature_rejected_total",
+      "Webhook deliveries rejected by signature verification",
+      ["provider", "reason"]
+    )
+  ),
+  webhooksRejected: metricsRegistry.register(
+    new Counter(
+      "webhooks_rejected_total",
+      "Webhook deliveries rejected by rate limits, the IP allowlist or payload limits",
+      ["provider", "reason"]
+    )
+  ),
+  webhooksProcessed: metricsRegistry.register(
+    new Counter(
+      "webhooks_processed_total",
+      "Webhook events processed (applied or ignored)",
+      ["provider", "event_type", "outcome"]
+    )
+  ),
+  webhooksFailed: metricsRegistry.register(
+    new Counter(
+      "webhooks_failed_total",
+      "Webhook events that failed processing",
+      ["provider", "reason"]
+    )
+  ),
+  webhooksDuplicate: metricsRegistry.register(
+    new Counter(
+      "webhooks_duplicate_total",
+      "Webhook events already processed",
+      ["provider", "reason"]
+    )
+  ),
+  webhookProcessingDuration: metricsRegistry.register(
+    new Histogram(
+      "webhook_processing_duration_seconds",
+      "Time to process a webhook event",
+      ["provider", "outcome"]
+    )
+  ),
+  httpRequestDuration: metricsRegistry.register(
+    new Histogram(
+      "http_request_duration_seconds",
+      "HTTP request latency",
+      ["method", "route", "status_code"]
+    )
+  ),
+};
@@ -0,0 +1,110 @@
+// src/utils/nameMatching.ts
+
+// Titles and legal forms that do not identify a party
+const NOISE_TOKENS = new Set([
+  "mr",
+  "mrs",
+  "ms",
+  "dr",
+  "the",
+  "inc",
+  "ltd",
+  "llc",
+  "plc",
+  "gmbh",
+  "sa",
+  "co",
+  "corp",
+  "company",
+  "limited",
+]);
+
+/**
+ * Normalize a name for comparison: strip accents, lower-case, replace
+ * punctuation with spaces and drop titles and legal forms
+ * ("Dr. José  O'Brien-Smith" -> "jose o brien smith")
+ */
+export const normalizeName = (name: string): string => {
+  const tokens = name
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== "");
+
+  const meaningful = tokens.filter((token) => !NOISE_TOKENS.has(token));
+  // A name made only of noise tokens is kept as it is
+  return (meaningful.length > 0 ? meaningful : tokens).join(" ");
+};
+
+/**
+ * Jaro-Winkler similarity (0 = nothing in common, 1 = identical)
+ */
+export const jaroWinkler = (a: string, b: string): number => {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) {
+    return 0;
+  }
+
+  // Matched characters that appear in a different order
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[j]) j++;
+    if (a[i] !== b[j]) transpositions++;
+    j++;
+  }
+
+  const jaro =
+    (matches / a.length +
+      matches / b.length +
+      (matches - transpositions / 2) / matches) /
+    3;
+
+  // Bonus for a common prefix of up to 4 characters
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
+/**
+ * Similarity of two normalized names, ignoring word order
+ * ("smith john" matches "john smith")
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (a === b) {
+    return 1;
+  }
+
+  const sortTokens = (name: string) => name.split(" ").sort().join(" ");
+
+  return Math.max(jaroWinkler(a, b), jaroWinkler(sortTokens(a), sortTokens(b)));
+};
@@ -0,0 +1,123 @@
+// src/utils/redaction.ts
+import {
+  dataProtectionConfig,
+  RedactionAction,
+  RedactionPolicy,
+} from "../config/dataProtection";
+import { fieldCipher } from "./fieldEncryption";
+
+export const REDACTED = "[REDACTED]";
+
+/**
+ * Keep the first character of each word ("Alice Johnson" -> "A**** J******",
+ * "alice@example.com" -> "a****@example.com")
+ */
+export const maskValue = (value: unknown): string => {
+  const text = String(value);
+  const at = text.indexOf("@");
+  if (at > 0) {
+    return maskValue(text.slice(0, at)) + text.slice(at);
+  }
+  return text.replace(/(\S)(\S*)/g, (_, first: string, rest: string) =>
+    first + "*".repeat(rest.length)
+  );
+};
+
+const applyAction = (value: unknown, action: RedactionAction): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  switch (action) {
+    case "mask":
+      return typeof value === "object" ? REDACTED : maskValue(value);
+    case "hash":
+      // Without a hash key there is nothing safe to store
+      return typeof value === "object"
+        ? REDACTED
+        : fieldCipher.hash(String(value)) ?? REDACTED;
+    case "redact":
+      return REDACTED;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Copy of a payload with the policy applied. Paths are dot-separated from
+ * the root; "*" matches any key on one level and array items are matched
+ * by the path of their array.
+ */
+export const redact = <T>(
+  payload: T,
+  policy: RedactionPolicy = dataProtectionConfig.redactionPolicy
+): T => {
+  const rules = Object.entries(policy).map(([path, action]) => ({
+    segments: path.split("."),
+    action,
+  }));
+
+  const actionFor = (path: string[]): RedactionAction | undefined =>
+    rules.find(
+      (rule) =>
+        rule.segments.length === path.length &&
+        rule.segments.every(
+          (segment, index) => segment === "*" || segment === path[index]
+        )
+    )?.action;
+
+  const walk = (value: any, path: string[]): any => {
+    if (Array.isArray(value)) {
+      return value.map((item) => walk(item, path));
+    }
+    if (!value || typeof value !== "object") {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key];
+      const action = actionFor(childPath);
+
+      if (action === "remove") {
+        continue;
+      }
+      result[key] =
+        action && action !== "keep"
+          ? applyAction(child, action)
+          : walk(child, childPath);
+    }
+    return result;
+  };
+
+  return walk(payload, []);
+};
+
+/**
+ * Policy that removes every field the policy protects (used when audit
+ * rows are anonymized)
+ */
+export const anonymizationPolicy = (
+  policy: RedactionPolicy = dataProtectionConfig.redactionPolicy
+): RedactionPolicy =>
+  Object.fromEntries(
+    Object.entries(policy)
+      .filter(([, action]) => action !== "keep")
+      .map(([path]) => [path, "remove" as RedactionAction])
+  );
+
+/**
+ * Error details that are safe to log. Database errors carry the query
+ * parameters (names, metadata), so only the name, message and stack are
+ * kept.
+ */
+export const redactError = (error: unknown): unknown => {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+  return {
+    name: error.name,
+    message: error.message,
+    ...((error as any).code ? { code: (error as any).code } : {}),
+    stack: error.stack,
+  };
+};
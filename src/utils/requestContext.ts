@@ -0,0 +1,23 @@
+// src/utils/requestContext.ts
+import { AsyncLocalStorage } from "async_hooks";
+
+export interface RequestContext {
+  // Ties together the log lines and audit rows of one webhook or request
+  correlationId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function (and everything it awaits) with a correlation id
+ */
+export const runWithCorrelationId = <T>(
+  correlationId: string,
+  fn: () => T
+): T => storage.run({ correlationId }, fn);
+
+/**
+ * Correlation id of the current request or job, if any
+ */
+export const getCorrelationId = (): string | undefined =>
+  storage.getStore()?.correlationId;
@@ -0,0 +1,173 @@
+// src/utils/riskEngine.ts
+import { RiskRule } from "../config/risk";
+import { RiskDecision } from "../entities/Transaction.entity";
+import { Decimal } from "./decimal";
+
+export interface RiskInput {
+  amount: number | string;
+  currency: string;
+  sender_id: string;
+  sender_email?: string;
+  sender_country: string;
+  receiver_id: string;
+  receiver_email?: string;
+  receiver_country: string;
+}
+
+/**
+ * Earlier transactions of the party within a velocity rule's window
+ * (amount only counts transactions in the payment's currency)
+ */
+export interface VelocityStats {
+  count: number;
+  amount: string;
+}
+
+export interface RiskRuleMatch {
+  rule_id: string;
+  type: string;
+  score: number;
+  action?: string;
+  reason: string;
+}
+
+export interface RiskAssessment {
+  score: number;
+  decision: RiskDecision;
+  rules: RiskRuleMatch[];
+}
+
+export interface RiskThresholds {
+  reviewScore: number;
+  rejectScore: number;
+}
+
+/**
+ * Rule-based risk scoring. Scores of matching rules are added up; the
+ * decision is the strictest of the score thresholds and the actions of
+ * the matching rules.
+ */
+export class RiskEngine {
+  /**
+   * Score a payment. `velocity` holds the stats of each velocity rule,
+   * keyed by rule id.
+   */
+  static evaluate(
+    rules: RiskRule[],
+    input: RiskInput,
+    velocity: Record<string, VelocityStats>,
+    thresholds: RiskThresholds
+  ): RiskAssessment {
+    const matches: RiskRuleMatch[] = [];
+
+    for (const rule of rules) {
+      const reason = this.check(rule, input, velocity[rule.id]);
+      if (reason) {
+        matches.push({
+          rule_id: rule.id,
+          type: rule.type,
+          score: rule.score,
+          ...(rule.action ? { action: rule.action } : {}),
+          reason,
+        });
+      }
+    }
+
+    const score = matches.reduce((total, match) => total + match.score, 0);
+
+    let decision = RiskDecision.ACCEPT;
+    if (
+      score >= thresholds.rejectScore ||
+      matches.some((match) => match.action === "reject")
+    ) {
+      decision = RiskDecision.REJECT;
+    } else if (
+      score >= thresholds.reviewScore ||
+      matches.some((match) => match.action === "review")
+    ) {
+      decision = RiskDecision.REVIEW;
+    }
+
+    return { score, decision, rules: matches };
+  }
+
+  /**
+   * Whether a rule matches
+   * @returns Why it matched, or null
+   */
+  private static check(
+    rule: RiskRule,
+    input: RiskInput,
+    stats: VelocityStats | undefined
+  ): string | null {
+    const currency = input.currency.toUpperCase();
+
+    switch (rule.type) {
+      case "velocity": {
+        if (!stats) {
+          return null;
+        }
+        // This payment counts towards the limits
+        const count = stats.count + 1;
+        if (rule.max_count !== undefined && count > rule.max_count) {
+          return `${count} transactions by ${rule.party} in ${rule.window_seconds}s (max ${rule.max_count})`;
+        }
+        if (rule.max_amount !== undefined && this.appliesTo(rule, currency)) {
+          const total = Decimal.from(stats.amount).plus(input.amount);
+          if (total.compare(rule.max_amount) > 0) {
+            return `${total.toString()} ${currency} by ${rule.party} in ${rule.window_seconds}s (max ${rule.max_amount})`;
+          }
+        }
+        return null;
+      }
+
+      case "amount":
+        if (
+          this.appliesTo(rule, currency) &&
+          Decimal.from(input.amount).compare(rule.min_amount!) >= 0
+        ) {
+          return `Amount ${input.amount} ${currency} >= ${rule.min_amount}`;
+        }
+        return null;
+
+      case "country": {
+        const field = rule.country_field ?? "any";
+        const countries = rule.countries ?? [];
+        const sender = input.sender_country.toUpperCase();
+        const receiver = input.receiver_country.toUpperCase();
+
+        if (field !== "receiver" && countries.includes(sender)) {
+          return `Sender country ${sender} is listed`;
+        }
+        if (field !== "sender" && countries.includes(receiver)) {
+          return `Receiver country ${receiver} is listed`;
+        }
+        return null;
+      }
+
+      case "same_party":
+        if (input.sender_id === input.receiver_id) {
+          return `Sender and receiver have the same id ${input.sender_id}`;
+        }
+        if (
+          input.sender_email &&
+          input.receiver_email &&
+          input.sender_email.trim().toLowerCase() ===
+            input.receiver_email.trim().toLowerCase()
+        ) {
+          return "Sender and receiver have the same email";
+        }
+        return null;
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Rules without a currency list apply to every currency
+   */
+  private static appliesTo(rule: RiskRule, currency: string): boolean {
+    return !rule.currency || rule.currency.includes(currency);
+  }
+}
@@ -0,0 +1,189 @@
+// src/utils/settlementReport.ts
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { parseCsv } from "./csv";
+import { Decimal } from "./decimal";
+
+export type SettlementReportFormat = "csv" | "json";
+
+export const SETTLEMENT_REPORT_FORMATS: SettlementReportFormat[] = [
+  "csv",
+  "json",
+];
+
+/**
+ * One row of a provider settlement report. Status and fee are optional
+ * and only compared when present.
+ */
+export interface SettlementRecord {
+  // 1 = first record of the report
+  row: number;
+  transaction_id: string;
+  amount: string;
+  currency: string;
+  status: TransactionStatus | string | null;
+  fee: string | null;
+}
+
+export class SettlementReportError extends Error {
+  constructor(message: string, public row?: number) {
+    super(row === undefined ? message : `Row ${row}: ${message}`);
+    this.name = "SettlementReportError";
+  }
+}
+
+// Provider settlement statuses that mean one of ours
+const STATUS_ALIASES: Record<string, TransactionStatus> = {
+  settled: TransactionStatus.COMPLETED,
+  succeeded: TransactionStatus.COMPLETED,
+  paid: TransactionStatus.COMPLETED,
+  captured: TransactionStatus.COMPLETED,
+  canceled: TransactionStatus.CANCELLED,
+  partial_refund: TransactionStatus.PARTIALLY_REFUNDED,
+  chargeback: TransactionStatus.DISPUTED,
+};
+
+/**
+ * Our status for a report status (unknown statuses are kept as they are,
+ * so they show up as mismatches)
+ */
+const normalizeStatus = (value: string): TransactionStatus | string => {
+  const status = value.trim().toLowerCase();
+  if ((Object.values(TransactionStatus) as string[]).includes(status)) {
+    return status as TransactionStatus;
+  }
+  return STATUS_ALIASES[status] ?? status;
+};
+
+const optional = (value: any): string | null => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  const text = String(value).trim();
+  return text === "" ? null : text;
+};
+
+const parseRecord = (raw: any, row: number): SettlementRecord => {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new SettlementReportError("record must be an object", row);
+  }
+
+  const transactionId = optional(raw.transaction_id);
+  if (!transactionId) {
+    throw new SettlementReportError("transaction_id is required", row);
+  }
+
+  const amount = optional(raw.amount);
+  if (!amount || !Decimal.isValid(amount)) {
+    throw new SettlementReportError("amount must be a decimal number", row);
+  }
+
+  const currency = optional(raw.currency);
+  if (!currency || !/^[A-Za-z]{3}$/.test(currency)) {
+    throw new SettlementReportError(
+      "currency must be a 3-letter ISO 4217 code",
+      row
+    );
+  }
+
+  const fee = optional(raw.fee);
+  if (fee !== null && !Decimal.isValid(fee)) {
+    throw new SettlementReportError("fee must be a decimal number", row);
+  }
+
+  const status = optional(raw.status);
+
+  return {
+    row,
+    transaction_id: transactionId,
+    amount: Decimal.from(amount).toString(),
+    currency: currency.toUpperCase(),
+    status: status === null ? null : normalizeStatus(status),
+    fee: fee === null ? null : Decimal.from(fee).toString(),
+  };
+};
+
+/**
+ * Validate parsed JSON report content: an array of records, or
+ * { "records": [...] }
+ * @throws SettlementReportError naming the first invalid row
+ */
+export const parseSettlementRecords = (parsed: any): SettlementRecord[] => {
+  const rawRecords = Array.isArray(parsed) ? parsed : parsed?.records;
+  if (!Array.isArray(rawRecords)) {
+    throw new SettlementReportError("Report must contain an array of records");
+  }
+  return rawRecords.map((raw, index) => parseRecord(raw, index + 1));
+};
+
+/**
+ * Parse a settlement report.
+ * - CSV: header row with transaction_id, amount, currency and optionally
+ *   status and fee (other columns are ignored)
+ * - JSON: an array of records with the same fields, or { "records": [...] }
+ * Amounts and fees are decimals in major units (10.50, not 1050).
+ * @throws SettlementReportError naming the first invalid row
+ */
+export const parseSettlementReport = (
+  text: string,
+  format: SettlementReportFormat
+): SettlementRecord[] => {
+  if (format === "csv") {
+    let rows: Record<string, string>[];
+    try {
+      rows = parseCsv(text);
+    } catch (error: any) {
+      throw new SettlementReportError(error.message);
+    }
+    return rows.map((raw, index) => parseRecord(raw, index + 1));
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new SettlementReportError("Report must be valid JSON");
+  }
+  return parseSettlementRecords(parsed);
+};
+
+/**
+ * Report format from a file name (.csv or .json)
+ */
+export const detectReportFormat = (
+  fileName: string
+): SettlementReportFormat | null => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const format = SETTLEMENT_REPORT_FORMATS.find((name) => name === extension);
+  return format ?? null;
+};
+
+/**
+ * Settlement period [start, end) from ISO 8601 dates; both or neither
+ * @throws SettlementReportError when only one is given or they are invalid
+ */
+export const parseSettlementPeriod = (
+  start?: string,
+  end?: string
+): { period_start?: Date; period_end?: Date } => {
+  if (!start && !end) {
+    return {};
+  }
+  if (!start || !end) {
+    throw new SettlementReportError(
+      "period_start and period_end must be given together"
+    );
+  }
+
+  const periodStart = new Date(start);
+  const periodEnd = new Date(end);
+  if (isNaN(periodStart.getTime()) || isNaN(periodEnd.getTime())) {
+    throw new SettlementReportError(
+      "period_start and period_end must be valid ISO 8601 dates"
+    );
+  }
+  if (periodStart >= periodEnd) {
+    throw new SettlementReportError("period_start must be before period_end");
+  }
+
+  return { period_start: periodStart, period_end: periodEnd };
+};
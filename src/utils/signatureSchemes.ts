@@ -0,0 +1,190 @@
+// src/utils/signatureSchemes.ts
+import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
+
+/**
+ * Signature material extracted from request headers
+ */
+export interface ParsedSignature {
+  signatures: string[];
+  timestamp?: string;
+  keyId?: string;
+}
+
+/**
+ * A signature scheme knows where a sender puts its signature and how the
+ * signed content and digest are built. Secrets come from the keyring.
+ */
+export interface SignatureScheme {
+  readonly name: string;
+
+  /**
+   * Extract signatures (and timestamp, if the scheme has one) from headers.
+   * Returns null when the signature header is absent.
+   */
+  parse(headers: IncomingHttpHeaders): ParsedSignature | null;
+
+  /**
+   * Compute the expected signature for a key
+   */
+  sign(secret: string, payload: string | Buffer, timestamp?: string): string;
+}
+
+export type DigestEncoding = "hex" | "base64";
+
+const getHeader = (
+  headers: IncomingHttpHeaders,
+  name: string
+): string | undefined => {
+  const value = headers[name.toLowerCase()];
+  return Array.isArray(value) ? value.join(",") : value;
+};
+
+const hmac = (
+  secret: string,
+  content: string | Buffer,
+  encoding: DigestEncoding
+): string => crypto.createHmac("sha256", secret).update(content).digest(encoding);
+
+const signedContent = (
+  payload: string | Buffer,
+  timestamp?: string
+): string | Buffer => (timestamp ? `${timestamp}.${payload}` : payload);
+
+/**
+ * Our own header format: X-Webhook-Signature holding one signature or a
+ * `v1=<sig>,v1=<sig>` list (optionally `kid=<key id>`), plus an optional
+ * X-Webhook-Timestamp that is prepended to the payload as `<ts>.<body>`.
+ */
+export class HeaderHmacScheme implements SignatureScheme {
+  constructor(
+    public readonly name: string,
+    private readonly options: {
+      signatureHeader: string;
+      timestampHeader?: string;
+      encoding: DigestEncoding;
+    }
+  ) {}
+
+  parse(headers: IncomingHttpHeaders): ParsedSignature | null {
+    const header = getHeader(headers, this.options.signatureHeader);
+    if (!header) {
+      return null;
+    }
+
+    let keyId: string | undefined;
+    const signatures: string[] = [];
+
+    for (const part of header.split(",")) {
+      const entry = part.trim();
+      if (!entry) continue;
+
+      // Base64 digests may end in "=", so only split on a known prefix
+      const match = /^(kid|v1)=(.*)$/.exec(entry);
+      if (!match) {
+        signatures.push(entry);
+      } else if (match[1] === "kid") {
+        keyId = match[2].trim();
+      } else {
+        signatures.push(match[2].trim());
+      }
+    }
+
+    const timestamp = this.options.timestampHeader
+      ? getHeader(headers, this.options.timestampHeader)
+      : undefined;
+
+    return { keyId, signatures, timestamp: timestamp || undefined };
+  }
+
+  sign(secret: string, payload: string | Buffer, timestamp?: string): string {
+    return hmac(secret, signedContent(payload, timestamp), this.options.encoding);
+  }
+}
+
+/**
+ * Stripe-style combined header: `Stripe-Signature: t=<ts>,v1=<sig>[,v1=<sig>]`
+ */
+export class StripeSignatureScheme implements SignatureScheme {
+  readonly name = "stripe";
+
+  constructor(private readonly header: string = "stripe-signature") {}
+
+  parse(headers: IncomingHttpHeaders): ParsedSignature | null {
+    const header = getHeader(headers, this.header);
+    if (!header) {
+      return null;
+    }
+
+    let timestamp: string | undefined;
+    const signatures: string[] = [];
+
+    for (const part of header.split(",")) {
+      const separator = part.indexOf("=");
+      if (separator === -1) continue;
+
+      const name = part.slice(0, separator).trim();
+      const value = part.slice(separator + 1).trim();
+
+      if (name === "t") {
+        timestamp = value;
+      } else if (name === "v1") {
+        signatures.push(value);
+      }
+    }
+
+    return { signatures, timestamp };
+  }
+
+  sign(secret: string, payload: string | Buffer, timestamp?: string): string {
+    return hmac(secret, signedContent(payload, timestamp), "hex");
+  }
+}
+
+/**
+ * GitHub-style header: `X-Hub-Signature-256: sha256=<hex>` (no timestamp)
+ */
+export class GitHubSignatureScheme implements SignatureScheme {
+  readonly name = "github";
+
+  constructor(private readonly header: string = "x-hub-signature-256") {}
+
+  parse(headers: IncomingHttpHeaders): ParsedSignature | null {
+    const header = getHeader(headers, this.header);
+    if (!header) {
+      return null;
+    }
+
+    const signatures = header
+      .split(",")
+      .map((part) => part.trim())
+      .filter((part) => part.startsWith("sha256="))
+      .map((part) => part.slice("sha256=".length));
+
+    return { signatures };
+  }
+
+  sign(secret: string, payload: string | Buffer): string {
+    return hmac(secret, payload, "hex");
+  }
+}
+
+export const DEFAULT_SIGNATURE_SCHEME = "default";
+
+/**
+ * Schemes available out of the box
+ */
+export const builtInSignatureSchemes = (): SignatureScheme[] => [
+  new HeaderHmacScheme(DEFAULT_SIGNATURE_SCHEME, {
+    signatureHeader: "x-webhook-signature",
+    timestampHeader: "x-webhook-timestamp",
+    encoding: "hex",
+  }),
+  new HeaderHmacScheme("base64", {
+    signatureHeader: "x-webhook-signature",
+    timestampHeader: "x-webhook-timestamp",
+    encoding: "base64",
+  }),
+  new StripeSignatureScheme(),
+  new GitHubSignatureScheme(),
+];
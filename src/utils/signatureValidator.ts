@@ -1,76 +1,208 @@
 import crypto from "crypto";
+import { IncomingHttpHeaders } from "http";
 import * as dotenv from "dotenv";
+import {
+  SigningKey,
+  loadSigningKeys,
+  isSigningKeyActive,
+} from "../config/signingKeys";
+import {
+  SignatureScheme,
+  ParsedSignature,
+  DEFAULT_SIGNATURE_SCHEME,
+  builtInSignatureSchemes,
+} from "./signatureSchemes";
+import { logger } from "./logger";
 
 dotenv.config();
 
+export type SignatureFailureReason =
+  | "missing_signature"
+  | "missing_timestamp"
+  | "invalid_timestamp"
+  | "invalid_signature";
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  keyId?: string;
+  reason?: SignatureFailureReason;
+}
+
+export interface SignatureVerificationOptions {
+  // Name of a registered signature scheme (default: "default")
+  scheme?: string;
+  // Reject requests without a signed timestamp (default: WEBHOOK_REQUIRE_TIMESTAMP)
+  requireTimestamp?: boolean;
+  // How old the webhook can be (default: 5 minutes)
+  toleranceSeconds?: number;
+  // Keyring to verify against (default: WEBHOOK_SECRET / WEBHOOK_SIGNING_KEYS)
+  keys?: SigningKey[];
+}
+
 export class SignatureValidator {
-  private readonly secret: string;
+  private readonly keys: SigningKey[];
+  private readonly schemes = new Map<string, SignatureScheme>();
+  private readonly requireTimestamp: boolean;
+  private readonly toleranceSeconds: number;
 
   constructor() {
-    this.secret = process.env.WEBHOOK_SECRET as string;
-    if (!this.secret) {
-      throw new Error("WEBHOOK_SECRET is not configured");
+    this.keys = loadSigningKeys();
+    if (this.keys.length === 0) {
+      throw new Error(
+        "No webhook signing keys configured (set WEBHOOK_SECRET or WEBHOOK_SIGNING_KEYS)"
+      );
     }
+
+    this.requireTimestamp = process.env.WEBHOOK_REQUIRE_TIMESTAMP === "true";
+    this.toleranceSeconds = parseInt(
+      process.env.WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS || "300"
+    );
+
+    builtInSignatureSchemes().forEach((scheme) => this.registerScheme(scheme));
+  }
+
+  /**
+   * Register (or replace) a signature scheme
+   */
+  registerScheme(scheme: SignatureScheme): void {
+    this.schemes.set(scheme.name, scheme);
   }
 
   /**
-   * Verifies webhook signature using HMAC SHA256
+   * Look up a registered signature scheme by name
+   */
+  getScheme(name: string): SignatureScheme {
+    const scheme = this.schemes.get(name);
+    if (!scheme) {
+      throw new Error(`Unknown signature scheme: ${name}`);
+    }
+    return scheme;
+  }
+
+  /**
+   * Verifies webhook request signature using HMAC SHA256 against every
+   * active key, in the format of the chosen scheme
+   * @param headers - Request headers
    * @param payload - Raw request body (string or Buffer)
-   * @param receivedSignature - Signature from X-Webhook-Signature header
-   * @returns boolean - true if signature is valid
+   * @param options - Scheme and replay protection settings
+   * @returns Verification result with the id of the key that matched
    */
-  verify(payload: string | Buffer, receivedSignature: string): boolean {
+  verifyRequest(
+    headers: IncomingHttpHeaders,
+    payload: string | Buffer,
+    options: SignatureVerificationOptions = {}
+  ): SignatureVerificationResult {
+    const scheme = this.getScheme(options.scheme ?? DEFAULT_SIGNATURE_SCHEME);
+    const requireTimestamp = options.requireTimestamp ?? this.requireTimestamp;
+    const toleranceSeconds = options.toleranceSeconds ?? this.toleranceSeconds;
+    const keys = options.keys ?? this.keys;
+
+    const parsed = scheme.parse(headers);
+    if (!parsed || parsed.signatures.length === 0) {
+      return { valid: false, reason: "missing_signature" };
+    }
+
+    if (parsed.timestamp === undefined) {
+      if (requireTimestamp) {
+        return { valid: false, reason: "missing_timestamp" };
+      }
+      // Verify without timestamp (basic verification)
+      return this.matchKeys(keys, scheme, payload, parsed);
+    }
+
+    if (!this.isTimestampFresh(parsed.timestamp, toleranceSeconds)) {
+      return { valid: false, reason: "invalid_timestamp" };
+    }
+
+    // Verify with timestamp (prevents replay attacks)
+    return this.matchKeys(keys, scheme, payload, parsed);
+  }
+
+  /**
+   * Ids of keys that are currently valid (useful for monitoring rotation)
+   */
+  getActiveKeyIds(keys: SigningKey[] = this.keys): string[] {
+    return this.getActiveKeys(keys).map((key) => key.id);
+  }
+
+  private getActiveKeys(keys: SigningKey[]): SigningKey[] {
+    const now = new Date();
+    return keys.filter((key) => isSigningKeyActive(key, now));
+  }
+
+  /**
+   * Try every active key (or only the pinned one) against the signatures
+   */
+  private matchKeys(
+    keys: SigningKey[],
+    scheme: SignatureScheme,
+    payload: string | Buffer,
+    parsed: ParsedSignature
+  ): SignatureVerificationResult {
     try {
-      // Generate expected signature using HMAC SHA256
-      const expectedSignature = crypto
-        .createHmac("sha256", this.secret)
-        .update(payload)
-        .digest("hex");
-
-      // Constant-time comparison to prevent timing attacks
-      return crypto.timingSafeEqual(
-        Buffer.from(receivedSignature),
-        Buffer.from(expectedSignature)
+      const candidateKeys = this.getActiveKeys(keys).filter(
+        (key) => !parsed.keyId || key.id === parsed.keyId
       );
+
+      for (const key of candidateKeys) {
+        const expectedSignature = scheme.sign(
+          key.secret,
+          payload,
+          parsed.timestamp
+        );
+
+        if (
+          parsed.signatures.some((sig) =>
+            this.safeCompare(sig, expectedSignature)
+          )
+        ) {
+          return { valid: true, keyId: key.id };
+        }
+      }
     } catch (error) {
-      console.error("Signature verification error:", error);
-      return false;
+      logger.error("Signature verification error", { error });
     }
+
+    return { valid: false, reason: "invalid_signature" };
   }
 
   /**
-   * Verifies webhook with timestamp to prevent replay attacks
-   * @param payload - Raw request body
-   * @param receivedSignature - Signature from header
-   * @param timestamp - Unix timestamp from header
-   * @param toleranceSeconds - How old the webhook can be (default: 5 minutes)
-   * @returns boolean - true if signature and timestamp are valid
+   * Check if timestamp is within tolerance
    */
-  verifyWithTimestamp(
-    payload: string | Buffer,
-    receivedSignature: string,
-    timestamp: string,
-    toleranceSeconds: number = 300
-  ): boolean {
-    // Check if timestamp is within tolerance (5 minutes by default)
+  private isTimestampFresh(timestamp: string, toleranceSeconds: number): boolean {
     const currentTime = Math.floor(Date.now() / 1000);
     const payloadTime = parseInt(timestamp);
 
     if (isNaN(payloadTime)) {
-      console.warn("Invalid timestamp format");
+      logger.warn("Invalid webhook timestamp format", { timestamp });
       return false;
     }
 
     if (Math.abs(currentTime - payloadTime) > toleranceSeconds) {
-      console.warn(`Webhook timestamp outside tolerance window. 
-        Current: ${currentTime}, Payload: ${payloadTime}, 
-        Difference: ${Math.abs(currentTime - payloadTime)}s`);
+      logger.warn("Webhook timestamp outside tolerance window", {
+        current: currentTime,
+        payload: payloadTime,
+        difference_seconds: Math.abs(currentTime - payloadTime),
+        tolerance_seconds: toleranceSeconds,
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Constant-time comparison to prevent timing attacks
+   */
+  private safeCompare(received: string, expected: string): boolean {
+    const receivedBuffer = Buffer.from(received);
+    const expectedBuffer = Buffer.from(expected);
+
+    if (receivedBuffer.length !== expectedBuffer.length) {
       return false;
     }
 
-    // Create signed payload with timestamp (prevents replay attacks)
-    const signedPayload = `${timestamp}.${payload}`;
-    return this.verify(signedPayload, receivedSignature);
+    return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
   }
 }
 
@@ -0,0 +1,75 @@
+// src/utils/tokenBucket.ts
+
+/**
+ * Burst size and sustained rate of a token bucket
+ */
+export interface TokenBucketLimit {
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  // Whole tokens left after this request
+  remaining: number;
+  // Seconds until a token is available again (0 when allowed)
+  retryAfterSeconds: number;
+}
+
+/**
+ * Tokens in the bucket at `now`: refilled since the last update, capped at
+ * the capacity. A bucket seen for the first time is full.
+ */
+export const refill = (
+  state: TokenBucketState | undefined,
+  limit: TokenBucketLimit,
+  now: number
+): number => {
+  if (!state) {
+    return limit.capacity;
+  }
+  const elapsedSeconds = Math.max(0, now - state.updatedAt) / 1000;
+  return Math.min(
+    limit.capacity,
+    state.tokens + elapsedSeconds * limit.refillPerSecond
+  );
+};
+
+/**
+ * Decision for a bucket holding `tokens` after the request took one (if
+ * it could)
+ */
+export const decide = (
+  allowed: boolean,
+  tokens: number,
+  limit: TokenBucketLimit
+): RateLimitDecision => ({
+  allowed,
+  remaining: Math.max(0, Math.floor(tokens)),
+  retryAfterSeconds: allowed
+    ? 0
+    : Math.max(1, Math.ceil((1 - tokens) / limit.refillPerSecond)),
+});
+
+/**
+ * Take one token from the bucket if there is one
+ */
+export const takeToken = (
+  state: TokenBucketState | undefined,
+  limit: TokenBucketLimit,
+  now: number
+): { state: TokenBucketState; decision: RateLimitDecision } => {
+  const available = refill(state, limit, now);
+  const allowed = available >= 1;
+  const tokens = allowed ? available - 1 : available;
+
+  return {
+    state: { tokens, updatedAt: now },
+    decision: decide(allowed, tokens, limit),
+  };
+};
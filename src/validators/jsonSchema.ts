@@ -0,0 +1,216 @@
+// src/validators/jsonSchema.ts
+
+/**
+ * Subset of JSON Schema (draft 2020-12) used for webhook payloads
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonType | JsonType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  enum?: (string | number | boolean | null)[];
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: "email" | "date-time";
+  minimum?: number;
+  exclusiveMinimum?: number;
+  examples?: any[];
+}
+
+export type JsonType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/**
+ * One schema violation
+ */
+export interface SchemaIssue {
+  // JSON pointer to the offending value ("" is the whole document)
+  path: string;
+  // Machine-readable violation code (required, type, enum, ...)
+  code: string;
+  message: string;
+  // What was expected, e.g. the type or allowed values
+  expected?: any;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Append a property name to a JSON pointer (RFC 6901 escaping)
+ */
+export const joinPointer = (path: string, key: string): string =>
+  `${path}/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+
+const typeOf = (value: any): JsonType => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value as JsonType;
+};
+
+const matchesType = (value: any, type: JsonType): boolean => {
+  const actual = typeOf(value);
+  if (type === "number") {
+    return (actual === "number" || actual === "integer") && isFinite(value);
+  }
+  return actual === type;
+};
+
+/**
+ * Validate a value against a schema and collect every violation
+ * (does not stop at the first one)
+ */
+export const validateSchema = (
+  schema: JsonSchema,
+  value: any,
+  path: string = ""
+): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  const label = path || "payload";
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      issues.push({
+        path,
+        code: "type",
+        message: `${label} must be of type ${types.join(" or ")}`,
+        expected: schema.type,
+      });
+      // Nested keywords are meaningless for a value of the wrong type
+      return issues;
+    }
+  }
+
+  // An empty string is reported like a missing value
+  if (value === "" && (schema.minLength ?? 0) > 0) {
+    issues.push({ path, code: "required", message: `${label} is required` });
+    return issues;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      code: "enum",
+      message: `${label} must be one of: ${schema.enum.join(", ")}`,
+      expected: schema.enum,
+    });
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({
+        path,
+        code: "min_length",
+        message: `${label} must be at least ${schema.minLength} characters`,
+        expected: { minLength: schema.minLength },
+      });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({
+        path,
+        code: "max_length",
+        message: `${label} must be at most ${schema.maxLength} characters`,
+        expected: { maxLength: schema.maxLength },
+      });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({
+        path,
+        code: "pattern",
+        message: `${label} does not match the expected format`,
+        expected: { pattern: schema.pattern },
+      });
+    }
+    if (schema.format) {
+      const valid =
+        schema.format === "email"
+          ? EMAIL_REGEX.test(value)
+          : !isNaN(Date.parse(value));
+      if (!valid) {
+        issues.push({
+          path,
+          code: "format",
+          message: `${label} must be a valid ${
+            schema.format === "email" ? "email address" : "ISO 8601 date-time"
+          }`,
+          expected: { format: schema.format },
+        });
+      }
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({
+        path,
+        code: "minimum",
+        message: `${label} must be at least ${schema.minimum}`,
+        expected: { minimum: schema.minimum },
+      });
+    }
+    if (
+      schema.exclusiveMinimum !== undefined &&
+      value <= schema.exclusiveMinimum
+    ) {
+      issues.push({
+        path,
+        code: "minimum",
+        message: `${label} must be greater than ${schema.exclusiveMinimum}`,
+        expected: { exclusiveMinimum: schema.exclusiveMinimum },
+      });
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined || value[key] === null) {
+        const keyPath = joinPointer(path, key);
+        issues.push({
+          path: keyPath,
+          code: "required",
+          message: `${keyPath} is required`,
+          expected: schema.properties?.[key]?.type,
+        });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(
+      schema.properties ?? {}
+    )) {
+      if (value[key] !== undefined && value[key] !== null) {
+        issues.push(
+          ...validateSchema(propertySchema, value[key], joinPointer(path, key))
+        );
+      }
+    }
+
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(value)) {
+        if (!schema.properties?.[key]) {
+          const keyPath = joinPointer(path, key);
+          issues.push({
+            path: keyPath,
+            code: "additional_property",
+            message: `${keyPath} is not allowed`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+};
@@ -0,0 +1,64 @@
+// src/validators/statusTransitionValidator.ts
+import { TransactionStatus } from "../entities/Transaction.entity";
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public from: TransactionStatus, public to: TransactionStatus) {
+    super(`Cannot transition transaction from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+  }
+}
+
+/**
+ * Transaction status lifecycle (state machine)
+ */
+export class StatusTransitionValidator {
+  private static readonly ALLOWED_TRANSITIONS: Record<
+    TransactionStatus,
+    TransactionStatus[]
+  > = {
+    [TransactionStatus.PENDING]: [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.FAILED,
+      TransactionStatus.CANCELLED,
+    ],
+    [TransactionStatus.COMPLETED]: [
+      TransactionStatus.PARTIALLY_REFUNDED,
+      TransactionStatus.REFUNDED,
+      TransactionStatus.DISPUTED,
+    ],
+    [TransactionStatus.FAILED]: [],
+    [TransactionStatus.CANCELLED]: [],
+    // Further partial refunds keep the status (see RefundService)
+    [TransactionStatus.PARTIALLY_REFUNDED]: [
+      TransactionStatus.REFUNDED,
+      TransactionStatus.DISPUTED,
+    ],
+    [TransactionStatus.REFUNDED]: [],
+    // A dispute is won (completed, or partially refunded after earlier
+    // refunds) or lost (refunded to the payer)
+    [TransactionStatus.DISPUTED]: [
+      TransactionStatus.COMPLETED,
+      TransactionStatus.PARTIALLY_REFUNDED,
+      TransactionStatus.REFUNDED,
+    ],
+    // Left only through a review decision (see RiskService.resolveReview);
+    // events received meanwhile update held_status instead
+    [TransactionStatus.UNDER_REVIEW]: [],
+  };
+
+  /**
+   * Check whether a transition between two statuses is allowed
+   */
+  static canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+    return this.ALLOWED_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  /**
+   * Validate a transition, throwing if it is not allowed
+   */
+  static assertTransition(from: TransactionStatus, to: TransactionStatus): void {
+    if (!this.canTransition(from, to)) {
+      throw new InvalidStatusTransitionError(from, to);
+    }
+  }
+}
@@ -1,5 +1,16 @@
 // src/validators/transactionValidator.ts
-import { TransactionStatus } from "../entities/Transaction.entity";
+import { ConversionStatus } from "../entities/Transaction.entity";
+import { FeeSchedule } from "../config/feeSchedules";
+import {
+  getCurrency,
+  getMinorUnits,
+  isCurrencyEnabled,
+} from "../config/currencies";
+import { FeeEngine, FeeInput } from "../utils/feeEngine";
+import { Decimal } from "../utils/decimal";
+import { ExchangeRateQuote } from "../services/exchangeRateProviders";
+import { JsonSchema, SchemaIssue, validateSchema } from "./jsonSchema";
+import { WEBHOOK_PAYLOAD_SCHEMA } from "./webhookPayloadSchema";
 
 export interface WebhookPayload {
   event_id: string;
@@ -23,167 +34,147 @@ export interface WebhookPayload {
     };
     status: string;
     payment_method: string;
+    // Follow-up events (refund, chargeback, cancellation)
+    reason?: string;
+    // payment.dispute_closed: won or lost
+    outcome?: string;
     metadata?: Record<string, any>;
   };
 }
 
 export class ValidationError extends Error {
-  constructor(public field: string, message: string) {
+  // Every violation found; `field` is the path of the first one
+  public errors: SchemaIssue[];
+
+  constructor(public field: string, message: string, errors?: SchemaIssue[]) {
     super(message);
     this.name = "ValidationError";
+    this.errors = errors ?? [{ path: field, code: "invalid", message }];
   }
-}
-
-export class TransactionValidator {
-  private static readonly VALID_CURRENCIES = [
-    "USD",
-    "EUR",
-    "GBP",
-    "INR",
-    "JPY",
-  ];
-
-  private static readonly VALID_STATUSES = Object.values(TransactionStatus);
 
   /**
-   * Validates the entire webhook payload
+   * One error carrying all violations
    */
-  static validate(payload: WebhookPayload): void {
-    this.validateRequired(payload);
-    this.validateAmount(payload.data.amount);
-    this.validateCurrency(payload.data.currency);
-    this.validateStatus(payload.data.status);
-    this.validateCountryCodes(
-      payload.data.sender.country,
-      payload.data.receiver.country
-    );
-    this.validateEmail(payload.data.sender.email, "sender.email");
-    this.validateEmail(payload.data.receiver.email, "receiver.email");
+  static fromIssues(issues: SchemaIssue[]): ValidationError {
+    const message =
+      issues.length === 1
+        ? issues[0].message
+        : `Payload has ${issues.length} validation errors: ${issues
+            .map((issue) => issue.message)
+            .join("; ")}`;
+
+    return new ValidationError(issues[0].path, message, issues);
   }
+}
 
+export class TransactionValidator {
   /**
-   * Check all required fields are present
+   * Validates the entire webhook payload and reports all violations at once
+   * @throws ValidationError with every violation in `errors`
    */
-  private static validateRequired(payload: WebhookPayload): void {
-    const requiredFields = {
-      event_id: payload.event_id,
-      event_type: payload.event_type,
-      "data.transaction_id": payload.data?.transaction_id,
-      "data.amount": payload.data?.amount,
-      "data.currency": payload.data?.currency,
-      "data.sender.id": payload.data?.sender?.id,
-      "data.sender.name": payload.data?.sender?.name,
-      "data.sender.email": payload.data?.sender?.email,
-      "data.sender.country": payload.data?.sender?.country,
-      "data.receiver.id": payload.data?.receiver?.id,
-      "data.receiver.name": payload.data?.receiver?.name,
-      "data.receiver.email": payload.data?.receiver?.email,
-      "data.receiver.country": payload.data?.receiver?.country,
-      "data.status": payload.data?.status,
-      "data.payment_method": payload.data?.payment_method,
-    };
-
-    for (const [field, value] of Object.entries(requiredFields)) {
-      if (value === undefined || value === null || value === "") {
-        throw new ValidationError(field, `${field} is required`);
-      }
+  static validate(
+    payload: WebhookPayload,
+    schema: JsonSchema = WEBHOOK_PAYLOAD_SCHEMA
+  ): void {
+    const issues = this.collectIssues(payload, schema);
+    if (issues.length > 0) {
+      throw ValidationError.fromIssues(issues);
     }
   }
 
   /**
-   * Validate amount is positive
+   * Schema violations plus configuration-dependent rules
    */
-  private static validateAmount(amount: number): void {
-    if (typeof amount !== "number" || isNaN(amount)) {
-      throw new ValidationError("amount", "Amount must be a valid number");
-    }
+  static collectIssues(
+    payload: WebhookPayload,
+    schema: JsonSchema = WEBHOOK_PAYLOAD_SCHEMA
+  ): SchemaIssue[] {
+    const issues = validateSchema(schema, payload);
+
+    // Configuration-dependent rules only run on present, well-formed values
+    // (currency and amount are optional in some event schemas)
+    const isUsable = (path: string, value: any) =>
+      value !== undefined &&
+      value !== null &&
+      !issues.some(
+        (issue) => issue.path === path || path.startsWith(`${issue.path}/`)
+      );
 
-    if (amount <= 0) {
-      throw new ValidationError("amount", "Amount must be a positive number");
-    }
+    if (isUsable("/data/currency", payload?.data?.currency)) {
+      issues.push(...this.validateCurrency(payload.data.currency));
 
-    // Check for reasonable decimal places (max 2 for currency)
-    if (amount.toString().split(".")[1]?.length > 2) {
-      throw new ValidationError(
-        "amount",
-        "Amount cannot have more than 2 decimal places"
-      );
+      if (
+        isUsable("/data/currency", payload.data.currency) &&
+        isUsable("/data/amount", payload.data.amount)
+      ) {
+        issues.push(
+          ...this.validateAmount(payload.data.amount, payload.data.currency)
+        );
+      }
     }
+
+    return issues;
   }
 
   /**
-   * Validate currency is valid ISO code
+   * Validate currency is an enabled ISO 4217 code
    */
-  private static validateCurrency(currency: string): void {
-    if (!currency || typeof currency !== "string") {
-      throw new ValidationError("currency", "Currency is required");
-    }
-
+  private static validateCurrency(currency: string): SchemaIssue[] {
+    const path = "/data/currency";
     const upperCurrency = currency.toUpperCase();
-    if (!this.VALID_CURRENCIES.includes(upperCurrency)) {
-      throw new ValidationError(
-        "currency",
-        `Currency must be a valid ISO code. Supported: ${this.VALID_CURRENCIES.join(
-          ", "
-        )}`
-      );
-    }
-  }
 
-  /**
-   * Validate status is valid enum value
-   */
-  private static validateStatus(status: string): void {
-    if (!status || typeof status !== "string") {
-      throw new ValidationError("status", "Status is required");
+    if (!getCurrency(upperCurrency)) {
+      return [
+        {
+          path,
+          code: "unsupported_currency",
+          message: `Currency must be a valid ISO 4217 code. Received: ${currency}`,
+        },
+      ];
     }
 
-    if (!this.VALID_STATUSES.includes(status as TransactionStatus)) {
-      throw new ValidationError(
-        "status",
-        `Status must be one of: ${this.VALID_STATUSES.join(", ")}`
-      );
+    if (!isCurrencyEnabled(upperCurrency)) {
+      return [
+        {
+          path,
+          code: "currency_disabled",
+          message: `Currency ${upperCurrency} is not enabled`,
+        },
+      ];
     }
-  }
 
-  /**
-   * Validate country codes are 2-letter ISO codes
-   */
-  private static validateCountryCodes(...countries: string[]): void {
-    const iso2Regex = /^[A-Z]{2}$/;
-    countries.forEach((country, index) => {
-      if (!country || typeof country !== "string") {
-        throw new ValidationError(
-          `country_${index}`,
-          "Country code is required"
-        );
-      }
-
-      const upperCountry = country.toUpperCase();
-      if (!iso2Regex.test(upperCountry)) {
-        throw new ValidationError(
-          `country_${index}`,
-          `Country code must be 2-letter ISO code (e.g., US, IN, GB). Received: ${country}`
-        );
-      }
-    });
+    return [];
   }
 
   /**
-   * Validate email format
+   * Validate the amount fits the currency's minor units
    */
-  private static validateEmail(email: string, fieldName: string): void {
-    if (!email || typeof email !== "string") {
-      throw new ValidationError(fieldName, `${fieldName} is required`);
+  private static validateAmount(
+    amount: number,
+    currency: string
+  ): SchemaIssue[] {
+    const path = "/data/amount";
+
+    // No more decimal places than the currency has (JPY 0, USD 2, KWD 3)
+    const minorUnits = getMinorUnits(currency);
+    const decimal = Decimal.from(amount);
+    if (decimal.scale > minorUnits) {
+      return [
+        {
+          path,
+          code: "precision",
+          message: `Amount cannot have more than ${minorUnits} decimal places for ${currency.toUpperCase()}`,
+          expected: { maxDecimalPlaces: minorUnits },
+        },
+      ];
     }
 
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!emailRegex.test(email)) {
-      throw new ValidationError(
-        fieldName,
-        `${fieldName} must be a valid email address`
-      );
+    // Larger amounts cannot be represented exactly as a JSON number
+    if (decimal.round(minorUnits).units > BigInt(Number.MAX_SAFE_INTEGER)) {
+      return [{ path, code: "too_large", message: "Amount is too large" }];
     }
+
+    return [];
   }
 }
 
@@ -191,38 +182,50 @@ export class TransactionValidator {
  * Calculate derived fields for transaction
  */
 export class TransactionCalculator {
-  private static readonly PROCESSING_FEE_RATE = 0.02; // 2%
-
   /**
-   * Calculate processing fee and net amount
-   * @param amount - Transaction amount
-   * @returns Object with processing_fee and net_amount
+   * Calculate processing fee and net amount with a fee schedule
+   * @param input - Transaction amount, currency, payment method and corridor
+   * @param schedule - Fee schedule in effect for the transaction
+   * @returns Fee, net amount (decimal strings) and the applied schedule/rule
    */
-  static calculateDerivedFields(amount: number) {
-    const processingFee = parseFloat(
-      (amount * this.PROCESSING_FEE_RATE).toFixed(2)
-    );
-    const netAmount = parseFloat((amount - processingFee).toFixed(2));
-
-    return {
-      processing_fee: processingFee,
-      net_amount: netAmount,
-    };
+  static calculateDerivedFields(input: FeeInput, schedule: FeeSchedule) {
+    return FeeEngine.calculate(schedule, input);
   }
 
   /**
-   * Calculate exchange rate (placeholder for future implementation)
-   * @param fromCurrency - Source currency
-   * @param toCurrency - Target currency
-   * @param amount - Amount to convert
+   * Convert the net amount into the settlement currency
+   * @param netAmount - Net amount in the transaction currency
+   * @param settlementCurrency - Currency to settle in
+   * @param quote - Rate for currency -> settlement currency, or null if unknown
+   * @param missingStatus - Status to record when there is no rate
    */
-  static calculateExchangeRate(
-    fromCurrency: string,
-    toCurrency: string,
-    amount: number
-  ): number | null {
-    // Placeholder - in real app, call currency conversion API
-    // For now, return null (will be added to DB as null)
-    return null;
+  static calculateSettlement(
+    netAmount: string,
+    settlementCurrency: string,
+    quote: ExchangeRateQuote | null,
+    missingStatus: ConversionStatus = ConversionStatus.UNAVAILABLE
+  ) {
+    if (!quote) {
+      return {
+        exchange_rate: null,
+        settlement_currency: settlementCurrency,
+        settlement_net_amount: null,
+        exchange_rate_source: null,
+        exchange_rate_at: null,
+        conversion_status: missingStatus,
+      };
+    }
+
+    return {
+      exchange_rate: quote.rate,
+      settlement_currency: settlementCurrency,
+      settlement_net_amount: Decimal.from(netAmount)
+        .times(quote.rate)
+        .round(getMinorUnits(settlementCurrency))
+        .toString(),
+      exchange_rate_source: quote.source,
+      exchange_rate_at: quote.effective_from,
+      conversion_status: ConversionStatus.CONVERTED,
+    };
   }
 }
@@ -0,0 +1,159 @@
+// src/validators/webhookPayloadSchema.ts
+import { TransactionStatus } from "../entities/Transaction.entity";
+import { DisputeOutcome } from "../entities/Refund.entity";
+import { JsonSchema } from "./jsonSchema";
+
+// Bump on every change; breaking changes bump the major version
+export const WEBHOOK_PAYLOAD_SCHEMA_VERSION = "1.0.0";
+
+const party = (role: string): JsonSchema => ({
+  type: "object",
+  description: `The ${role} of the payment`,
+  required: ["id", "name", "email", "country"],
+  properties: {
+    id: { type: "string", minLength: 1 },
+    name: { type: "string", minLength: 1 },
+    email: { type: "string", minLength: 1, format: "email" },
+    country: {
+      type: "string",
+      minLength: 1,
+      pattern: "^[A-Za-z]{2}$",
+      description: "ISO 3166-1 alpha-2 country code",
+      examples: ["US", "IN", "GB"],
+    },
+  },
+});
+
+/**
+ * Canonical webhook payload (WebhookPayload) as JSON Schema.
+ * Rules that depend on configuration (enabled currencies, decimal places
+ * per currency) are checked by TransactionValidator after the schema.
+ */
+export const WEBHOOK_PAYLOAD_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:webhook-payment:webhook-payload:${WEBHOOK_PAYLOAD_SCHEMA_VERSION}`,
+  title: "WebhookPayload",
+  description: `Canonical payment webhook payload, schema version ${WEBHOOK_PAYLOAD_SCHEMA_VERSION}`,
+  type: "object",
+  required: ["event_id", "event_type", "data"],
+  properties: {
+    event_id: {
+      type: "string",
+      minLength: 1,
+      description: "Unique id of the event (idempotency key)",
+    },
+    event_type: { type: "string", minLength: 1 },
+    timestamp: {
+      type: "string",
+      format: "date-time",
+      description: "When the event happened; used for ordering and rates",
+    },
+    data: {
+      type: "object",
+      required: [
+        "transaction_id",
+        "amount",
+        "currency",
+        "sender",
+        "receiver",
+        "status",
+        "payment_method",
+      ],
+      properties: {
+        transaction_id: { type: "string", minLength: 1 },
+        amount: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description:
+            "Amount in major units, with at most the currency's minor units as decimals",
+        },
+        currency: {
+          type: "string",
+          minLength: 1,
+          pattern: "^[A-Za-z]{3}$",
+          description: "ISO 4217 currency code (must be enabled)",
+          examples: ["USD", "EUR", "JPY"],
+        },
+        sender: party("sender"),
+        receiver: party("receiver"),
+        status: {
+          type: "string",
+          minLength: 1,
+          // Refunds and disputes arrive as their own event types
+          enum: [
+            TransactionStatus.PENDING,
+            TransactionStatus.COMPLETED,
+            TransactionStatus.FAILED,
+            TransactionStatus.CANCELLED,
+          ],
+        },
+        payment_method: { type: "string", minLength: 1 },
+        metadata: { type: "object" },
+      },
+    },
+  },
+};
+
+/**
+ * Follow-up event for an existing transaction (refund, chargeback,
+ * cancellation). Only the transaction reference is required.
+ */
+export const TRANSACTION_EVENT_SCHEMA: JsonSchema = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  $id: `urn:webhook-payment:transaction-event:${WEBHOOK_PAYLOAD_SCHEMA_VERSION}`,
+  title: "TransactionEvent",
+  description: `Event for an existing transaction, schema version ${WEBHOOK_PAYLOAD_SCHEMA_VERSION}`,
+  type: "object",
+  required: ["event_id", "event_type", "data"],
+  properties: {
+    event_id: WEBHOOK_PAYLOAD_SCHEMA.properties!.event_id,
+    event_type: WEBHOOK_PAYLOAD_SCHEMA.properties!.event_type,
+    timestamp: WEBHOOK_PAYLOAD_SCHEMA.properties!.timestamp,
+    data: {
+      type: "object",
+      required: ["transaction_id"],
+      properties: {
+        transaction_id: { type: "string", minLength: 1 },
+        amount: {
+          type: "number",
+          exclusiveMinimum: 0,
+          description: "Amount concerned, in the transaction currency",
+        },
+        currency: {
+          type: "string",
+          minLength: 1,
+          pattern: "^[A-Za-z]{3}$",
+        },
+        reason: { type: "string" },
+        metadata: { type: "object" },
+      },
+    },
+  },
+};
+
+/**
+ * payment.dispute_closed: a transaction event with the outcome of its
+ * open dispute
+ */
+export const DISPUTE_CLOSED_SCHEMA: JsonSchema = {
+  ...TRANSACTION_EVENT_SCHEMA,
+  $id: `urn:webhook-payment:dispute-closed:${WEBHOOK_PAYLOAD_SCHEMA_VERSION}`,
+  title: "DisputeClosedEvent",
+  description: `Outcome of a dispute, schema version ${WEBHOOK_PAYLOAD_SCHEMA_VERSION}`,
+  properties: {
+    ...TRANSACTION_EVENT_SCHEMA.properties,
+    data: {
+      ...TRANSACTION_EVENT_SCHEMA.properties!.data,
+      required: ["transaction_id", "outcome"],
+      properties: {
+        ...TRANSACTION_EVENT_SCHEMA.properties!.data.properties,
+        outcome: {
+          type: "string",
+          enum: [DisputeOutcome.WON, DisputeOutcome.LOST],
+          description:
+            "won: the chargeback is returned; lost: it counts as refunded",
+        },
+      },
+    },
+  },
+};
@@ -0,0 +1,150 @@
+import { randomUUID } from "crypto";
+import { inboxConfig } from "../config/inbox";
+import { WebhookInbox, InboxStatus } from "../entities/WebhookInbox.entity";
+import {
+  providerRegistry,
+  UnknownProviderError,
+} from "../providers/providerRegistry";
+import { inboxService } from "../services/inboxService";
+import {
+  webhookService,
+  DuplicateTransactionError,
+  WebhookContext,
+} from "../services/webhookService";
+import { WebhookPayload } from "../validators/transactionValidator";
+import { RefundExceedsAmountError } from "../services/refundService";
+import { RiskRejectedError } from "../services/riskService";
+import { ScreeningBlockedError } from "../services/screeningService";
+import { ValidationError } from "../validators/transactionValidator";
+import { InvalidStatusTransitionError } from "../validators/statusTransitionValidator";
+import { logger } from "../utils/logger";
+import { runWithCorrelationId } from "../utils/requestContext";
+
+/**
+ * Background worker that drains the webhook inbox in the same process
+ */
+export class InboxWorker {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentPoll: Promise<void> | null = null;
+
+  /**
+   * Start polling the inbox
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Inbox worker started");
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentPoll) {
+      await this.currentPoll;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentPoll = this.poll().finally(() => {
+        this.currentPoll = null;
+      });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let claimed = 0;
+
+    try {
+      const rows = await inboxService.claimBatch(inboxConfig.batchSize);
+      claimed = rows.length;
+
+      for (const row of rows) {
+        // Log lines and audit rows keep the id of the request that queued it
+        await runWithCorrelationId(row.correlation_id ?? randomUUID(), () =>
+          this.processEntry(row)
+        );
+      }
+    } catch (error) {
+      logger.error("Inbox worker poll failed", { error });
+    }
+
+    // Keep draining while full batches come back
+    this.schedule(
+      claimed === inboxConfig.batchSize ? 0 : inboxConfig.pollIntervalMs
+    );
+  }
+
+  /**
+   * Run one inbox row through the normal processing pipeline
+   */
+  private async processEntry(entry: WebhookInbox): Promise<void> {
+    let payload: WebhookPayload | undefined;
+    let context: WebhookContext | undefined;
+
+    try {
+      const provider = providerRegistry.get(entry.provider);
+      payload = provider.mapPayload(JSON.parse(entry.raw_body));
+      context = {
+        provider: provider.name,
+        signingKeyId: entry.signing_key_id ?? undefined,
+        deliveryId: randomUUID(),
+        receivedAt: entry.created_at,
+        // Retries are not dead letters; the last attempt is recorded below
+        deferDeadLetter: true,
+      };
+
+      await webhookService.processWebhook(payload, context);
+
+      await inboxService.markProcessed(entry);
+    } catch (error) {
+      // Already processed - nothing left to do for this row
+      if (error instanceof DuplicateTransactionError) {
+        await inboxService.markProcessed(entry);
+        return;
+      }
+
+      // Retrying cannot fix these
+      const permanent =
+        error instanceof ValidationError ||
+        error instanceof InvalidStatusTransitionError ||
+        error instanceof RefundExceedsAmountError ||
+        error instanceof RiskRejectedError ||
+        error instanceof ScreeningBlockedError ||
+        error instanceof UnknownProviderError ||
+        error instanceof SyntaxError;
+
+      const status = await inboxService.markFailed(entry, error, permanent);
+      logger.error("Inbox entry failed", {
+        inbox_id: entry.id,
+        attempt: entry.attempts,
+        status,
+        error,
+      });
+
+      // One replayable record per given-up entry, not one per attempt
+      if (status === InboxStatus.DEAD_LETTER && payload && context) {
+        await webhookService.recordDeadLetter(payload, context, error);
+      }
+    }
+  }
+}
+
+export const inboxWorker = new InboxWorker();
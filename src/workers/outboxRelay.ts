@@ -0,0 +1,71 @@
+import { outboxConfig } from "../config/outbox";
+import { outboxService } from "../services/outboxService";
+import { logger } from "../utils/logger";
+
+/**
+ * Background worker that drains the transactional outbox into the
+ * configured publisher in the same process
+ */
+export class OutboxRelay {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentPoll: Promise<void> | null = null;
+
+  /**
+   * Start polling the outbox
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Outbox relay started");
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentPoll) {
+      await this.currentPoll;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentPoll = this.poll().finally(() => {
+        this.currentPoll = null;
+      });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let published = 0;
+
+    try {
+      ({ published } = await outboxService.relayBatch(outboxConfig.batchSize));
+    } catch (error) {
+      logger.error("Outbox relay poll failed", { error });
+    }
+
+    // Keep draining while full batches are published
+    this.schedule(
+      published === outboxConfig.batchSize ? 0 : outboxConfig.pollIntervalMs
+    );
+  }
+}
+
+export const outboxRelay = new OutboxRelay();
@@ -0,0 +1,73 @@
+import { retentionConfig } from "../config/dataProtection";
+import { dataProtectionService } from "../services/dataProtectionService";
+import { logger } from "../utils/logger";
+
+/**
+ * Background worker that anonymizes or purges audit rows past the
+ * retention period
+ */
+export class RetentionWorker {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentRun: Promise<void> | null = null;
+
+  /**
+   * Start the retention job (does nothing when retention is disabled)
+   */
+  start(): void {
+    if (this.running || retentionConfig.auditRetentionDays <= 0) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Retention worker started", {
+      mode: retentionConfig.mode,
+      audit_retention_days: retentionConfig.auditRetentionDays,
+    });
+    this.schedule(0);
+  }
+
+  /**
+   * Stop the job and wait for the current run to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentRun) {
+      await this.currentRun;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentRun = this.run().finally(() => {
+        this.currentRun = null;
+      });
+    }, delayMs);
+  }
+
+  private async run(): Promise<void> {
+    try {
+      const { mode, affected } =
+        await dataProtectionService.applyAuditRetention();
+      if (affected > 0) {
+        logger.info("Audit log retention applied", { mode, affected });
+      }
+    } catch (error) {
+      logger.error("Retention run failed", { error });
+    }
+
+    this.schedule(retentionConfig.intervalMs);
+  }
+}
+
+export const retentionWorker = new RetentionWorker();
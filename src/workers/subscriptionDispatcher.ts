@@ -0,0 +1,103 @@
+import { subscriptionConfig } from "../config/subscriptions";
+import {
+  SubscriptionDelivery,
+  DeliveryStatus,
+} from "../entities/SubscriptionDelivery.entity";
+import { subscriptionDeliveryService } from "../services/subscriptionDeliveryService";
+import { logger } from "../utils/logger";
+
+/**
+ * Background worker that sends queued subscription deliveries in the
+ * same process
+ */
+export class SubscriptionDispatcher {
+  private running = false;
+  private timer: NodeJS.Timeout | null = null;
+  private currentPoll: Promise<void> | null = null;
+
+  /**
+   * Start polling for due deliveries
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    logger.info("Subscription dispatcher started");
+    this.schedule(0);
+  }
+
+  /**
+   * Stop polling and wait for the current batch to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    if (this.currentPoll) {
+      await this.currentPoll;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.currentPoll = this.poll().finally(() => {
+        this.currentPoll = null;
+      });
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    let claimed = 0;
+
+    try {
+      const deliveries = await subscriptionDeliveryService.claimBatch(
+        subscriptionConfig.batchSize
+      );
+      claimed = deliveries.length;
+
+      // Subscribers are independent, so one slow receiver does not hold
+      // up the others in the batch
+      await Promise.all(deliveries.map((delivery) => this.send(delivery)));
+    } catch (error) {
+      logger.error("Subscription dispatcher poll failed", { error });
+    }
+
+    // Keep draining while full batches come back
+    this.schedule(
+      claimed === subscriptionConfig.batchSize
+        ? 0
+        : subscriptionConfig.pollIntervalMs
+    );
+  }
+
+  private async send(delivery: SubscriptionDelivery): Promise<void> {
+    try {
+      const status = await subscriptionDeliveryService.deliver(delivery);
+      if (status !== DeliveryStatus.DELIVERED) {
+        logger.warn("Subscription delivery failed", {
+          delivery_id: delivery.id,
+          url: delivery.subscription.url,
+          attempt: delivery.attempts,
+          status,
+        });
+      }
+    } catch (error) {
+      logger.error("Subscription delivery could not be recorded", {
+        delivery_id: delivery.id,
+        error,
+      });
+    }
+  }
+}
+
+export const subscriptionDispatcher = new SubscriptionDispatcher();
@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+/**
+ * Concurrency Test for Webhook Idempotency
+ * Fires parallel identical signed requests at /webhooks/payment and checks
+ * that exactly one is processed (200) and all others are rejected (409) or
+ * answered with the stored first response (200 + Idempotent-Replayed).
+ *
+ * Requires a running server (npm run dev) in sync processing mode.
+ * Usage: node test-concurrency.js [parallelRequests] [baseUrl]
+ */
+
+const crypto = require('crypto');
+const axios = require('axios');
+const dotenv = require('dotenv');
+dotenv.config();
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || 'abcd12345';
+const PARALLEL_REQUESTS = parseInt(process.argv[2] || '10');
+const BASE_URL = process.argv[3] || 'http://localhost:3000';
+
+// Unique ids per run so the first request always creates a new transaction
+const runId = crypto.randomBytes(6).toString('hex');
+
+const payload = {
+    "event_id": `evt_concurrency_${runId}`,
+    "event_type": "payment.created",
+    "timestamp": new Date().toISOString(),
+    "data": {
+        "transaction_id": `txn_concurrency_${runId}`,
+        "amount": 100.50,
+        "currency": "USD",
+        "sender": {
+            "id": "usr_sender_12345",
+            "name": "Alice Johnson",
+            "email": "alice.j@example.com",
+            "country": "US"
+        },
+        "receiver": {
+            "id": "usr_receiver_67890",
+            "name": "Raj Patel",
+            "email": "raj.p@example.in",
+            "country": "IN"
+        },
+        "status": "completed",
+        "payment_method": "bank_transfer"
+    }
+};
+
+const payloadString = JSON.stringify(payload);
+const timestamp = Math.floor(Date.now() / 1000).toString();
+const signature = crypto
+    .createHmac('sha256', WEBHOOK_SECRET)
+    .update(`${timestamp}.${payloadString}`)
+    .digest('hex');
+
+const sendRequest = () =>
+    axios.post(`${BASE_URL}/webhooks/payment`, payloadString, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Signature': signature,
+            'X-Webhook-Timestamp': timestamp
+        },
+        // Resolve for every status so we can count them
+        validateStatus: () => true
+    });
+
+const main = async () => {
+    console.log(`Sending ${PARALLEL_REQUESTS} parallel requests for ${payload.event_id}...`);
+
+    const responses = await Promise.all(
+        Array.from({ length: PARALLEL_REQUESTS }, sendRequest)
+    );
+
+    const isReplay = (res) => res.headers['idempotent-replayed'] === 'true';
+    const counts = responses.reduce((acc, res) => {
+        const key = isReplay(res) ? `${res.status} (replayed)` : `${res.status}`;
+        acc[key] = (acc[key] || 0) + 1;
+        return acc;
+    }, {});
+
+    console.log('Status codes:', counts);
+
+    const processed = responses.filter((res) => res.status === 200 && !isReplay(res));
+    const rejected = responses.filter((res) => res.status === 409 || (res.status === 200 && isReplay(res)));
+    const ok = processed.length === 1 && rejected.length === PARALLEL_REQUESTS - 1;
+
+    if (!ok) {
+        console.error(`❌ FAILED: expected exactly one 200 and ${PARALLEL_REQUESTS - 1} x 409 (or replayed 200)`);
+        responses
+            .filter((res) => res.status !== 200 && res.status !== 409)
+            .forEach((res) => console.error(res.status, JSON.stringify(res.data)));
+        process.exit(1);
+    }
+
+    console.log('✅ PASSED: exactly one request was processed, the rest returned 409 or the replayed response');
+};
+
+main().catch((error) => {
+    console.error('❌ Concurrency test failed to run:', error.message);
+    process.exit(1);
+});
@@ -0,0 +1,151 @@
+#!/usr/bin/env node
+/**
+ * Dispute Test
+ * Walks one payment through a partial refund, a chargeback and a lost
+ * dispute, then refunds the rest. Checks the status and refunded_amount
+ * returned for every event:
+ *   created 100 -> refund 10 -> chargeback 40 -> dispute lost -> refund 50
+ *   completed   -> partially_refunded (10) -> disputed (10)
+ *               -> partially_refunded (50) -> refunded (100)
+ * Closing the dispute a second time must fail with 422.
+ *
+ * Requires a running server (npm run dev) in sync processing mode.
+ * Usage: node test-disputes.js [baseUrl]
+ */
+
+const crypto = require('crypto');
+const axios = require('axios');
+const dotenv = require('dotenv');
+dotenv.config();
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || 'abcd12345';
+const BASE_URL = process.argv[2] || 'http://localhost:3000';
+
+const runId = crypto.randomBytes(6).toString('hex');
+const transactionId = `txn_dispute_${runId}`;
+const startedAt = Date.now();
+
+const event = (step, eventType, data) => ({
+    "event_id": `evt_dispute_${runId}_${step}`,
+    "event_type": eventType,
+    // One second apart, in the order of the steps
+    "timestamp": new Date(startedAt + step * 1000).toISOString(),
+    "data": { "transaction_id": transactionId, ...data }
+});
+
+const steps = [
+    {
+        name: 'payment created',
+        payload: event(1, 'payment.created', {
+            "amount": 100.00,
+            "currency": "USD",
+            "sender": {
+                "id": "usr_sender_12345",
+                "name": "Alice Johnson",
+                "email": "alice.j@example.com",
+                "country": "US"
+            },
+            "receiver": {
+                "id": "usr_receiver_67890",
+                "name": "Raj Patel",
+                "email": "raj.p@example.in",
+                "country": "IN"
+            },
+            "status": "completed",
+            "payment_method": "bank_transfer"
+        }),
+        expect: { status: 200, transactionStatus: 'completed', refunded: 0 }
+    },
+    {
+        name: 'partial refund',
+        payload: event(2, 'payment.refunded', { "amount": 10.00 }),
+        expect: { status: 200, transactionStatus: 'partially_refunded', refunded: 10 }
+    },
+    {
+        name: 'chargeback',
+        payload: event(3, 'payment.chargeback', { "amount": 40.00, "reason": "fraudulent" }),
+        expect: { status: 200, transactionStatus: 'disputed', refunded: 10 }
+    },
+    {
+        name: 'dispute lost',
+        payload: event(4, 'payment.dispute_closed', { "outcome": "lost" }),
+        expect: { status: 200, transactionStatus: 'partially_refunded', refunded: 50 }
+    },
+    {
+        name: 'dispute closed again',
+        payload: event(5, 'payment.dispute_closed', { "outcome": "won" }),
+        expect: { status: 422 }
+    },
+    {
+        name: 'remaining refund',
+        payload: event(6, 'payment.refunded', { "amount": 50.00 }),
+        expect: { status: 200, transactionStatus: 'refunded', refunded: 100 }
+    }
+];
+
+const sendWebhook = (payload) => {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = crypto
+        .createHmac('sha256', WEBHOOK_SECRET)
+        .update(`${timestamp}.${body}`)
+        .digest('hex');
+
+    return axios.post(`${BASE_URL}/webhooks/payment`, body, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Signature': signature,
+            'X-Webhook-Timestamp': timestamp
+        },
+        validateStatus: () => true
+    });
+};
+
+const main = async () => {
+    console.log(`Transaction ${transactionId}`);
+    const failures = [];
+
+    for (const step of steps) {
+        const response = await sendWebhook(step.payload);
+        const data = response.data.data || {};
+        const problems = [];
+
+        if (response.status !== step.expect.status) {
+            problems.push(`HTTP ${response.status}, expected ${step.expect.status}`);
+        }
+        if (step.expect.transactionStatus && data.status !== step.expect.transactionStatus) {
+            problems.push(`status ${data.status}, expected ${step.expect.transactionStatus}`);
+        }
+        if (
+            step.expect.refunded !== undefined &&
+            Number(data.refunded_amount) !== step.expect.refunded
+        ) {
+            problems.push(`refunded_amount ${data.refunded_amount}, expected ${step.expect.refunded}`);
+        }
+
+        const summary = response.status === 200
+            ? `${data.status}, refunded ${data.refunded_amount}`
+            : response.data.error || response.data.message;
+        console.log(`${problems.length ? '❌' : '✅'} ${step.name}: ${response.status} ${summary}`);
+
+        if (problems.length) {
+            failures.push(`${step.name}: ${problems.join('; ')}`);
+            if (response.status >= 500) {
+                break;
+            }
+        }
+    }
+
+    if (failures.length) {
+        failures.forEach((failure) => console.error(`   ${failure}`));
+        console.error(`❌ FAILED: ${failures.length} step(s) did not match`);
+        process.exit(1);
+    }
+
+    console.log('✅ PASSED: lost dispute counted as refunded and the rest refunded');
+};
+
+main().catch((error) => {
+    console.error('❌ Dispute test failed to run:', error.message);
+    process.exit(1);
+});
@@ -34,7 +34,7 @@ function loadEnv() {
 // Test payload
 const payload = {
     "event_id": "evt_8f7d6e5c4b3a2",
-    "event_type": "transaction.completed",
+    "event_type": "payment.created",
     "timestamp": "2025-10-28T14:30:00Z",
     "data": {
         "transaction_id": "txn_1a2b3c4d5e6f",
@@ -0,0 +1,169 @@
+#!/usr/bin/env node
+/**
+ * Subscription Delivery Test
+ * Starts a local HTTP stub receiver, registers it as a subscriber, sends a
+ * signed payment webhook and waits for the signed outbound delivery.
+ * The stub rejects the first FAIL_FIRST deliveries with 503 to exercise
+ * retries, and verifies every signature like SignatureValidator does.
+ *
+ * Requires a running server (npm run dev) and ADMIN_API_KEY.
+ * Usage: node test-subscriptions.js [baseUrl] [stubPort] [failFirst] [timeoutSeconds]
+ */
+
+const crypto = require('crypto');
+const http = require('http');
+const axios = require('axios');
+const dotenv = require('dotenv');
+dotenv.config();
+
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || 'abcd12345';
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY;
+const BASE_URL = process.argv[2] || 'http://localhost:3000';
+const STUB_PORT = parseInt(process.argv[3] || '4000');
+const FAIL_FIRST = parseInt(process.argv[4] || '1');
+const TIMEOUT_SECONDS = parseInt(process.argv[5] || '60');
+
+const runId = crypto.randomBytes(6).toString('hex');
+const SUBSCRIBER_SECRET = `whsec_test_${runId}`;
+
+const payload = {
+    "event_id": `evt_subscription_${runId}`,
+    "event_type": "payment.created",
+    "timestamp": new Date().toISOString(),
+    "data": {
+        "transaction_id": `txn_subscription_${runId}`,
+        "amount": 250.00,
+        "currency": "USD",
+        "sender": {
+            "id": "usr_sender_12345",
+            "name": "Alice Johnson",
+            "email": "alice.j@example.com",
+            "country": "US"
+        },
+        "receiver": {
+            "id": "usr_receiver_67890",
+            "name": "Raj Patel",
+            "email": "raj.p@example.in",
+            "country": "IN"
+        },
+        "status": "completed",
+        "payment_method": "bank_transfer"
+    }
+};
+
+const sign = (secret, body, timestamp) =>
+    crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+const verify = (headers, body) => {
+    const timestamp = headers['x-webhook-timestamp'];
+    const received = (headers['x-webhook-signature'] || '').replace(/^v1=/, '');
+    const expected = sign(SUBSCRIBER_SECRET, body, timestamp);
+    return (
+        received.length === expected.length &&
+        crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+    );
+};
+
+// Local stub receiver
+const received = [];
+const startStub = () =>
+    new Promise((resolve) => {
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const valid = verify(req.headers, body);
+                const attempt = received.length + 1;
+                received.push({ headers: req.headers, body, valid });
+
+                const status = !valid ? 401 : attempt <= FAIL_FIRST ? 503 : 200;
+                console.log(
+                    `📨 Delivery ${attempt}: ${req.headers['x-webhook-event-type']} ` +
+                    `signature ${valid ? 'valid' : 'INVALID'} -> ${status}`
+                );
+                res.writeHead(status, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ received: status === 200 }));
+            });
+        });
+        server.listen(STUB_PORT, () => resolve(server));
+    });
+
+const admin = axios.create({
+    baseURL: `${BASE_URL}/admin/subscriptions`,
+    headers: { Authorization: `Bearer ${ADMIN_API_KEY}` },
+    validateStatus: () => true
+});
+
+const sendWebhook = () => {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    return axios.post(`${BASE_URL}/webhooks/payment`, body, {
+        headers: {
+            'Content-Type': 'application/json',
+            'X-Webhook-Signature': sign(WEBHOOK_SECRET, body, timestamp),
+            'X-Webhook-Timestamp': timestamp
+        },
+        validateStatus: () => true
+    });
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isOurs = (delivery) =>
+    JSON.parse(delivery.body).data.transaction_id === payload.data.transaction_id;
+
+const main = async () => {
+    if (!ADMIN_API_KEY) {
+        throw new Error('ADMIN_API_KEY is required');
+    }
+
+    const server = await startStub();
+    console.log(`Stub receiver listening on http://localhost:${STUB_PORT}/`);
+
+    const created = await admin.post('/', {
+        name: `test-${runId}`,
+        url: `http://localhost:${STUB_PORT}/`,
+        secret: SUBSCRIBER_SECRET,
+        currencies: ['USD']
+    });
+    if (created.status !== 201) {
+        throw new Error(`Subscription not created: ${created.status} ${JSON.stringify(created.data)}`);
+    }
+    const subscriptionId = created.data.data.id;
+
+    let ok = false;
+    try {
+        const webhook = await sendWebhook();
+        console.log(`Webhook ${payload.event_id}: ${webhook.status}`);
+
+        const deadline = Date.now() + TIMEOUT_SECONDS * 1000;
+        while (Date.now() < deadline) {
+            const ours = received.filter(isOurs);
+            if (ours.some((delivery, index) => delivery.valid && index >= FAIL_FIRST)) {
+                ok = ours.every((delivery) => delivery.valid);
+                break;
+            }
+            await sleep(500);
+        }
+
+        const log = await admin.get(`/${subscriptionId}/deliveries`);
+        (log.data.data || []).forEach((delivery) =>
+            console.log(`Delivery log: ${delivery.event_type} ${delivery.status} after ${delivery.attempts} attempt(s)`)
+        );
+    } finally {
+        await admin.delete(`/${subscriptionId}`);
+        server.close();
+    }
+
+    if (!ok) {
+        console.error(`❌ FAILED: no valid delivery after ${FAIL_FIRST} rejected attempt(s) within ${TIMEOUT_SECONDS}s`);
+        process.exit(1);
+    }
+
+    console.log('✅ PASSED: signed delivery received and retried after failures');
+};
+
+main().catch((error) => {
+    console.error('❌ Subscription test failed to run:', error.message);
+    process.exit(1);
+});
@@ -0,0 +1,42 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { Decimal } from "../src/utils/decimal";
+
+test("parses strings, numbers and exponents exactly", () => {
+  assert.equal(Decimal.from("12.34").toString(), "12.34");
+  assert.equal(Decimal.from(0.1).plus(0.2).toString(), "0.3");
+  assert.equal(Decimal.from("1e-7").toString(), "0.0000001");
+  assert.equal(Decimal.from("-2.5E2").toString(), "-250");
+});
+
+test("rejects invalid values", () => {
+  assert.throws(() => Decimal.from("abc"), /Invalid decimal value/);
+  assert.throws(() => Decimal.from(Infinity), /Invalid decimal value/);
+  assert.equal(Decimal.isValid("1.5"), true);
+  assert.equal(Decimal.isValid(null), false);
+});
+
+test("adds, subtracts and multiplies without rounding", () => {
+  assert.equal(Decimal.from("100").minus("0.01").toString(), "99.99");
+  assert.equal(Decimal.from("19.99").times("0.029").toString(), "0.57971");
+});
+
+test("rounds half to even", () => {
+  assert.equal(Decimal.from("0.125").round(2).toString(), "0.12");
+  assert.equal(Decimal.from("0.135").round(2).toString(), "0.14");
+  assert.equal(Decimal.from("-0.125").round(2).toString(), "-0.12");
+  assert.equal(Decimal.from("1.5").round(3).toString(), "1.500");
+});
+
+test("divides to the requested scale", () => {
+  assert.equal(Decimal.from("2").dividedBy("3", 4).toString(), "0.6667");
+  assert.equal(Decimal.from("1").dividedBy("8", 2).toString(), "0.12");
+  assert.throws(() => Decimal.from("1").dividedBy("0", 2), /Division by zero/);
+});
+
+test("compares across scales", () => {
+  assert.equal(Decimal.from("1.50").compare("1.5"), 0);
+  assert.equal(Decimal.from("-1").compare("0.01"), -1);
+  const larger = Decimal.max(Decimal.from("2"), Decimal.from("10"));
+  assert.equal(larger.toString(), "10");
+});
@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FeeSchedule } from "../src/config/feeSchedules";
+import {
+  FeeEngine,
+  FeeInput,
+  FeeRuleNotFoundError,
+} from "../src/utils/feeEngine";
+
+const schedule: FeeSchedule = {
+  id: "test",
+  version: 3,
+  effective_from: new Date(0),
+  rules: [
+    {
+      id: "card_large",
+      payment_method: ["card"],
+      min_amount: "1000",
+      rate: "0.01",
+      max_fee: "15",
+    },
+    {
+      id: "card",
+      payment_method: ["card"],
+      rate: "0.029",
+      fixed_fee: "0.30",
+      min_fee: "0.50",
+    },
+    { id: "jpy_transfer", currency: ["JPY"], rate: "0.015" },
+  ],
+};
+
+const input = (overrides: Partial<FeeInput> = {}): FeeInput => ({
+  amount: "100.00",
+  currency: "USD",
+  payment_method: "card",
+  sender_country: "US",
+  receiver_country: "GB",
+  ...overrides,
+});
+
+test("applies the first matching rule and reports it", () => {
+  const result = FeeEngine.calculate(schedule, input());
+  assert.deepEqual(result, {
+    processing_fee: "3.20",
+    net_amount: "96.80",
+    fee_schedule_id: "test",
+    fee_schedule_version: 3,
+    fee_rule_id: "card",
+  });
+});
+
+test("selects amount tiers and clamps to max_fee", () => {
+  const result = FeeEngine.calculate(schedule, input({ amount: "5000" }));
+  assert.equal(result.fee_rule_id, "card_large");
+  assert.equal(result.processing_fee, "15.00");
+  assert.equal(result.net_amount, "4985.00");
+});
+
+test("clamps to min_fee and never exceeds the amount", () => {
+  assert.equal(
+    FeeEngine.calculate(schedule, input({ amount: "5" })).processing_fee,
+    "0.50"
+  );
+  assert.deepEqual(
+    FeeEngine.calculate(schedule, input({ amount: "0.40" })),
+    {
+      processing_fee: "0.40",
+      net_amount: "0.00",
+      fee_schedule_id: "test",
+      fee_schedule_version: 3,
+      fee_rule_id: "card",
+    }
+  );
+});
+
+test("rounds half to even to the currency's minor units", () => {
+  const result = FeeEngine.calculate(
+    schedule,
+    input({ amount: "1100", currency: "jpy", payment_method: "bank_transfer" })
+  );
+  assert.equal(result.processing_fee, "16");
+  assert.equal(result.net_amount, "1084");
+});
+
+test("throws when no rule matches", () => {
+  assert.throws(
+    () =>
+      FeeEngine.calculate(schedule, input({ payment_method: "bank_transfer" })),
+    FeeRuleNotFoundError
+  );
+});
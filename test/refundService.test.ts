@@ -0,0 +1,145 @@
+import "reflect-metadata";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { EntityManager, FindOperator } from "typeorm";
+import {
+  Transaction,
+  TransactionStatus,
+} from "../src/entities/Transaction.entity";
+import {
+  DisputeOutcome,
+  Refund,
+  RefundType,
+} from "../src/entities/Refund.entity";
+import { WebhookPayload } from "../src/validators/transactionValidator";
+import { RefundService } from "../src/services/refundService";
+
+/**
+ * Keeps the refunds rows in memory (only what RefundService uses)
+ */
+class MemoryManager {
+  refunds: Refund[] = [];
+
+  async find(_entity: unknown, options: { where: Record<string, unknown> }) {
+    return this.refunds.filter((row) =>
+      Object.entries(options.where).every(([column, value]) => {
+        const actual = row[column as keyof Refund];
+        return value instanceof FindOperator && value.type === "isNull"
+          ? actual === null
+          : actual === value;
+      })
+    );
+  }
+
+  async insert(_entity: unknown, values: Partial<Refund>) {
+    const id = `refund_${this.refunds.length + 1}`;
+    this.refunds.push({ id, ...values } as Refund);
+  }
+
+  async update(_entity: unknown, ids: string[], values: Partial<Refund>) {
+    this.refunds
+      .filter((row) => ids.includes(row.id))
+      .forEach((row) => Object.assign(row, values));
+  }
+}
+
+const setup = (policy: "retain" | "reverse") => {
+  const manager = new MemoryManager();
+  const transaction = {
+    id: "txn_ref_1",
+    transaction_id: "txn_1",
+    amount: "100.00",
+    currency: "USD",
+    processing_fee: "2.00",
+    refunded_amount: "0.00",
+    refunded_fee: "0.00",
+    status: TransactionStatus.COMPLETED,
+    fee_schedule_id: null,
+    fee_schedule_version: null,
+    fee_rule_id: null,
+  } as unknown as Transaction;
+
+  let step = 0;
+  const service = new RefundService(policy);
+
+  const reverse = async (type: RefundType, amount: number) => {
+    step++;
+    const payload = {
+      event_id: `evt_${step}`,
+      event_type:
+        type === RefundType.REFUND ? "payment.refunded" : "payment.chargeback",
+      timestamp: new Date(step * 1000).toISOString(),
+      data: { transaction_id: "txn_1", amount },
+    } as WebhookPayload;
+
+    transaction.status = await service.applyReversal(
+      manager as unknown as EntityManager,
+      transaction,
+      payload,
+      type,
+      { provider: "default", eventTimestamp: new Date(step * 1000) }
+    );
+    return manager.refunds[manager.refunds.length - 1];
+  };
+
+  const closeDisputes = async (outcome: DisputeOutcome) => {
+    transaction.status = await service.closeDisputes(
+      manager as unknown as EntityManager,
+      transaction,
+      outcome
+    );
+  };
+
+  return { transaction, reverse, closeDisputes };
+};
+
+test("reverse returns the fee pro rata", async () => {
+  const { transaction, reverse } = setup("reverse");
+
+  assert.equal((await reverse(RefundType.REFUND, 10)).fee_reversal, "0.20");
+  assert.equal((await reverse(RefundType.REFUND, 90)).fee_reversal, "1.80");
+  assert.equal(transaction.refunded_fee, "2.00");
+  assert.equal(transaction.status, TransactionStatus.REFUNDED);
+});
+
+test("a lost chargeback keeps its fee when the rest is refunded", async () => {
+  const { transaction, reverse, closeDisputes } = setup("reverse");
+
+  const chargeback = await reverse(RefundType.CHARGEBACK, 50);
+  assert.equal(chargeback.fee_reversal, "0.00");
+  assert.equal(transaction.status, TransactionStatus.DISPUTED);
+
+  await closeDisputes(DisputeOutcome.LOST);
+  assert.equal(transaction.refunded_amount, "50.00");
+  assert.equal(transaction.status, TransactionStatus.PARTIALLY_REFUNDED);
+
+  const refund = await reverse(RefundType.REFUND, 10);
+  assert.equal(refund.fee_reversal, "0.20");
+  assert.equal(transaction.refunded_amount, "60.00");
+  assert.equal(transaction.refunded_fee, "0.20");
+
+  // Fees of the 50 charged back are never returned
+  assert.equal((await reverse(RefundType.REFUND, 40)).fee_reversal, "0.80");
+  assert.equal(transaction.refunded_fee, "1.00");
+  assert.equal(transaction.status, TransactionStatus.REFUNDED);
+});
+
+test("a won chargeback returns the amount to refund", async () => {
+  const { transaction, reverse, closeDisputes } = setup("reverse");
+
+  await reverse(RefundType.CHARGEBACK, 50);
+  await assert.rejects(reverse(RefundType.REFUND, 60), {
+    name: "RefundExceedsAmountError",
+  });
+
+  await closeDisputes(DisputeOutcome.WON);
+  assert.equal(transaction.status, TransactionStatus.COMPLETED);
+  assert.equal((await reverse(RefundType.REFUND, 60)).fee_reversal, "1.20");
+});
+
+test("retain returns no fee", async () => {
+  const { transaction, reverse } = setup("retain");
+
+  assert.equal((await reverse(RefundType.REFUND, 100)).fee_reversal, "0.00");
+  assert.equal(transaction.refunded_fee, "0.00");
+});
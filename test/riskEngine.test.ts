@@ -0,0 +1,126 @@
+import "reflect-metadata";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RiskRule } from "../src/config/risk";
+import { RiskDecision } from "../src/entities/Transaction.entity";
+import { RiskEngine, RiskInput } from "../src/utils/riskEngine";
+
+const thresholds = { reviewScore: 50, rejectScore: 100 };
+
+const rules: RiskRule[] = [
+  {
+    id: "sender_velocity",
+    type: "velocity",
+    party: "sender",
+    window_seconds: 3600,
+    max_count: 3,
+    max_amount: "1000",
+    currency: ["USD"],
+    score: 40,
+  },
+  {
+    id: "large_usd",
+    type: "amount",
+    min_amount: "5000",
+    currency: ["USD"],
+    score: 30,
+  },
+  {
+    id: "listed_receiver",
+    type: "country",
+    countries: ["KP"],
+    country_field: "receiver",
+    score: 0,
+    action: "reject",
+  },
+  { id: "self_payment", type: "same_party", score: 20, action: "review" },
+];
+
+const input = (overrides: Partial<RiskInput> = {}): RiskInput => ({
+  amount: "100.00",
+  currency: "USD",
+  sender_id: "usr_sender",
+  sender_email: "alice@example.com",
+  sender_country: "US",
+  receiver_id: "usr_receiver",
+  receiver_email: "raj@example.in",
+  receiver_country: "IN",
+  ...overrides,
+});
+
+test("accepts a payment that matches no rule", () => {
+  assert.deepEqual(RiskEngine.evaluate(rules, input(), {}, thresholds), {
+    score: 0,
+    decision: RiskDecision.ACCEPT,
+    rules: [],
+  });
+});
+
+test("counts the payment itself towards velocity limits", () => {
+  const under = RiskEngine.evaluate(
+    rules,
+    input(),
+    { sender_velocity: { count: 2, amount: "200" } },
+    thresholds
+  );
+  assert.equal(under.rules.length, 0);
+
+  const over = RiskEngine.evaluate(
+    rules,
+    input(),
+    { sender_velocity: { count: 3, amount: "200" } },
+    thresholds
+  );
+  assert.equal(over.score, 40);
+  assert.equal(over.decision, RiskDecision.ACCEPT);
+  assert.match(over.rules[0].reason, /4 transactions by sender/);
+});
+
+test("checks velocity amounts only in the rule's currencies", () => {
+  const velocity = { sender_velocity: { count: 0, amount: "950" } };
+
+  const usd = RiskEngine.evaluate(rules, input(), velocity, thresholds);
+  assert.deepEqual(
+    usd.rules.map((match) => match.rule_id),
+    ["sender_velocity"]
+  );
+
+  const eur = RiskEngine.evaluate(
+    rules,
+    input({ currency: "EUR" }),
+    velocity,
+    thresholds
+  );
+  assert.equal(eur.rules.length, 0);
+});
+
+test("adds up scores against the thresholds", () => {
+  const result = RiskEngine.evaluate(
+    rules,
+    input({ amount: "6000" }),
+    { sender_velocity: { count: 0, amount: "0" } },
+    thresholds
+  );
+  assert.equal(result.score, 70);
+  assert.equal(result.decision, RiskDecision.REVIEW);
+});
+
+test("rule actions override the score", () => {
+  const listed = RiskEngine.evaluate(
+    rules,
+    input({ receiver_country: "kp" }),
+    {},
+    thresholds
+  );
+  assert.equal(listed.score, 0);
+  assert.equal(listed.decision, RiskDecision.REJECT);
+
+  const self = RiskEngine.evaluate(
+    rules,
+    input({ receiver_email: " Alice@Example.com " }),
+    {},
+    thresholds
+  );
+  assert.equal(self.decision, RiskDecision.REVIEW);
+  assert.equal(self.rules[0].reason, "Sender and receiver have the same email");
+});
@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  builtInSignatureSchemes,
+  GitHubSignatureScheme,
+  HeaderHmacScheme,
+  StripeSignatureScheme,
+} from "../src/utils/signatureSchemes";
+
+const secret = "whsec_test";
+const body = '{"event_id":"evt_1"}';
+const timestamp = "1700000000";
+
+const hmac = (content: string, encoding: "hex" | "base64" = "hex") =>
+  crypto.createHmac("sha256", secret).update(content).digest(encoding);
+
+test("default scheme signs <timestamp>.<body> and parses lists", () => {
+  const scheme = new HeaderHmacScheme("default", {
+    signatureHeader: "x-webhook-signature",
+    timestampHeader: "x-webhook-timestamp",
+    encoding: "hex",
+  });
+
+  assert.equal(
+    scheme.sign(secret, body, timestamp),
+    hmac(`${timestamp}.${body}`)
+  );
+  assert.equal(scheme.sign(secret, body), hmac(body));
+
+  assert.deepEqual(
+    scheme.parse({
+      "x-webhook-signature": "kid=key_2, v1=abc,v1=def",
+      "x-webhook-timestamp": timestamp,
+    }),
+    { keyId: "key_2", signatures: ["abc", "def"], timestamp }
+  );
+  assert.deepEqual(scheme.parse({ "x-webhook-signature": "abc" }), {
+    keyId: undefined,
+    signatures: ["abc"],
+    timestamp: undefined,
+  });
+  assert.equal(scheme.parse({}), null);
+});
+
+test("base64 scheme keeps the padding of bare signatures", () => {
+  const scheme = builtInSignatureSchemes().find((s) => s.name === "base64")!;
+  const signature = scheme.sign(secret, body, timestamp);
+
+  assert.equal(signature, hmac(`${timestamp}.${body}`, "base64"));
+  assert.ok(signature.endsWith("="));
+  assert.deepEqual(
+    scheme.parse({ "x-webhook-signature": signature })?.signatures,
+    [signature]
+  );
+});
+
+test("stripe scheme reads t= and every v1= from one header", () => {
+  const scheme = new StripeSignatureScheme();
+
+  assert.deepEqual(
+    scheme.parse({ "stripe-signature": `t=${timestamp},v1=abc,v0=old,v1=def` }),
+    { signatures: ["abc", "def"], timestamp }
+  );
+  assert.equal(
+    scheme.sign(secret, body, timestamp),
+    hmac(`${timestamp}.${body}`)
+  );
+});
+
+test("github scheme signs the body alone and strips the sha256= prefix", () => {
+  const scheme = new GitHubSignatureScheme();
+  const signature = scheme.sign(secret, body);
+
+  assert.equal(signature, hmac(body));
+  assert.deepEqual(
+    scheme.parse({ "x-hub-signature-256": `sha256=${signature}` }),
+    { signatures: [signature] }
+  );
+  assert.equal(scheme.parse({ "x-webhook-signature": signature }), null);
+});
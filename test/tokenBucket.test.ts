@@ -0,0 +1,40 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { refill, takeToken, TokenBucketLimit } from "../src/utils/tokenBucket";
+
+const limit: TokenBucketLimit = { capacity: 2, refillPerSecond: 0.5 };
+
+test("a new bucket is full", () => {
+  assert.equal(refill(undefined, limit, 0), 2);
+});
+
+test("allows the burst, then rejects with a retry hint", () => {
+  let result = takeToken(undefined, limit, 0);
+  assert.deepEqual(result.decision, {
+    allowed: true,
+    remaining: 1,
+    retryAfterSeconds: 0,
+  });
+
+  result = takeToken(result.state, limit, 0);
+  assert.equal(result.decision.allowed, true);
+  assert.equal(result.decision.remaining, 0);
+
+  result = takeToken(result.state, limit, 0);
+  assert.deepEqual(result.decision, {
+    allowed: false,
+    remaining: 0,
+    retryAfterSeconds: 2,
+  });
+});
+
+test("refills over time up to the capacity", () => {
+  const empty = { tokens: 0, updatedAt: 0 };
+  assert.equal(refill(empty, limit, 1000), 0.5);
+  assert.equal(takeToken(empty, limit, 2000).decision.allowed, true);
+  assert.equal(refill(empty, limit, 60_000), 2);
+});
+
+test("ignores clocks that go backwards", () => {
+  assert.equal(refill({ tokens: 1, updatedAt: 5000 }, limit, 1000), 1);
+});